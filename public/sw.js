@@ -0,0 +1,31 @@
+// public/sw.js
+// Service worker of the deadline reminders (see src/services/notifications.ts):
+// shows them as system notifications and handles their clicks.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const key = event.notification.data && event.notification.data.key;
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        if (event.action === "snooze") {
+          // the app keeps the reminder state, let an open window snooze it
+          windows.forEach((client) =>
+            client.postMessage({ type: "reminder-snooze", key })
+          );
+          return undefined;
+        }
+        if (windows.length > 0) return windows[0].focus();
+        return self.clients.openWindow("/tasks");
+      })
+  );
+});
@@ -6,10 +6,12 @@ import TasksPage from "./pages/TasksPage";
 import CalendarPage from "./pages/CalendarPage";
 import HistoryPage from "./pages/HistoryPage";
 import DataAnalyticsPage from "./pages/DataAnalyticsPage";
+import ReminderScheduler from "./components/ReminderScheduler";
 
 const App: React.FC = () => {
   return (
     <BrowserRouter>
+      <ReminderScheduler />
       <Routes>
         <Route path="/" element={<AboutPage />} />
         <Route path="/tasks" element={<TasksPage />} />
@@ -0,0 +1,47 @@
+import React from "react";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  /** open subtasks that would be cancelled too */
+  childCount: number;
+  onCascade: () => void;
+  onParentOnly: () => void;
+  onCancel: () => void;
+}
+
+const CancelCascadeModal: React.FC<Props> = ({
+  open,
+  childCount,
+  onCascade,
+  onParentOnly,
+  onCancel,
+}) => {
+  if (!open) return null;
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box animate-slideIn">
+        <h2 className="modal-title">Cancel task</h2>
+        <p className="modal-message">
+          This task still has {childCount} open subtask
+          {childCount > 1 ? "s" : ""}. Cancel {childCount > 1 ? "them" : "it"}{" "}
+          as well?
+        </p>
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onCancel}>
+            Back
+          </button>
+          <button className="btn btn-secondary" onClick={onParentOnly}>
+            Only this task
+          </button>
+          <button className="btn btn-danger" onClick={onCascade}>
+            Cancel all
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelCascadeModal;
@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef } from "react";
-import { auth } from "../services/firebase";
-import { getTasksWithLevelsByUser } from "../services/firestore";
 import { generateTaskInsights, isApiKeyConfigured, isFallbackMode } from "../services/gemini";
 import type { AggregatedTask } from "../services/task";
-import { getMultipleAggregatedTasks } from "../services/task";
+import {
+  selectAggregatedTasks,
+  selectIsLoading,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
 import { TaskStatus } from "../services/taskProgress";
 import "../styles/ChatBot.css";
 
@@ -30,8 +32,8 @@ const ChatBot = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
-  const [tasks, setTasks] = useState<AggregatedTask[]>([]);
-  const [loading, setLoading] = useState(true);
+  const tasks = useTaskStore(selectAggregatedTasks);
+  const loading = useTaskStore(selectIsLoading);
   const [isOpen, setIsOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -44,37 +46,15 @@ const ChatBot = () => {
     "Which tasks are most urgent?",
   ];
 
+  // Add welcome message
   useEffect(() => {
-    const loadTasks = async () => {
-      try {
-        const user = auth.currentUser;
-        if (!user) {
-          setLoading(false);
-          return;
-        }
-
-        const userTasks = await getTasksWithLevelsByUser(user.uid);
-        const aggregatedTasks = await getMultipleAggregatedTasks(
-          userTasks.map((task) => task.id)
-        );
-        setTasks(aggregatedTasks);
-
-        // Add welcome message
-        const welcomeMessage: ChatMessage = {
-          id: Date.now().toString(),
-          type: "bot",
-          content: "Hello! I'm your task assistant. I can help you analyze your productivity and provide insights about your tasks. What would you like to know?",
-          timestamp: new Date(),
-        };
-        setMessages([welcomeMessage]);
-      } catch (error) {
-        console.error("Error loading tasks:", error);
-      } finally {
-        setLoading(false);
-      }
+    const welcomeMessage: ChatMessage = {
+      id: Date.now().toString(),
+      type: "bot",
+      content: "Hello! I'm your task assistant. I can help you analyze your productivity and provide insights about your tasks. What would you like to know?",
+      timestamp: new Date(),
     };
-
-    loadTasks();
+    setMessages([welcomeMessage]);
   }, []);
 
   useEffect(() => {
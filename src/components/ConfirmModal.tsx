@@ -6,6 +6,8 @@ interface ConfirmModalProps {
   message: string;
   onConfirm: () => void;
   onCancel: () => void;
+  /** text of the confirm button, "Delete" by default */
+  confirmLabel?: string;
 }
 
 const ConfirmModal: React.FC<ConfirmModalProps> = ({
@@ -13,6 +15,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
   message,
   onConfirm,
   onCancel,
+  confirmLabel = "Delete",
 }) => {
   if (!open) return null;
 
@@ -26,7 +29,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
             Cancel
           </button>
           <button className="btn btn-danger" onClick={onConfirm}>
-            Delete
+            {confirmLabel}
           </button>
         </div>
       </div>
@@ -0,0 +1,394 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import {
+  type Course,
+  type Semester,
+  type SaveCourseInput,
+  type SaveSemesterInput,
+} from "../services/firestore";
+import {
+  COURSE_COLORS,
+  courseLabel,
+  findSemesterAt,
+  groupCoursesBySemester,
+  nextCourseColor,
+  validateCourse,
+  validateSemester,
+} from "../services/courses";
+import {
+  removeCourse,
+  removeSemester,
+  saveCourse,
+  saveSemester,
+  selectCourses,
+  selectSemesters,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import ConfirmModal from "./ConfirmModal";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (d: Date | null | undefined) =>
+  d
+    ? [
+        d.getFullYear(),
+        String(d.getMonth() + 1).padStart(2, "0"),
+        String(d.getDate()).padStart(2, "0"),
+      ].join("-")
+    : "";
+
+const fromDateInput = (value: string, endOfDay = false) =>
+  value ? new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}`) : null;
+
+const emptySemester = (): SaveSemesterInput => ({
+  name: "",
+  start_date: null,
+  end_date: null,
+});
+
+/** new courses default to the semester running today */
+const emptyCourse = (
+  courses: Course[],
+  semesters: Semester[]
+): SaveCourseInput => ({
+  name: "",
+  code: "",
+  credits: null,
+  color: nextCourseColor(courses),
+  instructor: "",
+  semester_id: findSemesterAt(semesters, new Date())?.id ?? null,
+});
+
+const CourseManagerModal: React.FC<Props> = ({ open, onClose }) => {
+  const courses = useTaskStore(selectCourses);
+  const semesters = useTaskStore(selectSemesters);
+  const [semesterDraft, setSemesterDraft] = useState(emptySemester);
+  const [courseDraft, setCourseDraft] = useState(() =>
+    emptyCourse(courses, semesters)
+  );
+  const [toDelete, setToDelete] = useState<
+    | { kind: "course"; item: Course }
+    | { kind: "semester"; item: Semester }
+    | null
+  >(null);
+
+  if (!open) return null;
+
+  const run = async (
+    action: (uid: string) => Promise<unknown>,
+    success: string
+  ) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      toast.error("You are not logged in");
+      return false;
+    }
+    try {
+      await action(uid);
+      toast.success(success);
+      return true;
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Save failed");
+      return false;
+    }
+  };
+
+  const handleSaveSemester = async () => {
+    const draft = { ...semesterDraft, name: semesterDraft.name.trim() };
+    const error = validateSemester(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    const saved = await run(
+      (uid) => saveSemester(uid, draft),
+      draft.id ? "Semester updated" : "Semester added"
+    );
+    if (saved) setSemesterDraft(emptySemester());
+  };
+
+  const handleSaveCourse = async () => {
+    const draft = {
+      ...courseDraft,
+      name: courseDraft.name.trim(),
+      code: courseDraft.code.trim(),
+      instructor: courseDraft.instructor?.trim() ?? "",
+    };
+    const error = validateCourse(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    const saved = await run(
+      (uid) => saveCourse(uid, draft),
+      draft.id ? "Course updated" : "Course added"
+    );
+    if (saved) setCourseDraft(emptyCourse(courses, semesters));
+  };
+
+  const editSemester = (semester: Semester) =>
+    setSemesterDraft({
+      id: semester.id,
+      name: semester.name,
+      start_date: semester.start_date ?? null,
+      end_date: semester.end_date ?? null,
+    });
+
+  const editCourse = (course: Course) =>
+    setCourseDraft({
+      id: course.id,
+      name: course.name,
+      code: course.code,
+      credits: course.credits ?? null,
+      color: course.color,
+      instructor: course.instructor ?? "",
+      semester_id: course.semester_id ?? null,
+    });
+
+  const handleConfirmDelete = async () => {
+    if (!toDelete) return;
+    const deleted =
+      toDelete.kind === "course"
+        ? await run(
+            (uid) => removeCourse(uid, toDelete.item.id),
+            "Course deleted"
+          )
+        : await run(
+            (uid) => removeSemester(uid, toDelete.item.id),
+            "Semester deleted"
+          );
+    if (deleted) setToDelete(null);
+  };
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box course-manager animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Courses & Semesters</h2>
+          <button className="btn-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <h3 className="course-section-title">Semesters</h3>
+        <ul className="course-list">
+          {semesters.map((semester) => (
+            <li key={semester.id} className="course-row">
+              <span className="course-row-label">
+                {semester.name}
+                {semester.start_date && semester.end_date && (
+                  <small>
+                    {" "}
+                    {semester.start_date.toLocaleDateString("en-GB")} –{" "}
+                    {semester.end_date.toLocaleDateString("en-GB")}
+                  </small>
+                )}
+              </span>
+              <button
+                className="btn btn-secondary"
+                onClick={() => editSemester(semester)}
+              >
+                ✏️
+              </button>
+              <button
+                className="btn btn-danger"
+                onClick={() =>
+                  setToDelete({ kind: "semester", item: semester })
+                }
+              >
+                🗑️
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="course-form">
+          <input
+            className="input"
+            placeholder="Semester name, e.g. Fall 2026"
+            value={semesterDraft.name}
+            onChange={(e) =>
+              setSemesterDraft({ ...semesterDraft, name: e.target.value })
+            }
+          />
+          <input
+            type="date"
+            className="input"
+            title="Start date"
+            value={toDateInput(semesterDraft.start_date)}
+            onChange={(e) =>
+              setSemesterDraft({
+                ...semesterDraft,
+                start_date: fromDateInput(e.target.value),
+              })
+            }
+          />
+          <input
+            type="date"
+            className="input"
+            title="End date"
+            value={toDateInput(semesterDraft.end_date)}
+            onChange={(e) =>
+              setSemesterDraft({
+                ...semesterDraft,
+                end_date: fromDateInput(e.target.value, true),
+              })
+            }
+          />
+          <button className="btn btn-primary" onClick={handleSaveSemester}>
+            {semesterDraft.id ? "Update" : "Add"}
+          </button>
+          {semesterDraft.id && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => setSemesterDraft(emptySemester())}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        <h3 className="course-section-title">Courses</h3>
+        {groupCoursesBySemester(courses, semesters).map(
+          ({ semester, courses: group }) => (
+            <div key={semester?.id ?? "none"}>
+              <div className="course-group-label">
+                {semester?.name ?? "No semester"}
+              </div>
+              <ul className="course-list">
+                {group.map((course) => (
+                  <li key={course.id} className="course-row">
+                    <span
+                      className="course-swatch"
+                      style={{ background: course.color }}
+                    />
+                    <span className="course-row-label">
+                      {courseLabel(course)}
+                      <small>
+                        {course.credits != null && ` · ${course.credits} cr`}
+                        {course.instructor && ` · ${course.instructor}`}
+                      </small>
+                    </span>
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => editCourse(course)}
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      onClick={() =>
+                        setToDelete({ kind: "course", item: course })
+                      }
+                    >
+                      🗑️
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        )}
+        <div className="course-form">
+          <input
+            className="input course-code"
+            placeholder="Code"
+            value={courseDraft.code}
+            onChange={(e) =>
+              setCourseDraft({ ...courseDraft, code: e.target.value })
+            }
+          />
+          <input
+            className="input"
+            placeholder="Course name"
+            value={courseDraft.name}
+            onChange={(e) =>
+              setCourseDraft({ ...courseDraft, name: e.target.value })
+            }
+          />
+          <input
+            type="number"
+            min={0}
+            className="input course-credits"
+            placeholder="Credits"
+            value={courseDraft.credits ?? ""}
+            onChange={(e) =>
+              setCourseDraft({
+                ...courseDraft,
+                credits: e.target.value === "" ? null : Number(e.target.value),
+              })
+            }
+          />
+          <input
+            className="input"
+            placeholder="Instructor"
+            value={courseDraft.instructor ?? ""}
+            onChange={(e) =>
+              setCourseDraft({ ...courseDraft, instructor: e.target.value })
+            }
+          />
+          <select
+            className="input"
+            value={courseDraft.semester_id ?? ""}
+            onChange={(e) =>
+              setCourseDraft({
+                ...courseDraft,
+                semester_id: e.target.value || null,
+              })
+            }
+          >
+            <option value="">No semester</option>
+            {semesters.map((semester) => (
+              <option key={semester.id} value={semester.id}>
+                {semester.name}
+              </option>
+            ))}
+          </select>
+          <div className="course-colors">
+            {COURSE_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className={`course-swatch ${
+                  courseDraft.color === color ? "active" : ""
+                }`}
+                style={{ background: color }}
+                onClick={() => setCourseDraft({ ...courseDraft, color })}
+                title={color}
+              />
+            ))}
+          </div>
+          <button className="btn btn-primary" onClick={handleSaveCourse}>
+            {courseDraft.id ? "Update" : "Add"}
+          </button>
+          {courseDraft.id && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => setCourseDraft(emptyCourse(courses, semesters))}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmModal
+        open={toDelete !== null}
+        onCancel={() => setToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        message={
+          toDelete?.kind === "course"
+            ? `Delete "${courseLabel(toDelete.item)}"? Its tasks are kept without a course.`
+            : `Delete "${toDelete?.item.name}"? Its courses are kept without a semester.`
+        }
+      />
+    </div>
+  );
+};
+
+export default CourseManagerModal;
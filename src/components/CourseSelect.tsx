@@ -0,0 +1,65 @@
+import React from "react";
+import {
+  COURSE_FILTER_ALL,
+  COURSE_FILTER_NONE,
+  courseLabel,
+  groupCoursesBySemester,
+} from "../services/courses";
+import { selectCourses, selectSemesters } from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import "../styles/theme.css";
+
+interface Props {
+  /** picker: course id or "" for none; filter: see matchesCourseFilter */
+  value: string;
+  onChange: (value: string) => void;
+  /** filter mode adds "All courses" / "No course" choices */
+  filter?: boolean;
+  id?: string;
+  className?: string;
+}
+
+/** course dropdown grouped by semester */
+const CourseSelect: React.FC<Props> = ({
+  value,
+  onChange,
+  filter = false,
+  id,
+  className = "input",
+}) => {
+  const courses = useTaskStore(selectCourses);
+  const semesters = useTaskStore(selectSemesters);
+  const groups = groupCoursesBySemester(courses, semesters);
+
+  return (
+    <select
+      id={id}
+      className={className}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {filter ? (
+        <>
+          <option value={COURSE_FILTER_ALL}>All courses</option>
+          <option value={COURSE_FILTER_NONE}>No course</option>
+        </>
+      ) : (
+        <option value="">No course</option>
+      )}
+      {groups.map(({ semester, courses }) => (
+        <optgroup
+          key={semester?.id ?? "none"}
+          label={semester?.name ?? "No semester"}
+        >
+          {courses.map((course) => (
+            <option key={course.id} value={course.id}>
+              {courseLabel(course)}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default CourseSelect;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { type TaskChild } from "../services/firestore";
-import { auth } from "../services/firebase";
+import { auth } from "../services/auth";
 import { toast } from "react-toastify";
+import TagInput from "./TagInput";
 import "../styles/ChildTaskModal.css";
 
 interface Props {
@@ -36,6 +37,8 @@ const CreateChildTaskModal: React.FC<Props> = ({
   const [childLevel, setChildLevel] = useState(3);
   const [childStartTime, setChildStartTime] = useState("");
   const [childEndTime, setChildEndTime] = useState("");
+  const [childTags, setChildTags] = useState<string[]>([]);
+  const [childEstimate, setChildEstimate] = useState("");
 
   const resetForm = useCallback(() => {
     setChildName("");
@@ -43,6 +46,8 @@ const CreateChildTaskModal: React.FC<Props> = ({
     setChildLevel(3);
     setChildStartTime(parentStartTime || "");
     setChildEndTime(parentEndTime || "");
+    setChildTags([]);
+    setChildEstimate("");
   }, [parentStartTime, parentEndTime]);
 
   useEffect(() => {
@@ -52,6 +57,8 @@ const CreateChildTaskModal: React.FC<Props> = ({
       setChildLevel(editTask.level || 3);
       setChildStartTime(editTask.start_time?.toISOString().slice(0, 16) || "");
       setChildEndTime(editTask.end_time?.toISOString().slice(0, 16) || "");
+      setChildTags(editTask.tags ?? []);
+      setChildEstimate(editTask.estimated_minutes?.toString() ?? "");
     } else {
       resetForm();
     }
@@ -99,6 +106,12 @@ const CreateChildTaskModal: React.FC<Props> = ({
       return;
     }
 
+    const estimate = childEstimate ? Number(childEstimate) : null;
+    if (estimate !== null && !(Number.isInteger(estimate) && estimate > 0)) {
+      toast.error("Estimated effort must be a whole number of minutes");
+      return;
+    }
+
     try {
       if (editTask && onEdit) {
         const updatedTask: TaskChild = {
@@ -108,6 +121,8 @@ const CreateChildTaskModal: React.FC<Props> = ({
           level: childLevel,
           start_time: childStartTime ? new Date(childStartTime) : null,
           end_time: childEndTime ? new Date(childEndTime) : null,
+          tags: childTags,
+          estimated_minutes: estimate,
         };
         onEdit(updatedTask);
         toast.success("Child task updated successfully");
@@ -119,6 +134,8 @@ const CreateChildTaskModal: React.FC<Props> = ({
           level: childLevel,
           start_time: childStartTime ? new Date(childStartTime) : null,
           end_time: childEndTime ? new Date(childEndTime) : null,
+          tags: childTags,
+          estimated_minutes: estimate,
           createdAt: new Date(),
         };
         onSaved(newChild);
@@ -177,6 +194,27 @@ const CreateChildTaskModal: React.FC<Props> = ({
             ))}
           </select>
         </div>
+        <div className="form-group">
+          <label>Estimated effort (minutes)</label>
+          <input
+            type="number"
+            className="input"
+            min="1"
+            step="5"
+            value={childEstimate}
+            onChange={(e) => setChildEstimate(e.target.value)}
+            placeholder="e.g. 45"
+          />
+          {!!editTask?.actual_minutes && (
+            <p className="form-hint">
+              Tracked so far: {editTask.actual_minutes} min
+            </p>
+          )}
+        </div>
+        <div className="form-group">
+          <label>Tags</label>
+          <TagInput value={childTags} onChange={setChildTags} />
+        </div>
         <div className="form-group">
           <label>Start</label>
           <input
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from "react";
-import { auth } from "../services/firebase";
-import { type TaskItem, saveTaskWithLevel } from "../services/firestore";
+import { auth } from "../services/auth";
+import { type TaskItem } from "../services/firestore";
+import { saveTask } from "../services/taskStore";
+import { type Recurrence, validateRecurrence } from "../services/recurrence";
+import RecurrenceFields from "./RecurrenceFields";
+import ReminderFields from "./ReminderFields";
+import CourseSelect from "./CourseSelect";
+import TagInput from "./TagInput";
 import { toast } from "react-toastify";
 import "../styles/theme.css";
 
@@ -8,7 +14,7 @@ interface Props {
   open: boolean;
   onClose: () => void;
   edit?: TaskItem | null;
-  onSaved: () => void;
+  onSaved?: () => void;
   defaultStart?: Date;
   defaultEnd?: Date;
 }
@@ -34,6 +40,11 @@ const CreateEditTaskModal: React.FC<Props> = ({
   const [level, setLevel] = useState(3);
   const [startTime, setStartTime] = useState<string>("");
   const [endTime, setEndTime] = useState<string>("");
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [courseId, setCourseId] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [estimatedMinutes, setEstimatedMinutes] = useState("");
+  const [reminders, setReminders] = useState<number[] | null>(null);
 
   useEffect(() => {
     if (edit) {
@@ -48,10 +59,20 @@ const CreateEditTaskModal: React.FC<Props> = ({
       setEndTime(
         edit.end_time ? new Date(edit.end_time).toISOString().slice(0, 16) : ""
       );
+      setRecurrence(edit.recurrence ?? null);
+      setCourseId(edit.course_id ?? "");
+      setTags(edit.tags ?? []);
+      setEstimatedMinutes(edit.estimated_minutes?.toString() ?? "");
+      setReminders(edit.reminders ?? null);
     } else {
       setTaskName("");
       setTaskDetail("");
       setLevel(3);
+      setRecurrence(null);
+      setCourseId("");
+      setTags([]);
+      setEstimatedMinutes("");
+      setReminders(null);
       if (defaultStart) {
         setStartTime(new Date(defaultStart).toISOString().slice(0, 16));
       }
@@ -97,6 +118,21 @@ const CreateEditTaskModal: React.FC<Props> = ({
       return;
     }
 
+    const start = startTime || endTime;
+    const recurrenceError =
+      recurrence &&
+      validateRecurrence(recurrence, start ? new Date(start) : null);
+    if (recurrenceError) {
+      toast.error(recurrenceError);
+      return;
+    }
+
+    const estimate = estimatedMinutes ? Number(estimatedMinutes) : null;
+    if (estimate !== null && !(Number.isInteger(estimate) && estimate > 0)) {
+      toast.error("Estimated effort must be a whole number of minutes");
+      return;
+    }
+
     try {
       const taskData = {
         id: edit?.id,
@@ -105,13 +141,18 @@ const CreateEditTaskModal: React.FC<Props> = ({
         start_time: startTime ? new Date(startTime) : null,
         end_time: endTime ? new Date(endTime) : null,
         level,
+        recurrence,
+        course_id: courseId || null,
+        tags,
+        estimated_minutes: estimate,
+        reminders,
         user_id: currentUser.uid,
       };
 
-      await saveTaskWithLevel(currentUser.uid, taskData);
+      await saveTask(currentUser.uid, taskData);
       toast.success(edit ? "Update successful" : "Added successfully");
       onClose();
-      onSaved();
+      onSaved?.();
     } catch (err) {
       console.error(err);
       toast.error("Save failed");
@@ -172,6 +213,35 @@ const CreateEditTaskModal: React.FC<Props> = ({
           </select>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="estimatedMinutes">Estimated effort (minutes):</label>
+          <input
+            id="estimatedMinutes"
+            type="number"
+            className="input"
+            min="1"
+            step="5"
+            value={estimatedMinutes}
+            onChange={(e) => setEstimatedMinutes(e.target.value)}
+            placeholder="e.g. 90"
+          />
+          {!!edit?.actual_minutes && (
+            <p className="form-hint">
+              Tracked so far: {edit.actual_minutes} min
+            </p>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="taskTags">Tags:</label>
+          <TagInput id="taskTags" value={tags} onChange={setTags} />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="courseId">Course:</label>
+          <CourseSelect id="courseId" value={courseId} onChange={setCourseId} />
+        </div>
+
         <div className="form-group">
           <label htmlFor="startTime">Start Time:</label>
           <input
@@ -194,6 +264,14 @@ const CreateEditTaskModal: React.FC<Props> = ({
           />
         </div>
 
+        <RecurrenceFields
+          value={recurrence}
+          onChange={setRecurrence}
+          defaultWeekday={startTime ? new Date(startTime).getDay() : undefined}
+        />
+
+        <ReminderFields value={reminders} onChange={setReminders} />
+
         <div className="modal-actions">
           <button className="btn btn-secondary" onClick={onClose}>
             Cancel
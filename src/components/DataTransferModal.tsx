@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import {
+  type BackupData,
+  buildBackup,
+  parseBackup,
+  serializeBackup,
+} from "../services/backup";
+import {
+  type TaskCsvMapping,
+  TASK_CSV_FIELDS,
+  TASK_CSV_FIELD_LABELS,
+  buildTaskCsv,
+  guessTaskCsvMapping,
+  parseTaskCsv,
+} from "../services/taskCsv";
+import { parseCsv } from "../services/timetable";
+import { downloadTextFile } from "../services/download";
+import {
+  getTaskStoreState,
+  importTaskCsv,
+  restoreBackup,
+} from "../services/taskStore";
+import ConfirmModal from "./ConfirmModal";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** "2026-10-19", for file names */
+const today = () => new Date().toISOString().slice(0, 10);
+
+const DataTransferModal: React.FC<Props> = ({ open, onClose }) => {
+  const [backup, setBackup] = useState<BackupData | null>(null);
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<TaskCsvMapping | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const parsed = useMemo(
+    () => (table && mapping ? parseTaskCsv(table, mapping) : null),
+    [table, mapping]
+  );
+
+  if (!open) return null;
+
+  const close = () => {
+    setTable(null);
+    setMapping(null);
+    onClose();
+  };
+
+  /** ---------- JSON backup ---------- */
+
+  const handleExportBackup = () => {
+    const data = buildBackup(getTaskStoreState());
+    downloadTextFile(
+      serializeBackup(data),
+      `tasks-backup-${today()}.json`,
+      "application/json"
+    );
+    toast.success(
+      `Backed up ${data.tasks.length} tasks and ${data.children.length} subtasks`
+    );
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Unable to read backup");
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!backup || !uid) return;
+    const data = backup;
+    setBackup(null);
+    setBusy(true);
+    try {
+      const { tasks, subtasks, skipped } = await restoreBackup(uid, data);
+      toast.success(`Restored ${tasks} tasks and ${subtasks} subtasks`);
+      if (skipped > 0) {
+        toast.warn(`${skipped} subtasks had no parent in the file`);
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error("Restore stopped before the end, check your tasks");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** ---------- CSV ---------- */
+
+  const handleExportCsv = () => {
+    const { tasks, progress, courses, tags } = getTaskStoreState();
+    downloadTextFile(
+      buildTaskCsv(tasks, progress, courses, tags),
+      `tasks-${today()}.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      toast.error("The file has no task rows");
+      return;
+    }
+    setTable(rows);
+    setMapping(guessTaskCsvMapping(rows[0]));
+  };
+
+  const handleImportCsv = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      toast.error("You are not logged in");
+      return;
+    }
+    if (!parsed || parsed.rows.length === 0) return;
+    setBusy(true);
+    try {
+      const { imported, createdCourses, createdTags } = await importTaskCsv(
+        uid,
+        parsed.rows
+      );
+      toast.success(
+        `Imported ${imported} tasks` +
+          (createdCourses.length > 0
+            ? `, new courses: ${createdCourses.join(", ")}`
+            : "") +
+          (createdTags.length > 0
+            ? `, new tags: ${createdTags.join(", ")}`
+            : "")
+      );
+      setTable(null);
+      setMapping(null);
+    } catch (err) {
+      console.error(err);
+      toast.error("CSV import stopped before the end, check your tasks");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box course-manager animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Import / Export</h2>
+          <button className="btn-close" onClick={close}>
+            ×
+          </button>
+        </div>
+
+        <h3 className="course-section-title">Backup (JSON)</h3>
+        <p className="timetable-hint">
+          Everything: tasks, subtasks, levels, progress, status history,
+          courses, tags and timetable. Restoring adds the backup next to your
+          current data.
+        </p>
+        <div className="course-form">
+          <button
+            className="btn btn-secondary"
+            onClick={handleExportBackup}
+            disabled={busy}
+          >
+            ⬇️ Download backup
+          </button>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleBackupFile}
+            disabled={busy}
+          />
+        </div>
+
+        <h3 className="course-section-title">Tasks (CSV)</h3>
+        <p className="timetable-hint">
+          One task per row, e.g. a semester's deadlines from a spreadsheet.
+          Unknown courses and tags are created.
+        </p>
+        <div className="course-form">
+          <button
+            className="btn btn-secondary"
+            onClick={handleExportCsv}
+            disabled={busy}
+          >
+            ⬇️ Download CSV
+          </button>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleCsvFile}
+            disabled={busy}
+          />
+        </div>
+
+        {table && mapping && (
+          <>
+            <div className="csv-mapping">
+              {TASK_CSV_FIELDS.map((field) => (
+                <label key={field}>
+                  {TASK_CSV_FIELD_LABELS[field]}
+                  <select
+                    className="input"
+                    value={mapping[field]}
+                    onChange={(e) =>
+                      setMapping({
+                        ...mapping,
+                        [field]: Number(e.target.value),
+                      })
+                    }
+                  >
+                    <option value={-1}>— not imported —</option>
+                    {table[0].map((header, i) => (
+                      <option key={i} value={i}>
+                        {header || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {parsed && parsed.errors.length > 0 && (
+              <ul className="timetable-errors">
+                {parsed.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+            <div className="modal-actions">
+              <button
+                className="btn btn-secondary"
+                onClick={() => setTable(null)}
+              >
+                Cancel
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handleImportCsv}
+                disabled={busy || !parsed?.rows.length}
+              >
+                ⬆️ Import {parsed?.rows.length ?? 0} tasks
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ConfirmModal
+        open={backup !== null}
+        onCancel={() => setBackup(null)}
+        onConfirm={handleConfirmRestore}
+        confirmLabel="Restore"
+        message={
+          backup
+            ? `Add ${backup.tasks.length} tasks, ${backup.children.length} subtasks, ` +
+              `${backup.courses.length} courses and ${backup.tags.length} tags ` +
+              `from the backup of ${backup.exported_at.toLocaleDateString()} to your account?`
+            : ""
+        }
+      />
+    </div>
+  );
+};
+
+export default DataTransferModal;
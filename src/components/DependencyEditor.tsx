@@ -0,0 +1,109 @@
+import React, { useMemo } from "react";
+import { toast } from "react-toastify";
+import { type TaskItem } from "../services/firestore";
+import {
+  TaskStatus,
+  TASK_STATUS_LABELS,
+  TASK_STATUS_COLORS,
+} from "../services/taskProgress";
+import { getDependents } from "../services/dependencies";
+import {
+  selectAllNodes,
+  selectProgress,
+  setDependencies,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import "../styles/theme.css";
+
+interface Props {
+  /** task or subtask whose blocked-by links are edited */
+  task: TaskItem;
+}
+
+const DependencyEditor: React.FC<Props> = ({ task }) => {
+  const nodes = useTaskStore(selectAllNodes);
+  const progress = useTaskStore(selectProgress);
+
+  const byId = useMemo(
+    () => Object.fromEntries(nodes.map((n) => [n.id, n])),
+    [nodes]
+  );
+  // read the links from the store so optimistic changes show right away
+  const dependsOn = (byId[task.id]?.depends_on ?? []).filter((id) => byId[id]);
+  const dependents = getDependents(nodes, task.id);
+  const candidates = nodes.filter(
+    (n) => n.id !== task.id && !dependsOn.includes(n.id)
+  );
+
+  const labelOf = (node: TaskItem) =>
+    node.parent_id && byId[node.parent_id]
+      ? `${byId[node.parent_id].task_name} › ${node.task_name}`
+      : node.task_name;
+
+  const save = async (next: string[]) => {
+    try {
+      await setDependencies(task.id, next);
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error ? err.message : "Unable to update dependencies"
+      );
+    }
+  };
+
+  const renderChip = (node: TaskItem, onRemove?: () => void) => {
+    const status = progress[node.id]?.task_status ?? TaskStatus.NOT_STARTED;
+    return (
+      <span key={node.id} className="dependency-chip">
+        <span
+          className="dependency-dot"
+          style={{ background: TASK_STATUS_COLORS[status] }}
+          title={TASK_STATUS_LABELS[status]}
+        />
+        {labelOf(node)}
+        {onRemove && (
+          <button
+            type="button"
+            className="dependency-remove"
+            onClick={onRemove}
+            title="Remove dependency"
+          >
+            ×
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="dependency-editor">
+      <div className="dependency-row">
+        <span className="dependency-label">Blocked by:</span>
+        {dependsOn.length === 0 && <span className="dependency-none">—</span>}
+        {dependsOn.map((id) =>
+          renderChip(byId[id], () => save(dependsOn.filter((d) => d !== id)))
+        )}
+      </div>
+      <select
+        className="input"
+        value=""
+        onChange={(e) => e.target.value && save([...dependsOn, e.target.value])}
+      >
+        <option value="">Add a task it waits for…</option>
+        {candidates.map((node) => (
+          <option key={node.id} value={node.id}>
+            {labelOf(node)}
+          </option>
+        ))}
+      </select>
+      {dependents.length > 0 && (
+        <div className="dependency-row">
+          <span className="dependency-label">Blocks:</span>
+          {dependents.map((node) => renderChip(node))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DependencyEditor;
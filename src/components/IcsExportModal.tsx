@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { LEVEL_LABELS } from "../services/firestore";
+import { TaskStatus, TASK_STATUS_LABELS } from "../services/taskProgress";
+import { COURSE_FILTER_ALL } from "../services/courses";
+import { type IcsExportFilter, buildIcsCalendar } from "../services/ical";
+import { downloadTextFile } from "../services/download";
+import {
+  selectAllNodes,
+  selectCourses,
+  selectProgress,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import CourseSelect from "./CourseSelect";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const IcsExportModal: React.FC<Props> = ({ open, onClose }) => {
+  const nodes = useTaskStore(selectAllNodes);
+  const progress = useTaskStore(selectProgress);
+  const courses = useTaskStore(selectCourses);
+  const [filter, setFilter] = useState<IcsExportFilter>({
+    course: COURSE_FILTER_ALL,
+    level: null,
+    status: null,
+    includeSubtasks: true,
+  });
+
+  if (!open) return null;
+
+  const handleDownload = () => {
+    try {
+      const ics = buildIcsCalendar(nodes, progress, courses, filter);
+      const count = ics.split("BEGIN:VEVENT").length - 1;
+      if (count === 0) {
+        toast.info("No task with a time matches these filters");
+        return;
+      }
+      downloadTextFile(ics, "tasks.ics", "text/calendar;charset=utf-8");
+      toast.success(`Exported ${count} events`);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error("Calendar export failed");
+    }
+  };
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Export to calendar (.ics)</h2>
+          <button className="btn-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="icsCourse">Course</label>
+          <CourseSelect
+            id="icsCourse"
+            value={filter.course}
+            onChange={(course) => setFilter({ ...filter, course })}
+            filter
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="icsLevel">Level</label>
+          <select
+            id="icsLevel"
+            className="input"
+            value={filter.level ?? "all"}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                level: e.target.value === "all" ? null : Number(e.target.value),
+              })
+            }
+          >
+            <option value="all">All levels</option>
+            {Object.entries(LEVEL_LABELS).map(([level, label]) => (
+              <option key={level} value={level}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="icsStatus">Status</label>
+          <select
+            id="icsStatus"
+            className="input"
+            value={filter.status ?? "all"}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                status:
+                  e.target.value === "all"
+                    ? null
+                    : (Number(e.target.value) as TaskStatus),
+              })
+            }
+          >
+            <option value="all">All statuses</option>
+            {Object.values(TaskStatus).map((status) => (
+              <option key={status} value={status}>
+                {TASK_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="export-option">
+          <input
+            type="checkbox"
+            checked={filter.includeSubtasks}
+            onChange={(e) =>
+              setFilter({ ...filter, includeSubtasks: e.target.checked })
+            }
+          />
+          Include subtasks
+        </label>
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleDownload}>
+            ⬇️ Download .ics
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsExportModal;
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import { LEVEL_LABELS } from "../services/firestore";
+import {
+  type IcsImportItem,
+  type IcsImportAction,
+  icsItemToTask,
+  parseIcs,
+  planIcsImport,
+} from "../services/ical";
+import { saveTask, selectAllNodes } from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<IcsImportAction, string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Already imported",
+  subtask: "Subtask, not changed",
+};
+
+/** only new and changed top-level entries can be imported */
+const isImportable = (item: IcsImportItem) =>
+  item.action === "create" || item.action === "update";
+
+const formatWhen = (item: IcsImportItem) => {
+  const { start, end } = item.entry;
+  if (!start && !end) return "No date";
+  const format = (d: Date) =>
+    d.toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+  return start && end && start.getTime() !== end.getTime()
+    ? `${format(start)} – ${format(end)}`
+    : format((start ?? end)!);
+};
+
+const IcsImportModal: React.FC<Props> = ({ open, onClose }) => {
+  const nodes = useTaskStore(selectAllNodes);
+  const [items, setItems] = useState<IcsImportItem[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [level, setLevel] = useState(1);
+  const [importing, setImporting] = useState(false);
+
+  if (!open) return null;
+
+  const close = () => {
+    setItems([]);
+    setSelected(new Set());
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const planned = planIcsImport(parseIcs(await file.text()), nodes);
+      if (planned.length === 0) {
+        toast.error("No event or to-do found in the file");
+      }
+      setItems(planned);
+      setSelected(
+        new Set(planned.flatMap((item, i) => (isImportable(item) ? [i] : [])))
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to read the calendar file");
+    }
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      toast.error("You are not logged in");
+      return;
+    }
+    setImporting(true);
+    let created = 0;
+    let updated = 0;
+    let failed = 0;
+    for (const [i, item] of items.entries()) {
+      if (!selected.has(i) || item.action === "subtask") continue;
+      try {
+        await saveTask(uid, icsItemToTask(item, level));
+        if (item.existing) updated++;
+        else created++;
+      } catch (err) {
+        console.error(err);
+        failed++;
+      }
+    }
+    setImporting(false);
+    const imported = `Imported ${created} new, updated ${updated} tasks`;
+    if (created + updated === 0) {
+      // keep the list open so the user can retry
+      toast.error(`Nothing was imported, ${failed} entries failed`);
+      return;
+    }
+    if (failed > 0) toast.warning(`${imported}, ${failed} entries failed`);
+    else toast.success(imported);
+    close();
+  };
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box course-manager animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Import from calendar (.ics)</h2>
+          <button className="btn-close" onClick={close}>
+            ×
+          </button>
+        </div>
+
+        <p className="timetable-hint">
+          Assignment calendars from Moodle, Canvas or Google Calendar. Entries
+          imported before are updated instead of duplicated.
+        </p>
+        <input type="file" accept=".ics,text/calendar" onChange={handleFile} />
+        <div className="form-group">
+          <label htmlFor="icsImportLevel">Level of new tasks</label>
+          <select
+            id="icsImportLevel"
+            className="input"
+            value={level}
+            onChange={(e) => setLevel(Number(e.target.value))}
+          >
+            {Object.entries(LEVEL_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {items.length > 0 && (
+          <ul className="course-list ics-preview">
+            {items.map((item, i) => (
+              <li key={i} className="course-row">
+                <input
+                  type="checkbox"
+                  checked={selected.has(i)}
+                  disabled={item.action === "subtask"}
+                  onChange={() => toggle(i)}
+                />
+                <span className="course-row-label">
+                  {item.entry.summary || "Untitled event"}
+                  <small> · {formatWhen(item)}</small>
+                  {item.entry.description && (
+                    <small className="ics-detail">
+                      {item.entry.description}
+                    </small>
+                  )}
+                </span>
+                <span className={`ics-action ${item.action}`}>
+                  {ACTION_LABELS[item.action]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={close}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleImport}
+            disabled={importing || selected.size === 0}
+          >
+            ⬆️ Import {selected.size > 0 && selected.size}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsImportModal;
@@ -0,0 +1,176 @@
+import React from "react";
+import {
+  type Recurrence,
+  RecurrenceFreq,
+  RECURRENCE_FREQ_LABELS,
+  WEEKDAY_LABELS,
+} from "../services/recurrence";
+import "../styles/theme.css";
+
+interface Props {
+  /** null = does not repeat */
+  value: Recurrence | null;
+  onChange: (value: Recurrence | null) => void;
+  /** weekday preselected when switching to weekly */
+  defaultWeekday?: number;
+}
+
+const UNIT_LABELS: Record<RecurrenceFreq, string> = {
+  [RecurrenceFreq.DAILY]: "day(s)",
+  [RecurrenceFreq.WEEKLY]: "week(s)",
+  [RecurrenceFreq.MONTHLY]: "month(s)",
+};
+
+type EndMode = "never" | "until" | "count";
+
+const toDateInput = (d: Date) =>
+  [
+    d.getFullYear(),
+    String(d.getMonth() + 1).padStart(2, "0"),
+    String(d.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const RecurrenceFields: React.FC<Props> = ({
+  value,
+  onChange,
+  defaultWeekday,
+}) => {
+  const endMode: EndMode = value?.until
+    ? "until"
+    : value?.count
+      ? "count"
+      : "never";
+
+  const update = (patch: Partial<Recurrence>) =>
+    value && onChange({ ...value, ...patch });
+
+  const handleFreq = (freq: string) => {
+    if (!freq) return onChange(null);
+    const next = freq as RecurrenceFreq;
+    onChange({
+      interval: 1,
+      until: null,
+      count: null,
+      ...value,
+      freq: next,
+      by_weekday:
+        next === RecurrenceFreq.WEEKLY
+          ? value?.by_weekday?.length
+            ? value.by_weekday
+            : defaultWeekday !== undefined
+              ? [defaultWeekday]
+              : []
+          : null,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = value?.by_weekday ?? [];
+    update({
+      by_weekday: current.includes(day)
+        ? current.filter((d) => d !== day)
+        : [...current, day].sort(),
+    });
+  };
+
+  const handleEndMode = (mode: EndMode) => {
+    if (mode === "never") update({ until: null, count: null });
+    if (mode === "count") update({ until: null, count: value?.count || 10 });
+    if (mode === "until") {
+      const until = new Date();
+      until.setMonth(until.getMonth() + 1);
+      until.setHours(23, 59, 59, 0);
+      update({ until: value?.until ?? until, count: null });
+    }
+  };
+
+  return (
+    <div className="form-group">
+      <label htmlFor="recurrenceFreq">Repeat:</label>
+      <select
+        id="recurrenceFreq"
+        className="input"
+        value={value?.freq ?? ""}
+        onChange={(e) => handleFreq(e.target.value)}
+      >
+        <option value="">Does not repeat</option>
+        {Object.values(RecurrenceFreq).map((freq) => (
+          <option key={freq} value={freq}>
+            {RECURRENCE_FREQ_LABELS[freq]}
+          </option>
+        ))}
+      </select>
+
+      {value && (
+        <div className="recurrence-fields">
+          <div className="recurrence-row">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              className="input recurrence-number"
+              value={value.interval}
+              onChange={(e) => update({ interval: Number(e.target.value) })}
+            />
+            <span>{UNIT_LABELS[value.freq]}</span>
+          </div>
+
+          {value.freq === RecurrenceFreq.WEEKLY && (
+            <div className="weekday-picker">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={`weekday-toggle ${
+                    value.by_weekday?.includes(day) ? "active" : ""
+                  }`}
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="recurrence-row">
+            <span>Ends</span>
+            <select
+              className="input"
+              value={endMode}
+              onChange={(e) => handleEndMode(e.target.value as EndMode)}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === "until" && value.until && (
+              <input
+                type="date"
+                className="input"
+                value={toDateInput(value.until)}
+                onChange={(e) =>
+                  e.target.value &&
+                  update({ until: new Date(`${e.target.value}T23:59:59`) })
+                }
+              />
+            )}
+            {endMode === "count" && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  className="input recurrence-number"
+                  value={value.count ?? 1}
+                  onChange={(e) => update({ count: Number(e.target.value) })}
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,83 @@
+import React from "react";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useUserStore } from "../hooks/useUserStore";
+import { selectUid } from "../services/taskStore";
+import {
+  REMINDER_OFFSET_OPTIONS,
+  describeOffsets,
+  reminderStore,
+} from "../services/reminders";
+import "../styles/theme.css";
+
+interface Props {
+  /** null = the user's default policy, [] = no reminders */
+  value: number[] | null;
+  onChange: (value: number[] | null) => void;
+}
+
+type Mode = "default" | "none" | "custom";
+
+const ReminderFields: React.FC<Props> = ({ value, onChange }) => {
+  const uid = useTaskStore(selectUid);
+  const { policy } = useUserStore(reminderStore, uid);
+  const mode: Mode = !value ? "default" : value.length ? "custom" : "none";
+
+  const handleMode = (next: Mode) => {
+    if (next === "default") onChange(null);
+    if (next === "none") onChange([]);
+    if (next === "custom") {
+      onChange(
+        value?.length ? value : policy.offsets.length ? policy.offsets : [60]
+      );
+    }
+  };
+
+  const toggle = (minutes: number) => {
+    const current = value ?? [];
+    const next = current.includes(minutes)
+      ? current.filter((m) => m !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    // bỏ chọn hết = không nhắc
+    onChange(next);
+  };
+
+  return (
+    <div className="form-group">
+      <label htmlFor="reminderMode">Reminders:</label>
+      <select
+        id="reminderMode"
+        className="input"
+        value={mode}
+        onChange={(e) => handleMode(e.target.value as Mode)}
+      >
+        <option value="default">
+          My default ({describeOffsets(policy.offsets)})
+        </option>
+        <option value="custom">Custom</option>
+        <option value="none">No reminders</option>
+      </select>
+
+      {mode === "custom" && (
+        <div className="reminder-picker">
+          {REMINDER_OFFSET_OPTIONS.map((option) => (
+            <button
+              key={option.minutes}
+              type="button"
+              className={`weekday-toggle ${
+                value?.includes(option.minutes) ? "active" : ""
+              }`}
+              onClick={() => toggle(option.minutes)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {mode !== "none" && !policy.enabled && (
+        <p className="form-hint">Reminders are turned off (🔔 Reminders).</p>
+      )}
+    </div>
+  );
+};
+
+export default ReminderFields;
@@ -0,0 +1,109 @@
+import React, { useEffect } from "react";
+import { toast, ToastContainer } from "react-toastify";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useUserStore } from "../hooks/useUserStore";
+import {
+  selectAllNodes,
+  selectProgress,
+  selectUid,
+} from "../services/taskStore";
+import {
+  collectReminders,
+  dueReminders,
+  markRemindersFired,
+  reminderMessage,
+  reminderStore,
+  snoozeReminder,
+} from "../services/reminders";
+import {
+  type ReminderWorkerMessage,
+  registerReminderWorker,
+  showSystemNotification,
+} from "../services/notifications";
+import "../styles/CalendarPage.css";
+
+/** how often due reminders are looked for while the app is open */
+const CHECK_INTERVAL_MS = 30000;
+
+const CONTAINER_ID = "reminders";
+
+/**
+ * Fires the deadline reminders of the signed-in user on every page: a
+ * system notification (when allowed) plus an in-app toast, both snoozable.
+ */
+const ReminderScheduler: React.FC = () => {
+  const uid = useTaskStore(selectUid);
+  const nodes = useTaskStore(selectAllNodes);
+  const progress = useTaskStore(selectProgress);
+  const reminders = useUserStore(reminderStore, uid);
+  const snoozeMinutes = reminders.policy.snooze_minutes;
+
+  useEffect(() => {
+    void registerReminderWorker();
+  }, []);
+
+  // Snooze bấm từ notification hệ thống (service worker gửi về)
+  useEffect(() => {
+    if (!uid || !("serviceWorker" in navigator)) return;
+    const onMessage = (event: MessageEvent<ReminderWorkerMessage>) => {
+      if (event.data?.type !== "reminder-snooze" || !event.data.key) return;
+      snoozeReminder(uid, event.data.key, snoozeMinutes);
+      toast.dismiss({ id: event.data.key, containerId: CONTAINER_ID });
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", onMessage);
+    };
+  }, [uid, snoozeMinutes]);
+
+  useEffect(() => {
+    if (!uid) return;
+    const check = () => {
+      const now = new Date();
+      const { show, skipped } = dueReminders(
+        collectReminders(nodes, progress, reminders.policy, now),
+        reminders,
+        now
+      );
+      if (show.length === 0) return;
+      // mark first: a failing notification must not fire again every check
+      markRemindersFired(
+        uid,
+        [...show, ...skipped].map((r) => r.key),
+        now
+      );
+      show.forEach((reminder) => {
+        const message = reminderMessage(reminder, now);
+        void showSystemNotification(`⏰ ${reminder.task_name}`, {
+          body: message,
+          tag: reminder.key,
+          snoozable: true,
+        });
+        toast.info(
+          ({ closeToast }) => (
+            <span>
+              ⏰ "{reminder.task_name}" · {message}{" "}
+              <button
+                className="toast-undo"
+                onClick={() => {
+                  closeToast();
+                  snoozeReminder(uid, reminder.key, snoozeMinutes);
+                }}
+              >
+                Snooze {snoozeMinutes}m
+              </button>
+            </span>
+          ),
+          { toastId: reminder.key, containerId: CONTAINER_ID, autoClose: false }
+        );
+      });
+    };
+    check();
+    const id = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [uid, nodes, progress, reminders, snoozeMinutes]);
+
+  return <ToastContainer containerId={CONTAINER_ID} position="bottom-right" />;
+};
+
+export default ReminderScheduler;
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useUserStore } from "../hooks/useUserStore";
+import { selectUid } from "../services/taskStore";
+import {
+  REMINDER_OFFSET_OPTIONS,
+  SNOOZE_OPTIONS,
+  reminderStore,
+  saveReminderPolicy,
+} from "../services/reminders";
+import {
+  notificationPermission,
+  registerReminderWorker,
+  requestNotificationPermission,
+} from "../services/notifications";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const PERMISSION_LABELS: Record<NotificationPermission, string> = {
+  granted: "✅ Browser notifications are on.",
+  denied: "🚫 Notifications are blocked, allow them in the browser settings.",
+  default: "Browser notifications are not enabled yet.",
+};
+
+/** default reminder policy of the user (tasks can override the offsets) */
+const ReminderSettingsModal: React.FC<Props> = ({ open, onClose }) => {
+  const uid = useTaskStore(selectUid);
+  const { policy } = useUserStore(reminderStore, uid);
+  const [permission, setPermission] = useState(notificationPermission);
+
+  if (!open) return null;
+
+  const handleEnableNotifications = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === "granted") {
+      void registerReminderWorker();
+      toast.success("Browser notifications enabled");
+    }
+  };
+
+  const toggleOffset = (minutes: number) => {
+    if (!uid) return;
+    saveReminderPolicy(uid, {
+      offsets: policy.offsets.includes(minutes)
+        ? policy.offsets.filter((m) => m !== minutes)
+        : [...policy.offsets, minutes].sort((a, b) => b - a),
+    });
+  };
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Reminders</h2>
+          <button className="btn-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="form-group">
+          <p className="modal-message">
+            {permission
+              ? PERMISSION_LABELS[permission]
+              : "This browser does not support notifications, reminders show in the app only."}
+          </p>
+          {permission === "default" && (
+            <button
+              className="btn btn-primary"
+              onClick={handleEnableNotifications}
+            >
+              🔔 Enable browser notifications
+            </button>
+          )}
+        </div>
+
+        <div className="form-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              disabled={!uid}
+              onChange={(e) =>
+                uid && saveReminderPolicy(uid, { enabled: e.target.checked })
+              }
+            />{" "}
+            Remind me before deadlines
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label>Default reminders:</label>
+          <div className="reminder-picker">
+            {REMINDER_OFFSET_OPTIONS.map((option) => (
+              <button
+                key={option.minutes}
+                type="button"
+                className={`weekday-toggle ${
+                  policy.offsets.includes(option.minutes) ? "active" : ""
+                }`}
+                disabled={!uid || !policy.enabled}
+                onClick={() => toggleOffset(option.minutes)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="form-hint">
+            Used by tasks without reminders of their own.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="snoozeMinutes">Snooze for:</label>
+          <select
+            id="snoozeMinutes"
+            className="input"
+            value={policy.snooze_minutes}
+            disabled={!uid}
+            onChange={(e) =>
+              uid &&
+              saveReminderPolicy(uid, {
+                snooze_minutes: Number(e.target.value),
+              })
+            }
+          >
+            {SNOOZE_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} minutes
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="modal-actions">
+          <button className="btn btn-primary" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReminderSettingsModal;
@@ -0,0 +1,55 @@
+import React from "react";
+import { auth } from "../services/auth";
+import {
+  EMPTY_VIEW_FILTER,
+  type ViewFilter,
+  deleteView,
+  sameViewFilter,
+  savedViewStore,
+} from "../services/savedViews";
+import { useUserStore } from "../hooks/useUserStore";
+import "../styles/theme.css";
+
+interface Props {
+  /** the filter currently applied, its view is highlighted */
+  filter: ViewFilter;
+  onApply: (filter: ViewFilter) => void;
+  /** shows a × on each view when set */
+  deletable?: boolean;
+}
+
+const SavedViewTabs: React.FC<Props> = ({ filter, onApply, deletable }) => {
+  const uid = auth.currentUser?.uid;
+  const views = useUserStore(savedViewStore, uid);
+
+  const tabClass = (tabFilter: ViewFilter) =>
+    `saved-view-tab ${sameViewFilter(filter, tabFilter) ? "active" : ""}`;
+
+  return (
+    <div className="saved-view-tabs">
+      <span className={tabClass(EMPTY_VIEW_FILTER)}>
+        <button type="button" onClick={() => onApply(EMPTY_VIEW_FILTER)}>
+          All
+        </button>
+      </span>
+      {views.map((view) => (
+        <span key={view.id} className={tabClass(view.filter)}>
+          <button type="button" onClick={() => onApply(view.filter)}>
+            {view.name}
+          </button>
+          {deletable && uid && (
+            <button
+              type="button"
+              onClick={() => deleteView(uid, view.id)}
+              title="Delete view"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SavedViewTabs;
@@ -0,0 +1,70 @@
+import React from "react";
+import moment from "moment";
+import { type ProposedBlock, type ScheduleResult } from "../services/scheduler";
+import "../styles/CalendarPage.css";
+
+interface Props {
+  proposal: ScheduleResult;
+  /** task id -> name */
+  names: Record<string, string>;
+  onAccept: (block: ProposedBlock) => void;
+  onReject: (block: ProposedBlock) => void;
+  onAcceptAll: () => void;
+  onRerun: () => void;
+  onDiscard: () => void;
+}
+
+/** tentative blocks of the auto-scheduler, waiting for the user's call */
+const SchedulePanel: React.FC<Props> = ({
+  proposal,
+  names,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onRerun,
+  onDiscard,
+}) => (
+  <div className="schedule-panel">
+    <div className="schedule-panel-header">
+      <strong>✨ {proposal.blocks.length} work blocks proposed</strong>
+      <button
+        className="calendar-tool"
+        onClick={onAcceptAll}
+        disabled={proposal.blocks.length === 0}
+      >
+        ✓ Accept all
+      </button>
+      <button className="calendar-tool" onClick={onRerun}>
+        🔄 Re-run
+      </button>
+      <button className="calendar-tool" onClick={onDiscard}>
+        Discard
+      </button>
+    </div>
+    {proposal.unplaced.map(({ task, minutes }) => (
+      <p key={task.id} className="schedule-warning">
+        ⚠️ "{task.task_name}" still needs {Math.floor(minutes / 60)}h{" "}
+        {minutes % 60}m before {moment(task.end_time).format("DD/MM HH:mm")}
+      </p>
+    ))}
+    <ul className="schedule-blocks">
+      {proposal.blocks.map((block) => (
+        <li key={block.id}>
+          <span>
+            {moment(block.start).format("ddd DD/MM HH:mm")}–
+            {moment(block.end).format("HH:mm")} ·{" "}
+            {names[block.task_id] ?? "Task"}
+          </span>
+          <button title="Accept" onClick={() => onAccept(block)}>
+            ✓
+          </button>
+          <button title="Reject" onClick={() => onReject(block)}>
+            ✗
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default SchedulePanel;
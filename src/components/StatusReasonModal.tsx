@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from "react";
+import { type TaskStatus, TASK_STATUS_LABELS } from "../services/taskProgress";
+import "../styles/theme.css";
+
+interface Props {
+  /** status waiting for a reason, null = closed */
+  status: TaskStatus | null;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const StatusReasonModal: React.FC<Props> = ({
+  status,
+  onConfirm,
+  onCancel,
+}) => {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (status !== null) setReason("");
+  }, [status]);
+
+  if (status === null) return null;
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box animate-slideIn">
+        <h2 className="modal-title">{TASK_STATUS_LABELS[status]}</h2>
+        <div className="form-group">
+          <label htmlFor="statusReason">Reason:</label>
+          <textarea
+            id="statusReason"
+            className="input"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What is this task waiting for?"
+            autoFocus
+          />
+        </div>
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={() => onConfirm(reason)}
+            disabled={!reason.trim()}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatusReasonModal;
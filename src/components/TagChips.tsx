@@ -0,0 +1,45 @@
+import React from "react";
+import { selectTags } from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import "../styles/theme.css";
+
+interface Props {
+  /** tag ids of a task node; unknown ids are skipped */
+  tagIds?: string[] | null;
+  /** shows a × on each chip when set */
+  onRemove?: (tagId: string) => void;
+}
+
+const TagChips: React.FC<Props> = ({ tagIds, onRemove }) => {
+  const tags = useTaskStore(selectTags);
+  const shown = (tagIds ?? [])
+    .map((id) => tags.find((t) => t.id === id))
+    .filter((t) => t !== undefined);
+  if (shown.length === 0) return null;
+
+  return (
+    <span className="tag-chips">
+      {shown.map((tag) => (
+        <span
+          key={tag.id}
+          className="tag-chip"
+          style={{ background: tag.color }}
+        >
+          #{tag.name}
+          {onRemove && (
+            <button
+              type="button"
+              className="tag-chip-remove"
+              onClick={() => onRemove(tag.id)}
+              title="Remove tag"
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default TagChips;
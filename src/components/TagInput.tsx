@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import {
+  findTagByName,
+  nextTagColor,
+  normalizeTagName,
+  suggestTags,
+} from "../services/tags";
+import { saveTag, selectTags } from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import TagChips from "./TagChips";
+import "../styles/theme.css";
+
+interface Props {
+  /** selected tag ids */
+  value: string[];
+  onChange: (value: string[]) => void;
+  id?: string;
+}
+
+/** tag picker with autocomplete; Enter on an unknown name creates the tag */
+const TagInput: React.FC<Props> = ({ value, onChange, id }) => {
+  const tags = useTaskStore(selectTags);
+  const [text, setText] = useState("");
+  const [focused, setFocused] = useState(false);
+  const suggestions = focused ? suggestTags(tags, text, value) : [];
+
+  const add = (tagId: string) => {
+    if (!value.includes(tagId)) onChange([...value, tagId]);
+    setText("");
+  };
+
+  const commit = async () => {
+    const name = normalizeTagName(text);
+    if (!name) return;
+    const existing = findTagByName(tags, name);
+    if (existing) return add(existing.id);
+
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      toast.error("You are not logged in");
+      return;
+    }
+    try {
+      add(await saveTag(uid, { name, color: nextTagColor(tags) }));
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to create tag");
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      void commit();
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="tag-input">
+      <TagChips
+        tagIds={value}
+        onRemove={(tagId) => onChange(value.filter((t) => t !== tagId))}
+      />
+      <input
+        id={id}
+        type="text"
+        className="input"
+        value={text}
+        placeholder="Add a tag and press Enter…"
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+      />
+      {suggestions.length > 0 && (
+        <ul className="tag-suggestions">
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // keep the input focused so the list stays open
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => add(tag.id)}
+              >
+                <span
+                  className="tag-swatch"
+                  style={{ background: tag.color }}
+                />
+                {tag.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
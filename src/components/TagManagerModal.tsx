@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import { type Tag } from "../services/firestore";
+import { TAG_COLORS, normalizeTagName, validateTag } from "../services/tags";
+import { forgetTagInViews } from "../services/savedViews";
+import { removeTag, saveTag, selectTags } from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import ConfirmModal from "./ConfirmModal";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const TagManagerModal: React.FC<Props> = ({ open, onClose }) => {
+  const tags = useTaskStore(selectTags);
+  const [editing, setEditing] = useState<Tag | null>(null);
+  const [toDelete, setToDelete] = useState<Tag | null>(null);
+
+  if (!open) return null;
+
+  const handleSave = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!editing || !uid) return;
+    const input = {
+      id: editing.id,
+      name: normalizeTagName(editing.name),
+      color: editing.color,
+    };
+    const error = validateTag(input, tags);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    try {
+      await saveTag(uid, input);
+      setEditing(null);
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to save tag");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!toDelete || !uid) return;
+    try {
+      await removeTag(uid, toDelete.id);
+      forgetTagInViews(uid, toDelete.id);
+      toast.success("Tag deleted");
+      setToDelete(null);
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to delete tag");
+    }
+  };
+
+  const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Tags</h2>
+          <button className="btn-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {sorted.length === 0 && (
+          <p className="modal-message">
+            No tags yet. Type one in the task form to create it.
+          </p>
+        )}
+        <ul className="course-list">
+          {sorted.map((tag) =>
+            editing?.id === tag.id ? (
+              <li key={tag.id} className="course-row">
+                <input
+                  className="input"
+                  value={editing.name}
+                  onChange={(e) =>
+                    setEditing({ ...editing, name: e.target.value })
+                  }
+                />
+                <div className="course-colors">
+                  {TAG_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={`course-swatch ${
+                        editing.color === color ? "active" : ""
+                      }`}
+                      style={{ background: color }}
+                      onClick={() => setEditing({ ...editing, color })}
+                      title={color}
+                    />
+                  ))}
+                </div>
+                <button className="btn btn-primary" onClick={handleSave}>
+                  Save
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </button>
+              </li>
+            ) : (
+              <li key={tag.id} className="course-row">
+                <span className="course-row-label">
+                  <span className="tag-chip" style={{ background: tag.color }}>
+                    #{tag.name}
+                  </span>
+                </span>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setEditing(tag)}
+                >
+                  ✏️
+                </button>
+                <button
+                  className="btn btn-danger"
+                  onClick={() => setToDelete(tag)}
+                >
+                  🗑️
+                </button>
+              </li>
+            )
+          )}
+        </ul>
+      </div>
+
+      <ConfirmModal
+        open={toDelete !== null}
+        onCancel={() => setToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        message={`Delete tag "${toDelete?.name}"? It is removed from every task.`}
+      />
+    </div>
+  );
+};
+
+export default TagManagerModal;
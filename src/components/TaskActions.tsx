@@ -4,11 +4,23 @@ import { useNavigate, useLocation } from "react-router-dom";
 
 interface Props {
   onCreate: () => void;
-  onReload: () => void;
+  /** shows the courses button when set */
+  onManageCourses?: () => void;
+  /** shows the tags button when set */
+  onManageTags?: () => void;
+  /** shows the import / export button when set */
+  onTransferData?: () => void;
+  /** shows the reminders button when set */
+  onManageReminders?: () => void;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const TaskActions: React.FC<Props> = ({ onCreate}) => {
+const TaskActions: React.FC<Props> = ({
+  onCreate,
+  onManageCourses,
+  onManageTags,
+  onTransferData,
+  onManageReminders,
+}) => {
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -22,6 +34,26 @@ const TaskActions: React.FC<Props> = ({ onCreate}) => {
           ➕ Add Task
         </button>
       )}
+      {onManageCourses && (
+        <button className="btn-courses" onClick={onManageCourses}>
+          📚 Courses
+        </button>
+      )}
+      {onManageTags && (
+        <button className="btn-tags" onClick={onManageTags}>
+          🏷️ Tags
+        </button>
+      )}
+      {onTransferData && (
+        <button className="btn-data" onClick={onTransferData}>
+          💾 Import / Export
+        </button>
+      )}
+      {onManageReminders && (
+        <button className="btn-reminders" onClick={onManageReminders}>
+          🔔 Reminders
+        </button>
+      )}
       <button className="btn-calendar" onClick={() => navigate("/calendar")}>
         📅 View Calendar
       </button>
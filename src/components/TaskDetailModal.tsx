@@ -1,20 +1,56 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useMemo } from "react";
 import {
   type TaskItem,
   type TaskChild,
   LEVEL_LABELS,
-  getChildTasksByParentId,
-  createChildTask,
   // updateChildTask,
 } from "../services/firestore";
 import {
   TaskStatus,
-  updateTaskProgress,
-  getTaskProgress,
+  TASK_STATUS_LABELS,
+  TASK_STATUS_COLORS,
+  canTransition,
+  getNextStatuses,
 } from "../services/taskProgress";
+import {
+  addChildTask,
+  updateChild,
+  collectDescendants,
+  groupChildrenByParent,
+  selectAllNodes,
+  selectChildren,
+  selectEvents,
+  selectIsLoading,
+  selectProgress,
+  selectSchedule,
+  stopTracking,
+} from "../services/taskStore";
+import {
+  findSession,
+  formatMinutes,
+  openMinutesByTask,
+  pauseTracking,
+  recentDays,
+  startTracking,
+  timeSpentByDay,
+  timeTrackingStore,
+} from "../services/timeTracking";
+import { pomodoroStore } from "../services/pomodoro";
+import {
+  getCriticalPath,
+  getUnmetDependencies,
+} from "../services/dependencies";
 import { toast } from "react-toastify";
-import { auth } from "../services/firebase";
+import { auth } from "../services/auth";
 import CreateChildTaskModal from "./CreateChildTaskModal";
+import TagChips from "./TagChips";
+import StatusReasonModal from "./StatusReasonModal";
+import CancelCascadeModal from "./CancelCascadeModal";
+import DependencyEditor from "./DependencyEditor";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useStatusChange } from "../hooks/useStatusChange";
+import { useNow } from "../hooks/useNow";
+import { useUserStore } from "../hooks/useUserStore";
 import "../styles/TaskDetailModal.css";
 
 interface Props {
@@ -24,84 +60,170 @@ interface Props {
 }
 
 const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
-  const [childTasks, setChildTasks] = useState<TaskChild[]>([]);
-  const [childStatuses, setChildStatuses] = useState<
-    Record<string, TaskStatus>
-  >({});
-  const [loading, setLoading] = useState(false);
+  const children = useTaskStore(selectChildren);
+  const progress = useTaskStore(selectProgress);
+  const loading = useTaskStore(selectIsLoading);
+  const events = useTaskStore(selectEvents);
+  const nodes = useTaskStore(selectAllNodes);
+  const schedule = useTaskStore(selectSchedule);
   const [showAddChildModal, setShowAddChildModal] = useState(false);
   const [editingTask, setEditingTask] = useState<TaskChild | null>(null);
+  // node the new subtask goes under: the task itself or one of its subtasks
+  const [addParent, setAddParent] = useState<TaskItem | null>(null);
+  // node whose dependencies are edited, null = the task itself
+  const [dependencyTarget, setDependencyTarget] = useState<TaskChild | null>(
+    null
+  );
+  const uid = auth.currentUser?.uid;
+  const tracking = useUserStore(timeTrackingStore, uid);
+  const pomodoros = useUserStore(pomodoroStore, uid).completed;
+  // running sessions keep the totals moving while the modal is open
+  const now = useNow(open, 30000);
 
-  useEffect(() => {
-    const loadChildTasks = async () => {
-      if (!task?.id) return;
-
-      setLoading(true);
-      try {
-        const children = await getChildTasksByParentId(task.id);
-        setChildTasks(children);
-
-        const statuses: Record<string, TaskStatus> = {};
-        for (const child of children) {
-          const progress = await getTaskProgress(child.id);
-          statuses[child.id] = progress?.task_status || TaskStatus.NOT_STARTED;
-        }
-        setChildStatuses(statuses);
-      } catch (err) {
-        console.error(err);
-        toast.error("Unable to load subtasks");
-      } finally {
-        setLoading(false);
-      }
-    };
+  // every subtask below the task, at any depth
+  const childTasks = useMemo(
+    () => (task ? collectDescendants(children, task.id) : []),
+    [children, task]
+  );
+  const childStatuses = useMemo<Record<string, TaskStatus>>(
+    () =>
+      Object.fromEntries(
+        childTasks.map((c) => [
+          c.id,
+          progress[c.id]?.task_status || TaskStatus.NOT_STARTED,
+        ])
+      ),
+    [childTasks, progress]
+  );
 
-    if (open && task) {
-      loadChildTasks();
-    }
-  }, [open, task]);
+  const criticalPath = useMemo(
+    () => (task ? getCriticalPath(schedule, task.id) : null),
+    [schedule, task]
+  );
+  const isBlocked = (id: string) =>
+    getUnmetDependencies(nodes, progress, id).length > 0;
+  const nameOf = (id: string) =>
+    nodes.find((n) => n.id === id)?.task_name ?? id;
 
-  const handleStatusToggle = async (childId: string) => {
-    const currentStatus = childStatuses[childId];
-    const newStatus =
-      currentStatus === TaskStatus.COMPLETED
-        ? TaskStatus.NOT_STARTED
-        : TaskStatus.COMPLETED;
+  // Timeline: status changes of the task and its subtasks, newest first
+  const timeline = useMemo(() => {
+    if (!task) return [];
+    const names: Record<string, string> = { [task.id]: task.task_name };
+    childTasks.forEach((c) => (names[c.id] = c.task_name));
+    return events
+      .filter((e) => names[e.task_id] !== undefined)
+      .map((e) => ({ ...e, taskName: names[e.task_id] }))
+      .reverse();
+  }, [events, task, childTasks]);
+
+  // Time spent: actual_minutes plus what is not in it yet (see untrackedMs)
+  const openMinutes = useMemo(
+    () => openMinutesByTask(tracking, now),
+    [tracking, now]
+  );
+  const spentOn = (node: TaskItem) =>
+    (nodes.find((n) => n.id === node.id)?.actual_minutes ?? 0) +
+    (openMinutes[node.id] ?? 0);
+  const spentByDay = useMemo(
+    () =>
+      task
+        ? recentDays(
+            timeSpentByDay(
+              tracking,
+              now,
+              new Set([task.id, ...childTasks.map((c) => c.id)])
+            ),
+            7,
+            now
+          )
+        : [],
+    [tracking, now, task, childTasks]
+  );
 
+  const handleStopTracking = async (taskId: string) => {
+    if (!uid) return;
     try {
-      await updateTaskProgress(childId, newStatus);
-      setChildStatuses((prev) => ({ ...prev, [childId]: newStatus }));
+      const minutes = await stopTracking(uid, taskId);
+      toast.success(`${minutes} min tracked`);
     } catch (err) {
       console.error(err);
-      toast.error("Unable to update status");
+      toast.error("Unable to record the time spent");
     }
   };
 
-  const handleCancelRestore = async (childId: string) => {
-    const currentStatus = childStatuses[childId];
-    const newStatus =
-      currentStatus === TaskStatus.CANCELLED
-        ? TaskStatus.NOT_STARTED
-        : TaskStatus.CANCELLED;
+  // start / pause / resume / stop buttons of one task or subtask
+  const renderTracking = (taskId: string) => {
+    const session = findSession(tracking, taskId);
+    if (!uid) return null;
+    return (
+      <>
+        {session?.resumed_at ? (
+          <button
+            className="action-btn track"
+            onClick={() => pauseTracking(uid, taskId)}
+            title="Pause time tracking"
+          >
+            ⏸
+          </button>
+        ) : (
+          <button
+            className="action-btn track"
+            onClick={() => startTracking(uid, taskId)}
+            title={session ? "Resume time tracking" : "Start time tracking"}
+          >
+            {session ? "▶" : "⏱️"}
+          </button>
+        )}
+        {session && (
+          <button
+            className="action-btn track"
+            onClick={() => handleStopTracking(taskId)}
+            title="Stop and record the time"
+          >
+            ⏹
+          </button>
+        )}
+      </>
+    );
+  };
 
-    try {
-      await updateTaskProgress(childId, newStatus);
-      setChildStatuses((prev) => ({ ...prev, [childId]: newStatus }));
-      toast.success(
-        newStatus === TaskStatus.CANCELLED
-          ? "Task cancelled"
-          : "Task restored"
-      );
-    } catch (err) {
-      console.error(err);
-      toast.error("Unable to update status");
+  const { changeStatus, reasonPrompt, cascadePrompt } = useStatusChange(
+    (_, status) => {
+      if (status === TaskStatus.CANCELLED) toast.success("Task cancelled");
+      else if (status === TaskStatus.NOT_STARTED) {
+        toast.success("Task restored");
+      }
     }
-  };
+  );
+
+  // checkbox: complete, or reopen a completed subtask (never a hard reset)
+  const handleStatusToggle = (childId: string) =>
+    changeStatus(
+      childId,
+      childStatuses[childId] === TaskStatus.COMPLETED
+        ? TaskStatus.IN_PROGRESS
+        : TaskStatus.COMPLETED
+    );
+
+  const handleCancelRestore = (childId: string) =>
+    changeStatus(
+      childId,
+      childStatuses[childId] === TaskStatus.CANCELLED
+        ? TaskStatus.NOT_STARTED
+        : TaskStatus.CANCELLED
+    );
 
   const handleEditTask = (childTask: TaskChild) => {
     setEditingTask(childTask);
     setShowAddChildModal(true);
   };
 
+  const handleAddTask = (parent: TaskItem) => {
+    setEditingTask(null);
+    setAddParent(parent);
+    setShowAddChildModal(true);
+  };
+
   const formatDate = (date: Date | null | undefined) => {
     if (!date) return "Not set";
     return new Date(date).toLocaleString("en-US", {
@@ -114,15 +236,25 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
     });
   };
 
-  // Sort tasks: active first, then cancelled
-  const sortedChildTasks = [...childTasks].sort((a, b) => {
+  // Sort siblings: active first, then cancelled
+  const compareChildren = (a: TaskChild, b: TaskChild) => {
     const statusA = childStatuses[a.id] === TaskStatus.CANCELLED ? 1 : 0;
     const statusB = childStatuses[b.id] === TaskStatus.CANCELLED ? 1 : 0;
     if (statusA !== statusB) return statusA - statusB;
     // If same status, sort by level then by end time
     if (a.level !== b.level) return (a.level || 5) - (b.level || 5);
     return (a.end_time?.getTime() || 0) - (b.end_time?.getTime() || 0);
-  });
+  };
+
+  // Tree flattened depth-first, each subtask right below its parent
+  const byParent = groupChildrenByParent(childTasks);
+  const sortedChildTasks: { child: TaskChild; depth: number }[] = [];
+  const appendRows = (parentId: string, depth: number) =>
+    [...(byParent[parentId] ?? [])].sort(compareChildren).forEach((child) => {
+      sortedChildTasks.push({ child, depth });
+      appendRows(child.id, depth + 1);
+    });
+  if (task) appendRows(task.id, 0);
 
   if (!open || !task) return null;
 
@@ -130,8 +262,16 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
     <div className="detail-modal-overlay">
       <div className="detail-modal-content">
         <div className="detail-modal-header">
-          <h2>{task.task_name}</h2>
-          <button className="close-btn" onClick={onClose}>
+          <h2>
+            {task.task_name} <TagChips tagIds={task.tags} />
+          </h2>
+          <button
+            className="close-btn"
+            onClick={() => {
+              setDependencyTarget(null);
+              onClose();
+            }}
+          >
             ×
           </button>
         </div>
@@ -154,15 +294,92 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
           </div>
         </div>
 
+        <div className="time-tracking-section">
+          <div className="section-header">
+            <h3>
+              Time Spent ·{" "}
+              {formatMinutes(
+                [task, ...childTasks].reduce((sum, n) => sum + spentOn(n), 0)
+              )}
+              {!!task.estimated_minutes && (
+                <span className="time-estimate">
+                  {" "}
+                  of {formatMinutes(task.estimated_minutes)} estimated
+                </span>
+              )}
+              {!!pomodoros[task.id] && (
+                <span className="time-estimate">
+                  {" "}
+                  · 🍅 × {pomodoros[task.id]}
+                </span>
+              )}
+            </h3>
+            <div className="time-tracking-controls">
+              {renderTracking(task.id)}
+            </div>
+          </div>
+          <div className="time-by-day">
+            {spentByDay.map(({ date, minutes }) => (
+              <div
+                key={date.toISOString()}
+                className={`time-day ${minutes > 0 ? "worked" : ""}`}
+              >
+                <span>
+                  {date.toLocaleDateString("en-US", { weekday: "short" })}
+                </span>
+                <strong>{minutes > 0 ? formatMinutes(minutes) : "–"}</strong>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="dependencies-section">
+          <div className="section-header">
+            <h3>
+              Dependencies
+              {dependencyTarget && ` · ${dependencyTarget.task_name}`}
+            </h3>
+            {dependencyTarget && (
+              <button
+                className="link-btn"
+                onClick={() => setDependencyTarget(null)}
+              >
+                Back to task
+              </button>
+            )}
+          </div>
+          <DependencyEditor task={dependencyTarget ?? task} />
+          {criticalPath?.projectedEnd && (
+            <div
+              className={`critical-path ${
+                criticalPath.overdue ? "overdue" : ""
+              }`}
+            >
+              <div>
+                Projected finish: {formatDate(criticalPath.projectedEnd)}
+              </div>
+              {criticalPath.path.length > 0 && (
+                <div>
+                  Critical path:{" "}
+                  {criticalPath.path.map((id) => nameOf(id)).join(" ← ")}
+                </div>
+              )}
+              {criticalPath.culprits.length > 0 && (
+                <div>
+                  🔥 Pushing the deadline:{" "}
+                  {criticalPath.culprits.map((id) => nameOf(id)).join(", ")}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className="child-tasks-section">
           <div className="section-header">
             <h3>Subtasks</h3>
             <button
               className="add-child-btn"
-              onClick={() => {
-                setEditingTask(null);
-                setShowAddChildModal(true);
-              }}
+              onClick={() => handleAddTask(task)}
             >
               ➕ Add Subtask
             </button>
@@ -175,7 +392,7 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
             </div>
           ) : sortedChildTasks.length > 0 ? (
             <div className="child-tasks-list">
-              {sortedChildTasks.map((child, index) => (
+              {sortedChildTasks.map(({ child, depth }, index) => (
                 <div
                   key={child.id}
                   className={`child-task-item ${
@@ -183,7 +400,12 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
                       ? "cancelled"
                       : ""
                   }`}
-                  style={{ "--index": index } as React.CSSProperties}
+                  style={
+                    {
+                      "--index": index,
+                      "--depth": depth,
+                    } as React.CSSProperties
+                  }
                 >
                   <div className="task-checkbox">
                     <input
@@ -191,15 +413,44 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
                       checked={childStatuses[child.id] === TaskStatus.COMPLETED}
                       onChange={() => handleStatusToggle(child.id)}
                       disabled={
-                        childStatuses[child.id] === TaskStatus.CANCELLED
+                        childStatuses[child.id] !== TaskStatus.COMPLETED &&
+                        !canTransition(
+                          childStatuses[child.id],
+                          TaskStatus.COMPLETED
+                        )
                       }
                     />
                   </div>
 
                   <div className="task-content">
                     <div className="task-main">
-                      <h4>{child.task_name}</h4>
+                      <h4>
+                        {child.task_name}
+                        {isBlocked(child.id) && (
+                          <span
+                            className="child-flag"
+                            title="Blocked by unfinished tasks"
+                          >
+                            ⛓️
+                          </span>
+                        )}
+                        {criticalPath?.culprits.includes(child.id) && (
+                          <span
+                            className="child-flag"
+                            title="Late, pushes the deadline"
+                          >
+                            🔥
+                          </span>
+                        )}
+                      </h4>
+                      <TagChips tagIds={child.tags} />
                       {child.task_detail && <p>{child.task_detail}</p>}
+                      {progress[child.id]?.status_reason && (
+                        <p className="child-status-reason">
+                          {TASK_STATUS_LABELS[childStatuses[child.id]]}:{" "}
+                          {progress[child.id]?.status_reason}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -220,10 +471,56 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
                         <i className="far fa-calendar-check"></i>
                         <span>{formatDate(child.end_time)}</span>
                       </div>
+                      {spentOn(child) > 0 && (
+                        <div className="time-item">
+                          <span>⏱️ {formatMinutes(spentOn(child))}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   <div className="task-actions">
+                    <select
+                      className="child-status-select"
+                      value={childStatuses[child.id]}
+                      onChange={(e) =>
+                        changeStatus(
+                          child.id,
+                          Number(e.target.value) as TaskStatus
+                        )
+                      }
+                      style={{
+                        borderColor:
+                          TASK_STATUS_COLORS[childStatuses[child.id]],
+                      }}
+                    >
+                      {[
+                        childStatuses[child.id],
+                        ...getNextStatuses(childStatuses[child.id]),
+                      ].map((status) => (
+                        <option key={status} value={status}>
+                          {TASK_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                    {childStatuses[child.id] !== TaskStatus.CANCELLED &&
+                      renderTracking(child.id)}
+                    {childStatuses[child.id] !== TaskStatus.CANCELLED && (
+                      <button
+                        className="action-btn add"
+                        onClick={() => handleAddTask(child)}
+                        title="Add nested subtask"
+                      >
+                        ➕
+                      </button>
+                    )}
+                    <button
+                      className="action-btn link"
+                      onClick={() => setDependencyTarget(child)}
+                      title="Dependencies"
+                    >
+                      🔗
+                    </button>
                     {childStatuses[child.id] !== TaskStatus.CANCELLED && (
                       <button
                         className="action-btn edit"
@@ -233,23 +530,30 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
                         ✏️
                       </button>
                     )}
-                    <button
-                      className={`action-btn ${
-                        childStatuses[child.id] === TaskStatus.CANCELLED
-                          ? "restore"
-                          : "cancel"
-                      }`}
-                      onClick={() => handleCancelRestore(child.id)}
-                      title={
-                        childStatuses[child.id] === TaskStatus.CANCELLED
-                          ? "Restore"
-                          : "Cancel"
-                      }
-                    >
-                      {childStatuses[child.id] === TaskStatus.CANCELLED
-                        ? "🔄"
-                        : "🗑️"}
-                    </button>
+                    {canTransition(
+                      childStatuses[child.id],
+                      childStatuses[child.id] === TaskStatus.CANCELLED
+                        ? TaskStatus.NOT_STARTED
+                        : TaskStatus.CANCELLED
+                    ) && (
+                      <button
+                        className={`action-btn ${
+                          childStatuses[child.id] === TaskStatus.CANCELLED
+                            ? "restore"
+                            : "cancel"
+                        }`}
+                        onClick={() => handleCancelRestore(child.id)}
+                        title={
+                          childStatuses[child.id] === TaskStatus.CANCELLED
+                            ? "Restore"
+                            : "Cancel"
+                        }
+                      >
+                        {childStatuses[child.id] === TaskStatus.CANCELLED
+                          ? "🔄"
+                          : "🗑️"}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -262,36 +566,80 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
           )}
         </div>
 
+        <div className="status-timeline-section">
+          <div className="section-header">
+            <h3>Status History</h3>
+          </div>
+          {timeline.length > 0 ? (
+            <ul className="status-timeline">
+              {timeline.map((event) => (
+                <li key={event.id} className="timeline-item">
+                  <span
+                    className="timeline-dot"
+                    style={{ background: TASK_STATUS_COLORS[event.to_status] }}
+                  />
+                  <div className="timeline-body">
+                    <div className="timeline-title">
+                      {event.task_id !== task.id && (
+                        <strong>{event.taskName}: </strong>
+                      )}
+                      {event.from_status
+                        ? `${TASK_STATUS_LABELS[event.from_status]} → `
+                        : ""}
+                      {TASK_STATUS_LABELS[event.to_status]}
+                    </div>
+                    <div className="timeline-time">
+                      {formatDate(event.changed_at)}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="empty-state">
+              <p>No status changes recorded yet</p>
+            </div>
+          )}
+        </div>
+
         <CreateChildTaskModal
           open={showAddChildModal}
           onClose={() => {
             setShowAddChildModal(false);
             setEditingTask(null);
+            setAddParent(null);
           }}
           editTask={editingTask}
+          onEdit={async (updated) => {
+            try {
+              await updateChild(updated.id, {
+                task_name: updated.task_name,
+                task_detail: updated.task_detail,
+                level: updated.level,
+                start_time: updated.start_time,
+                end_time: updated.end_time,
+                tags: updated.tags ?? [],
+                estimated_minutes: updated.estimated_minutes ?? null,
+              });
+            } catch (err) {
+              console.error(err);
+              toast.error("Unable to update subtask");
+            }
+          }}
           onSaved={async (newChild) => {
             if (!task?.id || !auth.currentUser) return;
 
             try {
-              const childId = await createChildTask(
+              await addChildTask(
                 auth.currentUser.uid,
-                task.id,
+                addParent?.id ?? task.id,
                 newChild
               );
 
-              const updatedChildren = await getChildTasksByParentId(task.id);
-              setChildTasks(updatedChildren);
-
-              setChildStatuses((prev) => ({
-                ...prev,
-                [childId]: TaskStatus.NOT_STARTED,
-              }));
-
-              toast.success(
-                editingTask ? "Subtask updated" : "Subtask added"
-              );
+              toast.success(editingTask ? "Subtask updated" : "Subtask added");
               setShowAddChildModal(false);
               setEditingTask(null);
+              setAddParent(null);
             } catch (err) {
               console.error(err);
               toast.error(
@@ -301,9 +649,16 @@ const TaskDetailModal: React.FC<Props> = ({ open, onClose, task }) => {
               );
             }
           }}
-          parentStartTime={task.start_time?.toISOString().slice(0, 16)}
-          parentEndTime={task.end_time?.toISOString().slice(0, 16)}
+          parentStartTime={(addParent ?? task).start_time
+            ?.toISOString()
+            .slice(0, 16)}
+          parentEndTime={(addParent ?? task).end_time
+            ?.toISOString()
+            .slice(0, 16)}
         />
+
+        <StatusReasonModal {...reasonPrompt} />
+        <CancelCascadeModal {...cascadePrompt} />
       </div>
     </div>
   );
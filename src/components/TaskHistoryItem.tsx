@@ -4,13 +4,23 @@ import {
   type TaskChild,
   LEVEL_LABELS,
 } from "../services/firestore";
-import { TaskStatus, updateTaskProgress } from "../services/taskProgress";
+import {
+  TaskStatus,
+  TASK_STATUS_LABELS,
+  getNextStatuses,
+} from "../services/taskProgress";
+import { setTaskStatus } from "../services/taskStore";
+import { useStatusChange } from "../hooks/useStatusChange";
+import StatusReasonModal from "./StatusReasonModal";
+import CancelCascadeModal from "./CancelCascadeModal";
+import TagChips from "./TagChips";
 import { toast } from "react-toastify";
 import "../styles/TaskHistoryItem.css";
 
 interface Props {
   task: TaskItem;
-  childTasks: TaskChild[];
+  /** every subtask of the user grouped by parent id, for nested levels */
+  childrenByParent: Record<string, TaskChild[]>;
   taskStatus: TaskStatus;
   childStatuses: Record<string, TaskStatus>;
   onStatusUpdate?: () => void;
@@ -18,13 +28,17 @@ interface Props {
 
 const TaskHistoryItem: React.FC<Props> = ({
   task,
-  childTasks,
+  childrenByParent,
   taskStatus,
   childStatuses,
   onStatusUpdate,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const { changeStatus, reasonPrompt, cascadePrompt } = useStatusChange(() => {
+    onStatusUpdate?.();
+    toast.success("Status updated", { position: "top-right", autoClose: 3000 });
+  });
 
   const formatDate = useCallback((date: Date | null | undefined) => {
     if (!date) return null;
@@ -45,7 +59,7 @@ const TaskHistoryItem: React.FC<Props> = ({
   const handleRestore = async () => {
     try {
       setIsRestoring(true);
-      await updateTaskProgress(task.id, TaskStatus.NOT_STARTED);
+      await setTaskStatus(task.id, TaskStatus.NOT_STARTED);
       onStatusUpdate?.();
       toast.success("Task successfully restored!", {
         position: "top-right",
@@ -73,6 +87,8 @@ const TaskHistoryItem: React.FC<Props> = ({
       [TaskStatus.IN_PROGRESS]: { icon: "⏳", text: "In Progress" },
       [TaskStatus.CANCELLED]: { icon: "❌", text: "Cancelled" },
       [TaskStatus.NOT_STARTED]: { icon: "⭕", text: "Not Started" },
+      [TaskStatus.BLOCKED]: { icon: "⛔", text: "Blocked" },
+      [TaskStatus.WAITING_ON_OTHERS]: { icon: "👥", text: "Waiting on Others" },
     };
     return labels[status] || labels[TaskStatus.NOT_STARTED];
   }, []);
@@ -108,6 +124,48 @@ const TaskHistoryItem: React.FC<Props> = ({
     [formatDate]
   );
 
+  const childTasks = childrenByParent[task.id] ?? [];
+
+  // `path` stops a parent_id cycle from recursing forever
+  const renderChildren = (
+    children: TaskChild[],
+    path: Set<string>
+  ): React.ReactNode =>
+    children
+      .filter((child) => !path.has(child.id))
+      .map((child) => {
+        const nested = childrenByParent[child.id] ?? [];
+        return (
+          <div key={child.id} className="child-task-item">
+            <div className="header-content">
+              <div className="task-main-info">
+                <h4>
+                  {child.task_name} <TagChips tagIds={child.tags} />
+                </h4>
+                {child.task_detail && <p>{child.task_detail}</p>}
+                <div className="task-meta">
+                  <span className={`task-level level-${child.level}`}>
+                    {child.level ? LEVEL_LABELS[child.level] : "Uncategorized"}
+                  </span>
+                  <span
+                    className={`task-status status-${childStatuses[child.id]}`}
+                  >
+                    {getStatusLabel(childStatuses[child.id]).icon}
+                    {getStatusLabel(childStatuses[child.id]).text}
+                  </span>
+                </div>
+              </div>
+              {renderTimeInfo(child.start_time, child.end_time)}
+            </div>
+            {nested.length > 0 && (
+              <div className="nested-child-tasks">
+                {renderChildren(nested, new Set(path).add(child.id))}
+              </div>
+            )}
+          </div>
+        );
+      });
+
   return (
     <div className={`history-item ${isExpanded ? "expanded" : ""}`}>
       <div className="history-item-header">
@@ -116,7 +174,9 @@ const TaskHistoryItem: React.FC<Props> = ({
           onClick={() => setIsExpanded(!isExpanded)}
         >
           <div className="task-main-info">
-            <h3>{task.task_name}</h3>
+            <h3>
+              {task.task_name} <TagChips tagIds={task.tags} />
+            </h3>
             {task.task_detail && <p>{task.task_detail}</p>}
             <div className="task-meta">
               <span className={`task-level level-${task.level}`}>
@@ -131,7 +191,7 @@ const TaskHistoryItem: React.FC<Props> = ({
           {renderTimeInfo(task.start_time, task.end_time)}
         </div>
         <div className="action-buttons">
-          {taskStatus === TaskStatus.CANCELLED && (
+          {taskStatus === TaskStatus.CANCELLED ? (
             <button
               className="restore-btn"
               onClick={handleRestore}
@@ -139,6 +199,24 @@ const TaskHistoryItem: React.FC<Props> = ({
             >
               {isRestoring ? "Restoring..." : "🔄 Restore"}
             </button>
+          ) : (
+            <select
+              className="history-status-select"
+              value=""
+              onChange={(e) =>
+                changeStatus(task.id, Number(e.target.value) as TaskStatus)
+              }
+              title="Change status"
+            >
+              <option value="" disabled>
+                Change status…
+              </option>
+              {getNextStatuses(taskStatus).map((status) => (
+                <option key={status} value={status}>
+                  {TASK_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
           )}
           <button
             className={`expand-btn ${isExpanded ? "expanded" : ""}`}
@@ -153,32 +231,7 @@ const TaskHistoryItem: React.FC<Props> = ({
       {isExpanded && (
         <div className="child-tasks-container">
           {childTasks.length > 0 ? (
-            childTasks.map((child) => (
-              <div key={child.id} className="child-task-item">
-                <div className="header-content">
-                  <div className="task-main-info">
-                    <h4>{child.task_name}</h4>
-                    {child.task_detail && <p>{child.task_detail}</p>}
-                    <div className="task-meta">
-                      <span className={`task-level level-${child.level}`}>
-                        {child.level
-                          ? LEVEL_LABELS[child.level]
-                          : "Uncategorized"}
-                      </span>
-                      <span
-                        className={`task-status status-${
-                          childStatuses[child.id]
-                        }`}
-                      >
-                        {getStatusLabel(childStatuses[child.id]).icon}
-                        {getStatusLabel(childStatuses[child.id]).text}
-                      </span>
-                    </div>
-                  </div>
-                  {renderTimeInfo(child.start_time, child.end_time)}
-                </div>
-              </div>
-            ))
+            renderChildren(childTasks, new Set([task.id]))
           ) : (
             <div className="no-children">
               <p>No child tasks available.</p>
@@ -186,6 +239,9 @@ const TaskHistoryItem: React.FC<Props> = ({
           )}
         </div>
       )}
+
+      <StatusReasonModal {...reasonPrompt} />
+      <CancelCascadeModal {...cascadePrompt} />
     </div>
   );
 };
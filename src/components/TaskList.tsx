@@ -1,14 +1,42 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo } from "react";
 import { type TaskItem, LEVEL_LABELS } from "../services/firestore";
 import "../styles/TaskList.css";
 import TaskDetailModal from "./TaskDetailModal";
+import StatusReasonModal from "./StatusReasonModal";
+import TagChips from "./TagChips";
+import CancelCascadeModal from "./CancelCascadeModal";
+import ConfirmModal from "./ConfirmModal";
 import {
   TaskStatus,
   TASK_STATUS_LABELS,
   TASK_STATUS_COLORS,
-  updateTaskProgress,
-  getTaskProgress,
+  getNextStatuses,
 } from "../services/taskProgress";
+import {
+  groupChildrenByParent,
+  invalidateTaskStore,
+  selectAllNodes,
+  selectChildren,
+  selectCourses,
+  selectIsLoading,
+  selectProgress,
+  selectSchedule,
+} from "../services/taskStore";
+import { isOpenStatus } from "../services/statusRollup";
+import {
+  getCriticalPath,
+  getUnmetDependencies,
+} from "../services/dependencies";
+import {
+  type TaskOccurrence,
+  describeRecurrence,
+  findNextOccurrence,
+} from "../services/recurrence";
+import { courseLabel } from "../services/courses";
+import { discardFailedSync, retrySync } from "../services/syncStatus";
+import { useTaskSyncStatus } from "../hooks/useTaskSyncStatus";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useStatusChange } from "../hooks/useStatusChange";
 import { toast } from "react-toastify";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -17,48 +45,109 @@ interface Props {
   onEdit: (t: TaskItem) => void;
 }
 
+/** a task, or the occurrence of a repeating task that is currently due */
+interface ListEntry {
+  task: TaskItem;
+  occurrence: TaskOccurrence | null;
+}
+
+/** key of the entry's progress (occurrence id for repeating tasks) */
+const entryId = ({ task, occurrence }: ListEntry) => occurrence?.id ?? task.id;
+
+const endOf = ({ task, occurrence }: ListEntry) =>
+  occurrence?.end ?? task.end_time;
+
+interface CardProps {
+  task: TaskItem;
+  /** progress key, see entryId */
+  id: string;
+  start?: Date | null;
+  end?: Date | null;
+}
+
+const isClosed = (status?: TaskStatus) =>
+  status === TaskStatus.CANCELLED || status === TaskStatus.COMPLETED;
+
 const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
   const [selectedTask, setSelectedTask] = useState<TaskItem | null>(null);
   const [showDetail, setShowDetail] = useState(false);
-  const [taskStatuses, setTaskStatuses] = useState<Record<string, TaskStatus>>(
-    {}
+  const [toDiscard, setToDiscard] = useState<string | null>(null);
+  const progress = useTaskStore(selectProgress);
+  const children = useTaskStore(selectChildren);
+  const nodes = useTaskStore(selectAllNodes);
+  const schedule = useTaskStore(selectSchedule);
+  const courses = useTaskStore(selectCourses);
+  const loading = useTaskStore(selectIsLoading);
+  const syncStatus = useTaskSyncStatus();
+
+  // a repeating task is listed once, as its next occurrence still open
+  const entries = useMemo<ListEntry[]>(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return tasks.flatMap((task): ListEntry[] => {
+      if (!task.recurrence) return [{ task, occurrence: null }];
+      const occurrence = findNextOccurrence(task, today, (o) =>
+        isOpenStatus(progress[o.id]?.task_status ?? TaskStatus.NOT_STARTED)
+      );
+      return occurrence ? [{ task, occurrence }] : [];
+    });
+  }, [tasks, progress]);
+
+  const taskStatuses = useMemo<Record<string, TaskStatus>>(
+    () =>
+      Object.fromEntries(
+        entries.map((entry) => [
+          entryId(entry),
+          progress[entryId(entry)]?.task_status || TaskStatus.NOT_STARTED,
+        ])
+      ),
+    [entries, progress]
   );
-  const [loading, setLoading] = useState(true);
-
-  const loadTaskStatuses = useCallback(async () => {
-    try {
-      const statuses = await Promise.all(
-        tasks.map(async (task) => {
-          const progress = await getTaskProgress(task.id);
-          return [task.id, progress?.task_status || TaskStatus.NOT_STARTED];
-        })
+
+  // "done / total" of active subtasks, the basis of the parent rollup
+  const subtaskCounts = useMemo(() => {
+    const counts: Record<string, { done: number; total: number }> = {};
+    for (const [parentId, list] of Object.entries(
+      groupChildrenByParent(children)
+    )) {
+      const active = list.filter(
+        (c) => progress[c.id]?.task_status !== TaskStatus.CANCELLED
       );
-      setTaskStatuses(Object.fromEntries(statuses));
-    } catch (error) {
-      console.error("Error loading task statuses:", error);
-      toast.error("Unable to load task statuses");
-    } finally {
-      setLoading(false);
+      counts[parentId] = {
+        total: active.length,
+        done: active.filter(
+          (c) => progress[c.id]?.task_status === TaskStatus.COMPLETED
+        ).length,
+      };
     }
-  }, [tasks]);
-
-  useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-expressions
-    tasks.length > 0 ? loadTaskStatuses() : setLoading(false);
-  }, [tasks, loadTaskStatuses]);
-
-  const handleStatusChange = useCallback(
-    async (taskId: string, status: TaskStatus) => {
-      try {
-        await updateTaskProgress(taskId, status);
-        setTaskStatuses((prev) => ({ ...prev, [taskId]: status }));
-        toast.success("Updated successfully");
-      } catch (err) {
-        console.error(err);
-        toast.error("Unable to update status");
-      }
-    },
-    []
+    return counts;
+  }, [children, progress]);
+
+  const coursesById = useMemo(
+    () => Object.fromEntries(courses.map((c) => [c.id, c])),
+    [courses]
+  );
+
+  // unfinished blockers and the late subtasks pushing each deadline
+  const dependencyInfo = useMemo(() => {
+    const names = Object.fromEntries(nodes.map((n) => [n.id, n.task_name]));
+    const info: Record<string, { blockedBy: string[]; culprits: string[] }> =
+      {};
+    for (const task of tasks) {
+      info[task.id] = {
+        blockedBy: getUnmetDependencies(nodes, progress, task.id).map(
+          (t) => t.task_name
+        ),
+        culprits: getCriticalPath(schedule, task.id).culprits.map(
+          (id) => names[id]
+        ),
+      };
+    }
+    return info;
+  }, [tasks, nodes, progress, schedule]);
+
+  const { changeStatus, reasonPrompt, cascadePrompt } = useStatusChange(() =>
+    toast.success("Updated successfully")
   );
 
   const formatDate = useCallback((date: Date | null | undefined) => {
@@ -81,30 +170,32 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
 
   const sortedTasks = useMemo(
     () =>
-      tasks
+      entries
         .filter(
-          (task) =>
-            taskStatuses[task.id] !== TaskStatus.CANCELLED &&
-            taskStatuses[task.id] !== TaskStatus.COMPLETED
+          (entry) =>
+            // a finished / cancelled series hides its occurrences too
+            !isClosed(progress[entry.task.id]?.task_status) &&
+            !isClosed(taskStatuses[entryId(entry)])
         )
         .sort((a, b) => {
-          if (a.level !== b.level) return (a.level || 5 ) - (b.level || 5);
+          if (a.task.level !== b.task.level)
+            return (a.task.level || 5) - (b.task.level || 5);
           return (
-            (a.end_time?.getTime() || Infinity) -
-            (b.end_time?.getTime() || Infinity)
+            (endOf(a)?.getTime() || Infinity) -
+            (endOf(b)?.getTime() || Infinity)
           );
         }),
-    [tasks, taskStatuses]
+    [entries, progress, taskStatuses]
   );
 
-  const isTaskOverdue = (task: TaskItem): boolean => {
-    return task.end_time ? new Date() > new Date(task.end_time) : false;
+  const isTaskOverdue = (end: Date | null | undefined): boolean => {
+    return end ? new Date() > new Date(end) : false;
   };
 
   const TaskCard = useCallback(
-    ({ task }: { task: TaskItem }) => (
+    ({ task, id, start, end }: CardProps) => (
       <motion.div
-        key={task.id}
+        key={id}
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         exit={{ opacity: 0, y: -20 }}
@@ -114,14 +205,12 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
         <div
           className="task-status-ribbon"
           style={{
-            backgroundColor: getStatusColor(taskStatuses[task.id]),
+            backgroundColor: getStatusColor(taskStatuses[id]),
           }}
         >
-          {taskStatuses[task.id] !== TaskStatus.COMPLETED && isTaskOverdue(task)
+          {taskStatuses[id] !== TaskStatus.COMPLETED && isTaskOverdue(end)
             ? "Overdue"
-            : TASK_STATUS_LABELS[
-                taskStatuses[task.id] || TaskStatus.NOT_STARTED
-              ]}
+            : TASK_STATUS_LABELS[taskStatuses[id] || TaskStatus.NOT_STARTED]}
         </div>
 
         <div className="task-header">
@@ -130,16 +219,22 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
             {task.task_detail && (
               <p className="task-detail">{task.task_detail}</p>
             )}
+            {progress[id]?.status_reason && (
+              <p className="status-reason">
+                {TASK_STATUS_LABELS[taskStatuses[id]]}:{" "}
+                {progress[id]?.status_reason}
+              </p>
+            )}
           </div>
 
           <div className="task-time-section">
             <div className="time-item">
               <span className="time-label">Start:</span>
-              <span className="time-value">{formatDate(task.start_time)}</span>
+              <span className="time-value">{formatDate(start)}</span>
             </div>
             <div className="time-item">
               <span className="time-label">End:</span>
-              <span className="time-value">{formatDate(task.end_time)}</span>
+              <span className="time-value">{formatDate(end)}</span>
             </div>
           </div>
         </div>
@@ -149,6 +244,74 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
             <div className={`task-level level-${task.level || 0}`}>
               {task.level ? LEVEL_LABELS[task.level] : "Uncategorized"}
             </div>
+            {task.course_id && coursesById[task.course_id] && (
+              <div
+                className="course-badge"
+                style={{ background: coursesById[task.course_id].color }}
+                title={coursesById[task.course_id].name}
+              >
+                📚 {courseLabel(coursesById[task.course_id])}
+              </div>
+            )}
+            <TagChips tagIds={task.tags} />
+            {task.recurrence && (
+              <div className="recurrence-badge" title="Repeating task">
+                🔁 {describeRecurrence(task.recurrence)}
+              </div>
+            )}
+            {subtaskCounts[task.id]?.total > 0 && (
+              <div className="subtask-count-badge" title="Completed subtasks">
+                ☑️ {subtaskCounts[task.id].done}/{subtaskCounts[task.id].total}
+              </div>
+            )}
+            {dependencyInfo[task.id]?.blockedBy.length > 0 && (
+              <div
+                className="dependency-badge"
+                title={`Waiting for: ${dependencyInfo[task.id].blockedBy.join(", ")}`}
+              >
+                ⛓️ Blocked by {dependencyInfo[task.id].blockedBy.length}
+              </div>
+            )}
+            {dependencyInfo[task.id]?.culprits.length > 0 && (
+              <div
+                className="critical-badge"
+                title={`Late on the critical path: ${dependencyInfo[task.id].culprits.join(", ")}`}
+              >
+                🔥 Deadline at risk ({dependencyInfo[task.id].culprits.length}{" "}
+                late)
+              </div>
+            )}
+            {syncStatus[task.id]?.state === "pending" && (
+              <div
+                className="sync-badge pending"
+                title="Saved on this device, waiting for connection"
+              >
+                ⏳ Pending sync
+              </div>
+            )}
+            {syncStatus[task.id]?.state === "failed" && (
+              <button
+                className="sync-badge failed"
+                title={syncStatus[task.id]?.error}
+                onClick={() => {
+                  retrySync().catch((err) => {
+                    console.error(err);
+                    toast.error("Unable to sync changes");
+                  });
+                }}
+              >
+                ⚠️ Sync failed · Retry
+              </button>
+            )}
+            {syncStatus[task.id]?.state === "failed" && (
+              <button
+                className="sync-badge failed"
+                title="Drop the changes the server refused"
+                onClick={() => setToDiscard(task.id)}
+              >
+                🗑️ Discard
+              </button>
+            )}
           </div>
 
           <div className="task-actions">
@@ -166,23 +329,23 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
             </button>
             <select
               className="status-select"
-              value={taskStatuses[task.id] || TaskStatus.NOT_STARTED}
+              value={taskStatuses[id] || TaskStatus.NOT_STARTED}
               onChange={(e) =>
-                handleStatusChange(
-                  task.id,
-                  Number(e.target.value) as TaskStatus
-                )
+                changeStatus(id, Number(e.target.value) as TaskStatus)
               }
               style={{
                 backgroundColor: getStatusColor(
-                  taskStatuses[task.id] || TaskStatus.NOT_STARTED
+                  taskStatuses[id] || TaskStatus.NOT_STARTED
                 ),
                 color: "white",
               }}
             >
-              {Object.entries(TASK_STATUS_LABELS).map(([value, label]) => (
-                <option key={value} value={value}>
-                  {label}
+              {[
+                taskStatuses[id] || TaskStatus.NOT_STARTED,
+                ...getNextStatuses(taskStatuses[id] || TaskStatus.NOT_STARTED),
+              ].map((status) => (
+                <option key={status} value={status}>
+                  {TASK_STATUS_LABELS[status]}
                 </option>
               ))}
             </select>
@@ -190,7 +353,18 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
         </div>
       </motion.div>
     ),
-    [taskStatuses, getStatusColor, formatDate, handleStatusChange, onEdit]
+    [
+      taskStatuses,
+      progress,
+      subtaskCounts,
+      coursesById,
+      dependencyInfo,
+      syncStatus,
+      getStatusColor,
+      formatDate,
+      changeStatus,
+      onEdit,
+    ]
   );
 
   if (loading) {
@@ -214,8 +388,14 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
     <>
       <div className="task-list-container">
         <AnimatePresence>
-          {sortedTasks.map((task) => (
-            <TaskCard key={task.id} task={task} />
+          {sortedTasks.map((entry) => (
+            <TaskCard
+              key={entryId(entry)}
+              task={entry.task}
+              id={entryId(entry)}
+              start={entry.occurrence?.start ?? entry.task.start_time}
+              end={endOf(entry)}
+            />
           ))}
         </AnimatePresence>
       </div>
@@ -228,6 +408,27 @@ const TaskList: React.FC<Props> = ({ tasks, onEdit }) => {
         }}
         task={selectedTask}
       />
+
+      <StatusReasonModal {...reasonPrompt} />
+      <CancelCascadeModal {...cascadePrompt} />
+      <ConfirmModal
+        open={toDiscard !== null}
+        message="Discard the changes of this task that could not be synced? They are lost for good."
+        confirmLabel="Discard"
+        onCancel={() => setToDiscard(null)}
+        onConfirm={async () => {
+          if (!toDiscard) return;
+          try {
+            await discardFailedSync(toDiscard);
+            // re-read from the server, the cache still shows the dropped changes
+            invalidateTaskStore();
+            setToDiscard(null);
+          } catch (err) {
+            console.error(err);
+            toast.error("Unable to discard changes");
+          }
+        }}
+      />
     </>
   );
 };
@@ -1,87 +1,130 @@
 import { useState, useEffect, useRef } from "react";
 import { toast, ToastContainer } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
+import { auth } from "../services/auth";
+import { stopTracking } from "../services/taskStore";
+import {
+  findSession,
+  pauseTracking,
+  sessionMs,
+  setPomodoroRun,
+  startTracking,
+  timeTrackingStore,
+} from "../services/timeTracking";
+import {
+  type PomodoroSettings,
+  PomodoroPhase,
+  POMODORO_PHASE_LABELS,
+  nextPhase,
+  phaseMinutes,
+  pomodoroStore,
+  recordPomodoro,
+  savePomodoroSettings,
+} from "../services/pomodoro";
+import { useNow } from "../hooks/useNow";
+import { useUserStore } from "../hooks/useUserStore";
 import "../styles/Timer.css";
 
 interface TimerProps {
+  /** task whose time the timer tracks, once started */
+  taskId: string;
   taskName: string;
   endTime: Date;
   onClose: () => void;
 }
 
+type TimerMode = "deadline" | "pomodoro";
+
+const POMODORO_FIELDS: { key: keyof PomodoroSettings; label: string }[] = [
+  { key: "focus_minutes", label: "Focus (min)" },
+  { key: "short_break_minutes", label: "Short break (min)" },
+  { key: "long_break_minutes", label: "Long break (min)" },
+  { key: "cycles_before_long_break", label: "Focus rounds per long break" },
+];
+
 interface NotificationPoint {
   percentage: number;
   message: string;
   soundType: "alert" | "warning" | "complete";
 }
 
-const Timer = ({ taskName, endTime, onClose }: TimerProps) => {
-  const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [customTime, setCustomTime] = useState<number>(0);
-  const audioRef = useRef<HTMLAudioElement>(null);
+/** the sound cues of the deadline alerts and the Pomodoro phases */
+const playSound = (type: "alert" | "warning" | "complete") => {
+  const context = new (window.AudioContext ||
+    (window as any).webkitAudioContext)();
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
 
-  const notificationPoints: NotificationPoint[] = [
-    { percentage: 50, message: "50% time remaining!", soundType: "warning" },
-    { percentage: 90, message: "Almost out of time - 10% left!", soundType: "alert" },
-    { percentage: 100, message: "Time's up!", soundType: "complete" },
-  ];
+  oscillator.connect(gainNode);
+  gainNode.connect(context.destination);
 
-  const playSound = (type: "alert" | "warning" | "complete") => {
-    const context = new (window.AudioContext ||
-      (window as any).webkitAudioContext)();
-    const oscillator = context.createOscillator();
-    const gainNode = context.createGain();
+  switch (type) {
+    case "warning":
+      oscillator.frequency.value = 440;
+      oscillator.type = "sine";
+      gainNode.gain.value = 0.3;
 
-    oscillator.connect(gainNode);
-    gainNode.connect(context.destination);
+      oscillator.start();
+      setTimeout(() => {
+        oscillator.stop();
+        context.close();
+      }, 800);
+      break;
 
-    switch (type) {
-      case "warning":
-        oscillator.frequency.value = 440;
-        oscillator.type = "sine";
-        gainNode.gain.value = 0.3;
-
-        oscillator.start();
-        setTimeout(() => {
-          oscillator.stop();
-          context.close();
-        }, 800);
-        break;
+    case "alert":
+      oscillator.frequency.value = 880;
+      oscillator.type = "square";
+      gainNode.gain.value = 0.4;
 
-      case "alert":
-        oscillator.frequency.value = 880;
-        oscillator.type = "square";
-        gainNode.gain.value = 0.4;
-
-        oscillator.start();
-        setTimeout(() => {
-          oscillator.stop();
-          context.close();
-        }, 1000);
-        break;
+      oscillator.start();
+      setTimeout(() => {
+        oscillator.stop();
+        context.close();
+      }, 1000);
+      break;
 
-      case "complete": {
-        oscillator.type = "sine";
-        oscillator.frequency.value = 1200;
-        gainNode.gain.value = 0.4;
+    case "complete": {
+      oscillator.type = "sine";
+      oscillator.frequency.value = 1200;
+      gainNode.gain.value = 0.4;
 
-        const oscillator2 = context.createOscillator();
-        oscillator2.connect(gainNode);
-        oscillator2.type = "sine";
-        oscillator2.frequency.value = 1500;
+      const oscillator2 = context.createOscillator();
+      oscillator2.connect(gainNode);
+      oscillator2.type = "sine";
+      oscillator2.frequency.value = 1500;
 
-        oscillator.start();
-        oscillator2.start();
+      oscillator.start();
+      oscillator2.start();
 
-        setTimeout(() => oscillator2.stop(), 200);
-        setTimeout(() => {
-          oscillator.stop();
-          context.close();
-        }, 400);
-        break;
-      }
+      setTimeout(() => oscillator2.stop(), 200);
+      setTimeout(() => {
+        oscillator.stop();
+        context.close();
+      }, 400);
+      break;
     }
-  };
+  }
+};
+
+const Timer = ({ taskId, taskName, endTime, onClose }: TimerProps) => {
+  const uid = auth.currentUser?.uid;
+  const session = findSession(useUserStore(timeTrackingStore, uid), taskId);
+  const running = !!session?.resumed_at;
+  // the Pomodoro lives on the session, so it goes on while the timer is closed
+  const run = session?.pomodoro ?? null;
+  const mode: TimerMode = run ? "pomodoro" : "deadline";
+  const now = useNow(running || !!run);
+  const { settings, completed } = useUserStore(pomodoroStore, uid);
+  const [showSettings, setShowSettings] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [customTime, setCustomTime] = useState<number>(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const notificationPoints: NotificationPoint[] = [
+    { percentage: 50, message: "50% time remaining!", soundType: "warning" },
+    { percentage: 90, message: "Almost out of time - 10% left!", soundType: "alert" },
+    { percentage: 100, message: "Time's up!", soundType: "complete" },
+  ];
 
   const notify = (
     message: string,
@@ -155,25 +198,208 @@ const Timer = ({ taskName, endTime, onClose }: TimerProps) => {
     setCustomTime(minutes * 60000);
   };
 
+  /** ---------- Pomodoro ---------- */
+
+  const phaseLeft = !run
+    ? 0
+    : (run.paused_left ??
+      (run.ends_at ? Math.max(0, run.ends_at.getTime() - now.getTime()) : 0));
+
+  const startPomodoro = () => {
+    if (!uid) return;
+    startTracking(uid, taskId);
+    setPomodoroRun(uid, taskId, {
+      phase: PomodoroPhase.FOCUS,
+      ends_at: new Date(Date.now() + settings.focus_minutes * 60000),
+      paused_left: null,
+      focus_done: 0,
+    });
+  };
+
+  const leavePomodoro = () => {
+    if (uid) setPomodoroRun(uid, taskId, null);
+  };
+
+  const pausePomodoro = () => {
+    if (!uid || !run) return;
+    setPomodoroRun(uid, taskId, {
+      ...run,
+      ends_at: null,
+      paused_left: phaseLeft,
+    });
+    pauseTracking(uid, taskId);
+  };
+
+  const resumePomodoro = () => {
+    if (!uid || !run) return;
+    setPomodoroRun(uid, taskId, {
+      ...run,
+      ends_at: new Date(Date.now() + (run.paused_left ?? 0)),
+      paused_left: null,
+    });
+    if (run.phase === PomodoroPhase.FOCUS) startTracking(uid, taskId);
+  };
+
+  // phase over: count the pomodoro, switch phase, time is only tracked
+  // while focusing (up to the phase end, also when it ended while closed)
+  useEffect(() => {
+    if (!uid || !run?.ends_at || now < run.ends_at) return;
+    const { phase, ends_at } = run;
+    const done =
+      phase === PomodoroPhase.FOCUS ? run.focus_done + 1 : run.focus_done;
+    const next = nextPhase(phase, done, settings);
+    if (phase === PomodoroPhase.FOCUS) {
+      recordPomodoro(uid, taskId);
+      pauseTracking(uid, taskId, ends_at);
+    }
+    if (next === PomodoroPhase.FOCUS) startTracking(uid, taskId);
+    setPomodoroRun(uid, taskId, {
+      phase: next,
+      ends_at: new Date(Date.now() + phaseMinutes(next, settings) * 60000),
+      paused_left: null,
+      focus_done: done,
+    });
+    toast.info(
+      `${taskName}: ${POMODORO_PHASE_LABELS[next]} for ${phaseMinutes(
+        next,
+        settings
+      )} min`
+    );
+    playSound(phase === PomodoroPhase.FOCUS ? "complete" : "warning");
+  }, [run, now, settings, uid, taskId, taskName]);
+
+  const handleStop = async () => {
+    if (!uid) return;
+    try {
+      const minutes = await stopTracking(uid, taskId);
+      toast.success(`${taskName}: ${minutes} min tracked`);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to record the time spent");
+    }
+  };
+
   return (
     <div className="timer-modal">
       <div className="timer-content">
         <h3>{taskName}</h3>
-        <div className="time-display">{formatTime(timeLeft)}</div>
+        <div className="timer-modes">
+          <button
+            className={mode === "deadline" ? "active" : ""}
+            onClick={() => mode !== "deadline" && leavePomodoro()}
+          >
+            ⏰ Deadline
+          </button>
+          <button
+            className={mode === "pomodoro" ? "active" : ""}
+            onClick={() => mode !== "pomodoro" && startPomodoro()}
+          >
+            🍅 Pomodoro
+          </button>
+        </div>
+        {run ? (
+          <>
+            <div className={`pomodoro-phase ${run.phase}`}>
+              {POMODORO_PHASE_LABELS[run.phase]}
+              {run.paused_left !== null && " (paused)"}
+            </div>
+            <div className="time-display">{formatTime(phaseLeft)}</div>
+            <div className="pomodoro-count">
+              🍅 × {completed[taskId] ?? 0} on this task
+            </div>
+          </>
+        ) : (
+          <div className="time-display">{formatTime(timeLeft)}</div>
+        )}
+        <div className="time-tracked">
+          Tracked: {formatTime(session ? sessionMs(session, now) : 0)}
+          {session && !running && " (paused)"}
+        </div>
 
         <div className="timer-controls">
-          <input
-            type="number"
-            placeholder="Set minutes"
-            min="1"
-            max={Math.floor((endTime.getTime() - Date.now()) / 60000)}
-            onChange={(e) => handleCustomTime(parseInt(e.target.value))}
-          />
-          <button onClick={onClose} className="close-button">
+          {run ? (
+            <>
+              {run.paused_left === null ? (
+                <button onClick={pausePomodoro} className="track-button">
+                  ⏸ Pause
+                </button>
+              ) : (
+                <button onClick={resumePomodoro} className="track-button">
+                  ▶ Resume
+                </button>
+              )}
+              <button
+                onClick={() => setShowSettings((v) => !v)}
+                className="track-button"
+                title="Pomodoro settings"
+              >
+                ⚙️
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                type="number"
+                placeholder="Set minutes"
+                min="1"
+                max={Math.floor((endTime.getTime() - Date.now()) / 60000)}
+                onChange={(e) => handleCustomTime(parseInt(e.target.value))}
+              />
+              {running ? (
+                <button
+                  onClick={() => uid && pauseTracking(uid, taskId)}
+                  className="track-button"
+                >
+                  ⏸ Pause
+                </button>
+              ) : (
+                <button
+                  onClick={() => uid && startTracking(uid, taskId)}
+                  className="track-button"
+                >
+                  {session ? "▶ Resume" : "▶ Start"}
+                </button>
+              )}
+            </>
+          )}
+          <button
+            onClick={handleStop}
+            className="track-button"
+            disabled={!session}
+          >
+            ⏹ Stop
+          </button>
+          <button
+            onClick={onClose}
+            className="close-button"
+            title="Tracking goes on, stop it from here or the task's details"
+          >
             Close
           </button>
         </div>
 
+        {mode === "pomodoro" && showSettings && (
+          <div className="pomodoro-settings">
+            {POMODORO_FIELDS.map(({ key, label }) => (
+              <label key={key}>
+                {label}
+                <input
+                  type="number"
+                  min="1"
+                  defaultValue={settings[key]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (uid && Number.isInteger(value) && value >= 1) {
+                      savePomodoroSettings(uid, { [key]: value });
+                    }
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
         <audio ref={audioRef} />
       </div>
       <ToastContainer
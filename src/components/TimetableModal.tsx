@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { auth } from "../services/auth";
+import {
+  type ClassSession,
+  type SaveClassSessionInput,
+} from "../services/firestore";
+import { courseLabel } from "../services/courses";
+import { WEEKDAY_LABELS } from "../services/recurrence";
+import {
+  TIMETABLE_CSV_TEMPLATE,
+  WEEKDAY_ORDER,
+  clockMinutes,
+  parseTimetableCsv,
+  validateClassSession,
+} from "../services/timetable";
+import {
+  importTimetable,
+  removeClassSession,
+  saveClassSession,
+  selectClassSessions,
+  selectCourses,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import ConfirmModal from "./ConfirmModal";
+import CourseSelect from "./CourseSelect";
+import "../styles/theme.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (d: Date | null | undefined) =>
+  d
+    ? [
+        d.getFullYear(),
+        String(d.getMonth() + 1).padStart(2, "0"),
+        String(d.getDate()).padStart(2, "0"),
+      ].join("-")
+    : "";
+
+const fromDateInput = (value: string) =>
+  value ? new Date(`${value}T00:00:00`) : null;
+
+const emptySession = (): SaveClassSessionInput => ({
+  course_id: null,
+  room: "",
+  weekday: 1,
+  start_time: "08:00",
+  end_time: "10:00",
+  start_date: null,
+  end_date: null,
+});
+
+const TimetableModal: React.FC<Props> = ({ open, onClose }) => {
+  const sessions = useTaskStore(selectClassSessions);
+  const courses = useTaskStore(selectCourses);
+  const [draft, setDraft] = useState(emptySession);
+  const [toDelete, setToDelete] = useState<ClassSession | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  if (!open) return null;
+
+  const courseOf = (session: ClassSession) =>
+    courses.find((c) => c.id === session.course_id);
+
+  const handleSave = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      toast.error("You are not logged in");
+      return;
+    }
+    const input = { ...draft, room: draft.room?.trim() ?? "" };
+    const error = validateClassSession(input);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    try {
+      await saveClassSession(uid, input);
+      toast.success(input.id ? "Class updated" : "Class added");
+      setDraft(emptySession());
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to save class");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    const uid = auth.currentUser?.uid;
+    if (!toDelete || !uid) return;
+    try {
+      await removeClassSession(uid, toDelete.id);
+      toast.success("Class deleted");
+      setToDelete(null);
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to delete class");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // allow picking the same file again after fixing it
+    e.target.value = "";
+    const uid = auth.currentUser?.uid;
+    if (!file || !uid) return;
+    setImporting(true);
+    try {
+      const { rows, errors } = parseTimetableCsv(await file.text());
+      setImportErrors(errors);
+      if (rows.length === 0) {
+        toast.error("No class could be read from the file");
+        return;
+      }
+      const { imported, createdCourses } = await importTimetable(uid, rows);
+      toast.success(
+        `Imported ${imported} classes` +
+          (createdCourses.length > 0
+            ? `, new courses: ${createdCourses.join(", ")}`
+            : "")
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error("Timetable import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const edit = (session: ClassSession) =>
+    setDraft({
+      id: session.id,
+      course_id: session.course_id ?? null,
+      room: session.room ?? "",
+      weekday: session.weekday,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      start_date: session.start_date ?? null,
+      end_date: session.end_date ?? null,
+    });
+
+  const byDay = WEEKDAY_ORDER.map((weekday) => ({
+    weekday,
+    sessions: sessions
+      .filter((s) => s.weekday === weekday)
+      .sort((a, b) => clockMinutes(a.start_time) - clockMinutes(b.start_time)),
+  })).filter((day) => day.sessions.length > 0);
+
+  return (
+    <div className="modal-overlay animate-fadeIn">
+      <div className="modal-box course-manager animate-slideIn">
+        <div className="modal-header">
+          <h2 className="modal-title">Class Timetable</h2>
+          <button className="btn-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {byDay.length === 0 && (
+          <p className="modal-message">
+            No classes yet. Add them below or import a CSV file.
+          </p>
+        )}
+        {byDay.map(({ weekday, sessions: daySessions }) => (
+          <div key={weekday}>
+            <div className="course-group-label">{WEEKDAY_LABELS[weekday]}</div>
+            <ul className="course-list">
+              {daySessions.map((session) => {
+                const course = courseOf(session);
+                return (
+                  <li key={session.id} className="course-row">
+                    <span
+                      className="course-swatch"
+                      style={{ background: course?.color ?? "#a0aec0" }}
+                    />
+                    <span className="course-row-label">
+                      {session.start_time}–{session.end_time}{" "}
+                      {course ? courseLabel(course) : "Unknown course"}
+                      <small>{session.room && ` · ${session.room}`}</small>
+                    </span>
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => edit(session)}
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => setToDelete(session)}
+                    >
+                      🗑️
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+
+        <h3 className="course-section-title">
+          {draft.id ? "Edit class" : "Add a class"}
+        </h3>
+        <div className="course-form">
+          <CourseSelect
+            value={draft.course_id ?? ""}
+            onChange={(value) =>
+              setDraft({ ...draft, course_id: value || null })
+            }
+          />
+          <select
+            className="input"
+            value={draft.weekday}
+            onChange={(e) =>
+              setDraft({ ...draft, weekday: Number(e.target.value) })
+            }
+          >
+            {WEEKDAY_ORDER.map((weekday) => (
+              <option key={weekday} value={weekday}>
+                {WEEKDAY_LABELS[weekday]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="time"
+            className="input"
+            title="Start time"
+            value={draft.start_time}
+            onChange={(e) => setDraft({ ...draft, start_time: e.target.value })}
+          />
+          <input
+            type="time"
+            className="input"
+            title="End time"
+            value={draft.end_time}
+            onChange={(e) => setDraft({ ...draft, end_time: e.target.value })}
+          />
+          <input
+            className="input"
+            placeholder="Room"
+            value={draft.room ?? ""}
+            onChange={(e) => setDraft({ ...draft, room: e.target.value })}
+          />
+          <input
+            type="date"
+            className="input"
+            title="First class (empty = semester start)"
+            value={toDateInput(draft.start_date)}
+            onChange={(e) =>
+              setDraft({ ...draft, start_date: fromDateInput(e.target.value) })
+            }
+          />
+          <input
+            type="date"
+            className="input"
+            title="Last class (empty = semester end)"
+            value={toDateInput(draft.end_date)}
+            onChange={(e) =>
+              setDraft({ ...draft, end_date: fromDateInput(e.target.value) })
+            }
+          />
+          <button className="btn btn-primary" onClick={handleSave}>
+            {draft.id ? "Update" : "Add"}
+          </button>
+          {draft.id && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => setDraft(emptySession())}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        <h3 className="course-section-title">Import from CSV</h3>
+        <p className="timetable-hint">
+          One class per row. Unknown courses are created; empty dates follow the
+          course's semester.
+        </p>
+        <pre className="timetable-template">{TIMETABLE_CSV_TEMPLATE}</pre>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleImport}
+          disabled={importing}
+        />
+        {importErrors.length > 0 && (
+          <ul className="timetable-errors">
+            {importErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmModal
+        open={toDelete !== null}
+        onCancel={() => setToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        message="Delete this class from your timetable?"
+      />
+    </div>
+  );
+};
+
+export default TimetableModal;
@@ -1,6 +1,6 @@
 // src/components/UserHeader.tsx
 import React from "react";
-import { auth } from "../services/firebase";
+import { auth } from "../services/auth";
 import { toast } from "react-toastify";
 import "../styles/TaskPage.css";
 import { useNavigate } from "react-router-dom";
@@ -0,0 +1,162 @@
+import { useMemo } from "react";
+import type { AggregatedTask } from "../../services/task";
+import { calculateTaskProgress } from "../../services/task";
+import { TaskStatus } from "../../services/taskProgress";
+import { courseLabel } from "../../services/courses";
+import { selectCourses, selectSemesters } from "../../services/taskStore";
+import { useTaskStore } from "../../hooks/useTaskStore";
+import "../../styles/analytics/AnalyticsCourses.css";
+
+interface Props {
+  tasks: AggregatedTask[];
+}
+
+interface CourseStats {
+  key: string;
+  label: string;
+  color: string;
+  semester: string;
+  credits: number | null;
+  total: number;
+  completed: number;
+  overdue: number;
+  /** average calculateTaskProgress of the course's tasks */
+  progress: number;
+}
+
+const NO_COURSE_COLOR = "#a0aec0";
+
+const AnalyticsCourses = ({ tasks }: Props) => {
+  const courses = useTaskStore(selectCourses);
+  const semesters = useTaskStore(selectSemesters);
+
+  const rows = useMemo<CourseStats[]>(() => {
+    const now = new Date();
+    const semesterNames = Object.fromEntries(
+      semesters.map((s) => [s.id, s.name])
+    );
+    const byCourse: Record<string, AggregatedTask[]> = {};
+    for (const task of tasks) {
+      (byCourse[task.courseId ?? ""] ??= []).push(task);
+    }
+
+    const stats = (
+      key: string,
+      list: AggregatedTask[]
+    ): Omit<CourseStats, "label" | "color" | "semester" | "credits"> => {
+      const active = list.filter(
+        (t) => t.progress?.status !== TaskStatus.CANCELLED
+      );
+      return {
+        key,
+        total: active.length,
+        completed: active.filter(
+          (t) => t.progress?.status === TaskStatus.COMPLETED
+        ).length,
+        overdue: active.filter(
+          (t) =>
+            t.endTime &&
+            t.endTime < now &&
+            t.progress?.status !== TaskStatus.COMPLETED
+        ).length,
+        progress:
+          active.length > 0
+            ? Math.round(
+                active.reduce((sum, t) => sum + calculateTaskProgress(t), 0) /
+                  active.length
+              )
+            : 0,
+      };
+    };
+
+    const result: CourseStats[] = courses
+      .map((course) => ({
+        ...stats(course.id, byCourse[course.id] ?? []),
+        label: courseLabel(course),
+        color: course.color,
+        semester: course.semester_id
+          ? semesterNames[course.semester_id] ?? ""
+          : "",
+        credits: course.credits ?? null,
+      }))
+      .sort(
+        (a, b) =>
+          a.semester.localeCompare(b.semester) || a.label.localeCompare(b.label)
+      );
+
+    // tasks without a course, or whose course was deleted
+    const known = new Set(courses.map((c) => c.id));
+    const loose = tasks.filter((t) => !t.courseId || !known.has(t.courseId));
+    if (loose.length > 0) {
+      result.push({
+        ...stats("", loose),
+        label: "No course",
+        color: NO_COURSE_COLOR,
+        semester: "",
+        credits: null,
+      });
+    }
+    return result;
+  }, [tasks, courses, semesters]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="analytics-courses empty">
+        No courses yet. Add them from the Tasks page.
+      </div>
+    );
+  }
+
+  return (
+    <div className="analytics-courses">
+      <table className="courses-table">
+        <thead>
+          <tr>
+            <th>Course</th>
+            <th>Semester</th>
+            <th>Credits</th>
+            <th>Tasks</th>
+            <th>Completed</th>
+            <th>Overdue</th>
+            <th>Progress</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key || "none"}>
+              <td>
+                <span
+                  className="course-dot"
+                  style={{ background: row.color }}
+                />
+                {row.label}
+              </td>
+              <td>{row.semester || "—"}</td>
+              <td>{row.credits ?? "—"}</td>
+              <td>{row.total}</td>
+              <td>
+                {row.completed}
+                {row.total > 0 &&
+                  ` (${Math.round((row.completed / row.total) * 100)}%)`}
+              </td>
+              <td className={row.overdue > 0 ? "overdue" : ""}>
+                {row.overdue}
+              </td>
+              <td>
+                <div className="course-progress">
+                  <div
+                    className="course-progress-bar"
+                    style={{ width: `${row.progress}%`, background: row.color }}
+                  />
+                </div>
+                <span className="course-progress-value">{row.progress}%</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AnalyticsCourses;
@@ -87,14 +87,20 @@ const AnalyticsHabits = ({ tasks }: Props) => {
       const levelNum = parseInt(level);
       const levelTasks = completedTasks.filter(task => (task.level || 5) === levelNum);
       
-      if (levelTasks.length > 0) {
-        const totalTime = levelTasks.reduce((sum, task) => {
-          if (task.startTime && task.endTime) {
-            return sum + (task.endTime.getTime() - task.startTime.getTime());
-          }
-          return sum;
-        }, 0);
-        averageCompletionTime[levelNum] = totalTime / (levelTasks.length * 3600000); // Convert to hours
+      // Real duration: started (or planned start / creation) -> completed
+      const durations = levelTasks
+        .map(task => {
+          const completedAt = task.progress?.completedAt;
+          const startedAt =
+            task.progress?.startedAt ?? task.startTime ?? task.createdAt;
+          if (!completedAt || !startedAt) return null;
+          return completedAt.getTime() - startedAt.getTime();
+        })
+        .filter((d): d is number => d !== null && d >= 0);
+
+      if (durations.length > 0) {
+        const totalTime = durations.reduce((sum, d) => sum + d, 0);
+        averageCompletionTime[levelNum] = totalTime / (durations.length * 3600000); // Convert to hours
       } else {
         averageCompletionTime[levelNum] = 0;
       }
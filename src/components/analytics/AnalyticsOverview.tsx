@@ -99,6 +99,7 @@ const AnalyticsOverview = ({ tasks }: Props) => {
 
       {activeTimer && (
         <Timer
+          taskId={activeTimer.taskId}
           taskName={activeTimer.taskName}
           endTime={activeTimer.endTime}
           onClose={() => setActiveTimer(null)}
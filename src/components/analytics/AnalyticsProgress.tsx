@@ -1,6 +1,21 @@
-import { useState } from "react";
-import { TaskStatus } from "../../services/taskProgress";
-import type { AggregatedTask } from "../../services/task";
+import { Fragment, type ReactNode, useState } from "react";
+import {
+  TaskStatus,
+  TASK_STATUS_COLORS,
+  TASK_STATUS_LABELS,
+} from "../../services/taskProgress";
+import {
+  type AggregatedTask,
+  type AggregatedChildTask,
+  calculateTaskProgress,
+} from "../../services/task";
+import { auth } from "../../services/auth";
+import {
+  formatMinutes,
+  openMinutesByTask,
+  timeTrackingStore,
+} from "../../services/timeTracking";
+import { useUserStore } from "../../hooks/useUserStore";
 import "../../styles/analytics/AnalyticsProgress.css";
 
 interface Props {
@@ -9,6 +24,19 @@ interface Props {
 
 const AnalyticsProgress = ({ tasks }: Props) => {
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  const tracking = useUserStore(timeTrackingStore, auth.currentUser?.uid);
+  const openMinutes = openMinutesByTask(tracking);
+
+  // tracked on the task and everything below it, open sessions included
+  const timeSpent = (task: AggregatedTask): number =>
+    (task.actualMinutes ?? 0) +
+    (openMinutes[task.id] ?? 0) +
+    (task.children ?? []).reduce((sum, child) => sum + timeSpent(child), 0);
+
+  const formatTimeSpent = (task: AggregatedTask) => {
+    const minutes = timeSpent(task);
+    return minutes >= 1 ? formatMinutes(minutes) : "-";
+  };
 
   const toggleTask = (taskId: string) => {
     const newExpanded = new Set(expandedTasks);
@@ -20,23 +48,6 @@ const AnalyticsProgress = ({ tasks }: Props) => {
     setExpandedTasks(newExpanded);
   };
 
-  const calculateProgress = (task: AggregatedTask): number => {
-    if (task.progress?.status === TaskStatus.COMPLETED) {
-      return 100;
-    }
-
-    if (!task.children || task.children.length === 0) {
-      return 0;
-    }
-
-    const totalChildren = task.children.length;
-    const completedChildren = task.children.filter(
-      (child) => child.progress?.status === TaskStatus.COMPLETED
-    ).length;
-
-    return Math.round((completedChildren / totalChildren) * 100);
-  };
-
   const formatEndTime = (date: Date | undefined): string => {
     if (!date) return "No deadline";
     return date.toLocaleDateString("en-US", {
@@ -46,6 +57,71 @@ const AnalyticsProgress = ({ tasks }: Props) => {
     });
   };
 
+  // nested subtasks expand one level at a time, indented by depth
+  const renderSubtasks = (
+    children: AggregatedChildTask[],
+    depth: number
+  ): ReactNode =>
+    children.map((child) => (
+      <Fragment key={child.id}>
+        <tr
+          className="subtask-row"
+          onClick={() => child.children?.length && toggleTask(child.id)}
+        >
+          <td
+            className="subtask-name"
+            style={{ paddingLeft: `${depth * 1.5}rem` }}
+          >
+            <span className="subtask-indent">└─</span>
+            {child.children?.length ? (
+              <span
+                className={`expand-icon ${
+                  expandedTasks.has(child.id) ? "expanded" : ""
+                }`}
+              >
+                ▶
+              </span>
+            ) : null}
+            {child.taskName}
+          </td>
+          <td className="task-detail">{child.taskDetail || "-"}</td>
+          <td className="task-deadline">
+            {formatEndTime(child.endTime ?? undefined)}
+          </td>
+          <td className="task-progress">
+            <span
+              className={`status-badge ${
+                child.progress?.status === TaskStatus.COMPLETED
+                  ? "completed"
+                  : "in-progress"
+              }`}
+              style={{
+                background:
+                  TASK_STATUS_COLORS[
+                    child.progress?.status ?? TaskStatus.NOT_STARTED
+                  ],
+              }}
+            >
+              {
+                TASK_STATUS_LABELS[
+                  child.progress?.status ?? TaskStatus.NOT_STARTED
+                ]
+              }
+            </span>
+          </td>
+          <td className="task-time">{formatTimeSpent(child)}</td>
+          <td className="task-priority">
+            <span className={`priority-badge level-${child.level || "normal"}`}>
+              {child.level || "Normal"}
+            </span>
+          </td>
+        </tr>
+        {expandedTasks.has(child.id) &&
+          child.children &&
+          renderSubtasks(child.children, depth + 1)}
+      </Fragment>
+    ));
+
   return (
     <div className="analytics-progress">
       <div className="progress-table-container">
@@ -56,6 +132,7 @@ const AnalyticsProgress = ({ tasks }: Props) => {
               <th>Detail</th>
               <th>End Time</th>
               <th>Progress</th>
+              <th>Time Spent</th>
               <th>Priority</th>
             </tr>
           </thead>
@@ -86,17 +163,18 @@ const AnalyticsProgress = ({ tasks }: Props) => {
                       <div
                         className="progress-bar"
                         style={{
-                          width: `${calculateProgress(task)}%`,
+                          width: `${calculateTaskProgress(task)}%`,
                           background:
                             task.progress?.status === TaskStatus.COMPLETED
                               ? "var(--success-gradient)"
                               : "var(--primary-gradient)",
                         }}
                       >
-                        {calculateProgress(task)}%
+                        {calculateTaskProgress(task)}%
                       </div>
                     </div>
                   </td>
+                  <td className="task-time">{formatTimeSpent(task)}</td>
                   <td className="task-priority">
                     <span
                       className={`priority-badge level-${
@@ -107,46 +185,9 @@ const AnalyticsProgress = ({ tasks }: Props) => {
                     </span>
                   </td>
                 </tr>
-                {expandedTasks.has(task.id) && task.children && (
-                  <>
-                    {task.children.map((child) => (
-                      <tr key={child.id} className="subtask-row">
-                        <td className="subtask-name">
-                          <span className="subtask-indent">└─</span>
-                          {child.taskName}
-                        </td>
-                        <td className="task-detail">
-                          {child.taskDetail || "-"}
-                        </td>
-                        <td className="task-deadline">
-                          {formatEndTime(child.endTime ?? undefined)}
-                        </td>
-                        <td className="task-progress">
-                          <span
-                            className={`status-badge ${
-                              child.progress?.status === TaskStatus.COMPLETED
-                                ? "completed"
-                                : "in-progress"
-                            }`}
-                          >
-                            {child.progress?.status === TaskStatus.COMPLETED
-                              ? "Completed"
-                              : "In Progress"}
-                          </span>
-                        </td>
-                        <td className="task-priority">
-                          <span
-                            className={`priority-badge level-${
-                              child.level || "normal"
-                            }`}
-                          >
-                            {child.level || "Normal"}
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
-                  </>
-                )}
+                {expandedTasks.has(task.id) &&
+                  task.children &&
+                  renderSubtasks(task.children, 1)}
               </>
             ))}
           </tbody>
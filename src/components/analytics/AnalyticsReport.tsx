@@ -1,7 +1,9 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   AreaChart,
   Area,
+  BarChart,
+  Bar,
   Line,
   XAxis,
   YAxis,
@@ -12,6 +14,14 @@ import {
 } from "recharts";
 import type { AggregatedTask } from "../../services/task";
 import { TaskStatus } from "../../services/taskProgress";
+import { auth } from "../../services/auth";
+import {
+  formatMinutes,
+  recentDays,
+  timeSpentByDay,
+  timeTrackingStore,
+} from "../../services/timeTracking";
+import { useUserStore } from "../../hooks/useUserStore";
 import "../../styles/analytics/AnalyticsReport.css";
 
 interface WeeklyWorkload {
@@ -34,10 +44,24 @@ interface TaskTrend {
   progress: number;
 }
 
+interface EffortAccuracy {
+  name: string;
+  estimated: number;
+  actual: number;
+  /** actual time as % of the estimate, 100 = spot on */
+  ratio: number;
+}
+
 interface Props {
   tasks: AggregatedTask[];
 }
 
+/** most recently updated tasks shown in the estimate vs actual chart */
+const MAX_ACCURACY_TASKS = 10;
+
+const flattenTasks = (list: AggregatedTask[]): AggregatedTask[] =>
+  list.flatMap((task) => [task, ...flattenTasks(task.children ?? [])]);
+
 const AnalyticsReport = ({ tasks }: Props) => {
   const [dailyStats, setDailyStats] = useState<TimeFrameStats[]>([]);
   const [weeklyStats, setWeeklyStats] = useState<TimeFrameStats>();
@@ -47,6 +71,50 @@ const AnalyticsReport = ({ tasks }: Props) => {
   const [taskTrends, setTaskTrends] = useState<TaskTrend[]>([]);
   const [weeklyWorkload, setWeeklyWorkload] = useState<WeeklyWorkload[]>([]);
   const [todayStats, setTodayStats] = useState<TimeFrameStats>();
+  const tracking = useUserStore(timeTrackingStore, auth.currentUser?.uid);
+
+  // timer sessions of the shown tasks (and their subtasks) per day
+  const timeByDay = useMemo(() => {
+    const now = new Date();
+    const ids = new Set(flattenTasks(tasks).map((task) => task.id));
+    return recentDays(timeSpentByDay(tracking, now, ids), 7, now).map(
+      ({ date, minutes }) => ({
+        day: date.toLocaleDateString("en-US", { weekday: "short" }),
+        minutes,
+      })
+    );
+  }, [tracking, tasks]);
+  const weekMinutes = timeByDay.reduce((sum, d) => sum + d.minutes, 0);
+
+  // tasks and subtasks with both an estimate and tracked time
+  const effortAccuracy = useMemo<EffortAccuracy[]>(
+    () =>
+      flattenTasks(tasks)
+        .filter((task) => task.estimatedMinutes && task.actualMinutes)
+        .sort(
+          (a, b) =>
+            (b.progress?.updatedAt.getTime() ?? 0) -
+            (a.progress?.updatedAt.getTime() ?? 0)
+        )
+        .slice(0, MAX_ACCURACY_TASKS)
+        .reverse()
+        .map((task) => ({
+          name: task.taskName,
+          estimated: task.estimatedMinutes!,
+          actual: task.actualMinutes!,
+          ratio: Math.round(
+            (task.actualMinutes! / task.estimatedMinutes!) * 100
+          ),
+        })),
+    [tasks]
+  );
+  const overallRatio = effortAccuracy.length
+    ? Math.round(
+        (effortAccuracy.reduce((sum, t) => sum + t.actual, 0) /
+          effortAccuracy.reduce((sum, t) => sum + t.estimated, 0)) *
+          100
+      )
+    : null;
 
   useEffect(() => {
     console.log("Input tasks:", tasks);
@@ -109,9 +177,16 @@ const AnalyticsReport = ({ tasks }: Props) => {
 
       // Process each parent task
       parentTasks.forEach((task) => {
-        if (task.startTime && task.endTime) {
-          const taskStart = new Date(task.startTime);
-          const taskEnd = new Date(task.endTime);
+        // planned window, else the time it was actually worked on
+        const spanStart = task.startTime ?? task.progress?.startedAt;
+        const spanEnd =
+          task.endTime ??
+          (task.progress?.startedAt
+            ? task.progress.completedAt ?? now
+            : undefined);
+        if (spanStart && spanEnd) {
+          const taskStart = new Date(spanStart);
+          const taskEnd = new Date(spanEnd);
 
           // Check if task falls within this week
           if (taskStart <= endOfWeek && taskEnd >= startOfWeek) {
@@ -129,14 +204,15 @@ const AnalyticsReport = ({ tasks }: Props) => {
               currentDay.setDate(currentDay.getDate() + 1);
             }
           }
+        }
 
-          // Check completed tasks using completedAt instead of updatedAt
-          if (task.progress?.status === TaskStatus.COMPLETED) {
-            const completedDate = new Date(task.progress.completedAt!);
-            if (completedDate >= startOfWeek && completedDate <= endOfWeek) {
-              const completedDayIndex = completedDate.getDay();
-              workload[completedDayIndex].completedTasks += 1;
-            }
+        // Completed on the day it was actually completed (completed_at)
+        const completedAt = task.progress?.completedAt;
+        if (task.progress?.status === TaskStatus.COMPLETED && completedAt) {
+          const completedDate = new Date(completedAt);
+          if (completedDate >= startOfWeek && completedDate <= endOfWeek) {
+            const completedDayIndex = completedDate.getDay();
+            workload[completedDayIndex].completedTasks += 1;
           }
         }
       });
@@ -405,6 +481,84 @@ const AnalyticsReport = ({ tasks }: Props) => {
             </ResponsiveContainer>
           </div>
         </div>
+
+        {/* Time Spent Chart */}
+        <div className="chart-section">
+          <h3>Time Spent · Last 7 Days</h3>
+          <p className="accuracy-summary">
+            <strong>{formatMinutes(weekMinutes)}</strong> tracked with the timer
+            this week
+          </p>
+          <div className="chart-wrapper">
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={timeByDay}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" />
+                <YAxis
+                  label={{
+                    value: "Minutes",
+                    angle: -90,
+                    position: "insideLeft",
+                  }}
+                />
+                <Tooltip formatter={(value) => formatMinutes(Number(value))} />
+                <Bar dataKey="minutes" fill="#6366f1" name="Time spent" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Estimated vs Actual Effort Chart */}
+        <div className="chart-section">
+          <h3>Estimate Accuracy</h3>
+          {overallRatio === null ? (
+            <p className="accuracy-empty">
+              Estimate a task's effort and track it with the timer to compare
+              the two here.
+            </p>
+          ) : (
+            <>
+              <p className="accuracy-summary">
+                Work took <strong>{overallRatio}%</strong> of the estimated time
+                {overallRatio > 110
+                  ? " — estimates run short"
+                  : overallRatio < 90
+                  ? " — estimates run long"
+                  : " — estimates are on target"}
+              </p>
+              <div className="chart-wrapper">
+                <ResponsiveContainer width="100%" height={320}>
+                  <BarChart data={effortAccuracy}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis
+                      label={{
+                        value: "Minutes",
+                        angle: -90,
+                        position: "insideLeft",
+                      }}
+                    />
+                    <Tooltip
+                      content={({ payload, label }) => (
+                        <div className="custom-tooltip">
+                          <p className="time-slot">{label}</p>
+                          <p>
+                            Estimated: {payload?.[0]?.payload.estimated} min
+                          </p>
+                          <p>Actual: {payload?.[0]?.payload.actual} min</p>
+                          <p>Accuracy: {payload?.[0]?.payload.ratio}%</p>
+                        </div>
+                      )}
+                    />
+                    <Legend />
+                    <Bar dataKey="estimated" fill="#8884d8" name="Estimated" />
+                    <Bar dataKey="actual" fill="#ff7300" name="Actual" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Daily Performance Chart */}
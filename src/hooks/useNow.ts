@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+/** current time, refreshed on start and every `intervalMs` while `running` */
+export const useNow = (running: boolean, intervalMs = 1000) => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!running) return;
+    setNow(new Date());
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [running, intervalMs]);
+  return now;
+};
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { type TaskItem } from "../services/firestore";
+import { TaskStatus } from "../services/taskProgress";
+import {
+  type ViewFilter,
+  isEmptyViewFilter,
+  matchesViewFilter,
+} from "../services/savedViews";
+import { collectTagIds } from "../services/tags";
+import {
+  collectDescendants,
+  selectChildren,
+  selectProgress,
+} from "../services/taskStore";
+import { useTaskStore } from "./useTaskStore";
+
+/** `tasks` matching `filter`, a tag on any subtask counts for its task */
+export const useViewFilteredTasks = (tasks: TaskItem[], filter: ViewFilter) => {
+  const children = useTaskStore(selectChildren);
+  const progress = useTaskStore(selectProgress);
+  return useMemo(() => {
+    if (isEmptyViewFilter(filter)) return tasks;
+    return tasks.filter((task) =>
+      matchesViewFilter(
+        task,
+        filter,
+        progress[task.id]?.task_status || TaskStatus.NOT_STARTED,
+        collectTagIds([task, ...collectDescendants(children, task.id)])
+      )
+    );
+  }, [tasks, filter, children, progress]);
+};
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  TaskStatus,
+  requiresReason,
+  validateTransition,
+} from "../services/taskProgress";
+import {
+  cancelTask,
+  dependencyError,
+  getTaskStoreState,
+  selectOpenChildrenOf,
+  selectStatusOf,
+  setTaskStatus,
+} from "../services/taskStore";
+
+/**
+ * Status changes from the UI: checks the transition and the task's
+ * dependencies, asks for a reason (via StatusReasonModal) when the target
+ * status needs one, offers to cascade a cancel to open subtasks
+ * (via CancelCascadeModal), then saves.
+ */
+export const useStatusChange = (
+  onChanged?: (taskId: string, status: TaskStatus) => void
+) => {
+  const [pending, setPending] = useState<{
+    taskId: string;
+    status: TaskStatus;
+  } | null>(null);
+  const [cascade, setCascade] = useState<{
+    taskId: string;
+    childCount: number;
+  } | null>(null);
+  // latest callback without making changeStatus unstable
+  const onChangedRef = useRef(onChanged);
+  useEffect(() => {
+    onChangedRef.current = onChanged;
+  });
+
+  const apply = useCallback(
+    async (
+      taskId: string,
+      status: TaskStatus,
+      reason?: string
+    ): Promise<boolean> => {
+      const store = getTaskStoreState();
+      const current = selectStatusOf(store, taskId) ?? TaskStatus.NOT_STARTED;
+      const error =
+        validateTransition(current, status, reason) ??
+        dependencyError(store, taskId, status);
+      if (error) {
+        toast.error(error);
+        return false;
+      }
+      try {
+        await setTaskStatus(taskId, status, reason);
+        onChangedRef.current?.(taskId, status);
+        return true;
+      } catch (err) {
+        console.error(err);
+        toast.error("Unable to update status");
+        return false;
+      }
+    },
+    []
+  );
+
+  const changeStatus = useCallback(
+    (taskId: string, status: TaskStatus) => {
+      if (requiresReason(status)) {
+        setPending({ taskId, status });
+        return;
+      }
+      if (status === TaskStatus.CANCELLED) {
+        const open = selectOpenChildrenOf(getTaskStoreState(), taskId);
+        if (open.length > 0) {
+          setCascade({ taskId, childCount: open.length });
+          return;
+        }
+      }
+      void apply(taskId, status);
+    },
+    [apply]
+  );
+
+  const confirmCascade = async (withChildren: boolean) => {
+    if (!cascade) return;
+    const { taskId } = cascade;
+    setCascade(null);
+    try {
+      await cancelTask(taskId, withChildren);
+      onChangedRef.current?.(taskId, TaskStatus.CANCELLED);
+    } catch (err) {
+      console.error(err);
+      toast.error("Unable to cancel task");
+    }
+  };
+
+  const confirmReason = async (reason: string) => {
+    if (!pending) return;
+    if (await apply(pending.taskId, pending.status, reason)) setPending(null);
+  };
+
+  return {
+    changeStatus,
+    /** pass to StatusReasonModal */
+    reasonPrompt: {
+      status: pending?.status ?? null,
+      onConfirm: confirmReason,
+      onCancel: () => setPending(null),
+    },
+    /** pass to CancelCascadeModal */
+    cascadePrompt: {
+      childCount: cascade?.childCount ?? 0,
+      open: cascade !== null,
+      onCascade: () => confirmCascade(true),
+      onParentOnly: () => confirmCascade(false),
+      onCancel: () => setCascade(null),
+    },
+  };
+};
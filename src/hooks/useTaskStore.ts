@@ -0,0 +1,44 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  connectTaskStore,
+  getTaskStoreState,
+  subscribeTaskStore,
+  type TaskStoreState,
+} from "../services/taskStore";
+
+const selectAll = (s: TaskStoreState) => s;
+
+/**
+ * Live tasks / subtasks / progress of the signed-in user.
+ * Pass a selector (see `services/taskStore`) to re-render only when the
+ * selected slice changes; its result is cached per store snapshot.
+ */
+export function useTaskStore(): TaskStoreState;
+export function useTaskStore<T>(selector: (s: TaskStoreState) => T): T;
+export function useTaskStore<T>(
+  selector: (s: TaskStoreState) => T = selectAll as (s: TaskStoreState) => T
+): T {
+  useEffect(() => {
+    connectTaskStore();
+  }, []);
+
+  const cache = useRef<{
+    state: TaskStoreState;
+    selector: (s: TaskStoreState) => T;
+    value: T;
+  } | null>(null);
+
+  const getSnapshot = () => {
+    const current = getTaskStoreState();
+    if (
+      !cache.current ||
+      cache.current.state !== current ||
+      cache.current.selector !== selector
+    ) {
+      cache.current = { state: current, selector, value: selector(current) };
+    }
+    return cache.current.value;
+  };
+
+  return useSyncExternalStore(subscribeTaskStore, getSnapshot);
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import {
+  getSyncSnapshot,
+  subscribeSyncStatus,
+  type TaskSyncInfo,
+} from "../services/syncStatus";
+
+/** taskId -> pending/failed sync info for writes queued while offline */
+export const useTaskSyncStatus = (): Record<string, TaskSyncInfo> =>
+  useSyncExternalStore(subscribeSyncStatus, getSyncSnapshot);
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from "react";
+import type { UserStore } from "../services/userStore";
+
+/** value of a per-user store (see userStore.ts) for `uid` */
+export const useUserStore = <T>(
+  store: UserStore<T>,
+  uid: string | null | undefined
+) =>
+  useSyncExternalStore(
+    useCallback(
+      (listener: () => void) => store.subscribe(uid, listener),
+      [store, uid]
+    ),
+    useCallback(() => store.get(uid), [store, uid])
+  );
@@ -1,18 +1,17 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion, type Variants } from "framer-motion";
-import { auth, loginWithGoogle } from "../services/firebase";
+import { type AppUser, login, subscribeAuth } from "../services/auth";
 import { createUserIfNotExists } from "../services/firestore";
-import { onAuthStateChanged, type User } from "firebase/auth";
 import { toast } from "react-toastify";
 import "../styles/About.css";
 
 const AboutPage: React.FC = () => {
   const navigate = useNavigate();
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AppUser | null>(null);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+    const unsubscribe = subscribeAuth(async (currentUser) => {
       setUser(currentUser);
       if (currentUser) {
         try {
@@ -37,7 +36,7 @@ const AboutPage: React.FC = () => {
         return;
       }
 
-      const loggedInUser = await loginWithGoogle();
+      const loggedInUser = await login();
       if (loggedInUser) {
         await createUserIfNotExists(
           loggedInUser.uid,
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   Calendar,
   momentLocalizer,
@@ -7,19 +7,80 @@ import {
   type View,
   type Event,
 } from "react-big-calendar";
+import withDragAndDrop, {
+  type EventInteractionArgs,
+} from "react-big-calendar/lib/addons/dragAndDrop";
 import moment from "moment";
 import "react-big-calendar/lib/css/react-big-calendar.css";
+import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
 import "../styles/CalendarPage.css";
-import { auth } from "../services/firebase";
-import { getTasksWithLevelsByUser } from "../services/firestore";
+import { auth } from "../services/auth";
 import CreateEditTaskModal from "../components/CreateEditTaskModal";
 import { toast } from "react-toastify";
 import UserHeader from "../components/UserHeader";
 import TaskActions from "../components/TaskActions";
-import { getMultipleTaskProgress, TaskStatus } from "../services/taskProgress";
+import { TaskStatus } from "../services/taskProgress";
+import { expandOccurrences } from "../services/recurrence";
+import {
+  getCriticalPath,
+  getUnmetDependencies,
+} from "../services/dependencies";
+import {
+  COURSE_FILTER_ALL,
+  courseLabel,
+  matchesCourseFilter,
+} from "../services/courses";
+import {
+  type TimeSlot,
+  expandClassSessions,
+  findFreeSlots,
+  totalMinutes,
+} from "../services/timetable";
+import { type TaskWindow } from "../services/reschedule";
+import {
+  type ProposedBlock,
+  type ScheduleResult,
+  collectBusySlots,
+  proposeSchedule,
+  unscheduledTasks,
+} from "../services/scheduler";
+import {
+  acceptBlocks,
+  plannedMinutesByTask,
+  pruneWorkPlan,
+  removeBlock,
+  saveWorkingHours,
+  workPlanStore,
+  workingHoursStore,
+} from "../services/workPlan";
+import {
+  rescheduleTask,
+  selectAllNodes,
+  selectClassSessions,
+  selectCourses,
+  selectIsReady,
+  selectProgress,
+  selectSchedule,
+  selectSemesters,
+  selectTasks,
+} from "../services/taskStore";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useUserStore } from "../hooks/useUserStore";
+import CourseSelect from "../components/CourseSelect";
+import TimetableModal from "../components/TimetableModal";
+import IcsExportModal from "../components/IcsExportModal";
+import IcsImportModal from "../components/IcsImportModal";
+import SchedulePanel from "../components/SchedulePanel";
+import ConfirmModal from "../components/ConfirmModal";
 
 const localizer = momentLocalizer(moment);
 
+/** moves kept for the Undo button */
+const MAX_UNDO = 20;
+
+/** choices of the working hours picker, 0:00 to 24:00 */
+const HOUR_OPTIONS = Array.from({ length: 25 }, (_, h) => h);
+
 interface CalendarEvent extends Event {
   id: string;
   title: string;
@@ -27,61 +88,356 @@ interface CalendarEvent extends Event {
   end: Date;
   allDay: boolean;
   level?: number;
+  /** set on the generated occurrences of a repeating task */
+  seriesId?: string;
+  /** set on subtasks */
+  parentId?: string;
+  /** no dates of its own, drawn at the current time */
+  undated?: boolean;
+  /** waits for unfinished dependencies */
+  blocked?: boolean;
+  /** late work on its critical path pushes the end time */
+  atRisk?: boolean;
+  courseColor?: string;
+  /** background block of the class timetable */
+  classSession?: boolean;
+  room?: string;
+  /** work block of the auto-scheduler, accepted or still proposed */
+  block?: "planned" | "tentative";
 }
 
 interface EventProps {
   event: CalendarEvent;
 }
 
+/** previous window of a dragged task, for undo */
+interface MoveRecord {
+  taskId: string;
+  title: string;
+  previous: TaskWindow;
+}
+
+const DnDCalendar = withDragAndDrop<CalendarEvent>(Calendar);
+
+/**
+ * occurrences follow their series, classes are not tasks and an undated
+ * task has no window a move could be undone to
+ */
+const isMovable = (event: CalendarEvent) =>
+  !event.seriesId && !event.classSession && !event.block && !event.undated;
+
+/** a drop on the all-day row covers whole days, like full-day tasks */
+const toTaskWindow = (start: Date, end: Date, allDay: boolean): TaskWindow => {
+  if (!allDay) return { start, end };
+  // the calendar reports the end of all-day events as the next midnight
+  const last = end > start ? moment(end).subtract(1, "minute") : moment(start);
+  return {
+    start: moment(start).startOf("day").toDate(),
+    end: last.set({ hour: 23, minute: 59, second: 0, millisecond: 0 }).toDate(),
+  };
+};
+
 const CalendarPage: React.FC = () => {
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [modalOpen, setModalOpen] = useState(false);
   const [defaultStart, setDefaultStart] = useState<Date | undefined>(undefined);
   const [defaultEnd, setDefaultEnd] = useState<Date | undefined>(undefined);
   const [currentView, setCurrentView] = useState<View>(Views.MONTH);
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
+  const [courseFilter, setCourseFilter] = useState(COURSE_FILTER_ALL);
+  const [timetableOpen, setTimetableOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  const [undoStack, setUndoStack] = useState<MoveRecord[]>([]);
+  const [proposal, setProposal] = useState<ScheduleResult | null>(null);
+  const [rejected, setRejected] = useState<TimeSlot[]>([]);
+  const [toUnplan, setToUnplan] = useState<CalendarEvent | null>(null);
 
-  const loadTasks = useCallback(async () => {
-    if (!auth.currentUser) return;
-    try {
-      const tasks = await getTasksWithLevelsByUser(auth.currentUser.uid);
+  const tasks = useTaskStore(selectTasks);
+  const progress = useTaskStore(selectProgress);
+  const nodes = useTaskStore(selectAllNodes);
+  const schedule = useTaskStore(selectSchedule);
+  const courses = useTaskStore(selectCourses);
+  const semesters = useTaskStore(selectSemesters);
+  const classSessions = useTaskStore(selectClassSessions);
+  const ready = useTaskStore(selectIsReady);
+  const uid = auth.currentUser?.uid;
+  const workPlan = useUserStore(workPlanStore, uid);
+  const hours = useUserStore(workingHoursStore, uid);
+
+  const events = useMemo<CalendarEvent[]>(() => {
+    // Only show tasks (and occurrences) not completed or cancelled
+    const isOpen = (id: string) => {
+      const status = progress[id]?.task_status;
+      return (
+        !status || // Include tasks without status
+        (status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED)
+      );
+    };
+    // occurrences are generated for the displayed month plus some margin
+    // (week / agenda views can spill into the neighbouring months)
+    const rangeStart = moment(currentDate)
+      .startOf("month")
+      .subtract(1, "week")
+      .toDate();
+    const rangeEnd = moment(currentDate)
+      .endOf("month")
+      .add(5, "weeks")
+      .toDate();
 
-      // Get progress of all tasks
-      const taskProgressMap = await getMultipleTaskProgress(
-        tasks.map((task) => task.id)
+    const courseColors = Object.fromEntries(
+      courses.map((c) => [c.id, c.color])
+    );
+    const flags = (taskId: string) => ({
+      blocked: getUnmetDependencies(nodes, progress, taskId).length > 0,
+      atRisk: getCriticalPath(schedule, taskId).culprits.length > 0,
+    });
+
+    const taskEvents = tasks
+      .filter(
+        (task) =>
+          isOpen(task.id) && matchesCourseFilter(task.course_id, courseFilter)
+      )
+      .flatMap((task): CalendarEvent[] =>
+        task.recurrence
+          ? expandOccurrences(task, rangeStart, rangeEnd)
+              .filter((o) => isOpen(o.id))
+              .map((o) => ({
+                id: o.id,
+                title: `🔁 ${task.task_name}`,
+                start: o.start,
+                end: o.end,
+                allDay: false,
+                level: task.level,
+                seriesId: task.id,
+                courseColor: task.course_id
+                  ? courseColors[task.course_id]
+                  : undefined,
+                ...flags(task.id),
+              }))
+          : [
+              {
+                id: task.id,
+                title: task.task_name,
+                start: task.start_time ?? new Date(),
+                end: task.end_time ?? new Date(),
+                allDay: false,
+                undated: !task.start_time || !task.end_time,
+                level: task.level,
+                courseColor: task.course_id
+                  ? courseColors[task.course_id]
+                  : undefined,
+                ...flags(task.id),
+              },
+            ]
       );
+    if (!showSubtasks) return taskEvents;
 
-      const calendarEvents = tasks
-        .filter((task) => {
-          // Check status from taskProgress
-          const progress = taskProgressMap[task.id];
-          const status = progress?.task_status;
-
-          // Only show tasks not completed or cancelled
-          return (
-            !status || // Include tasks without status
-            (status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED)
-          );
-        })
-        .map((task) => ({
-          id: task.id,
-          title: task.task_name,
-          start: task.start_time ?? new Date(),
-          end: task.end_time ?? new Date(),
+    // subtasks take the course of their top-level task
+    const byId = Object.fromEntries(nodes.map((n) => [n.id, n]));
+    const rootOf = (id: string) => {
+      let node = byId[id];
+      while (node?.parent_id && byId[node.parent_id]) {
+        node = byId[node.parent_id];
+      }
+      return node;
+    };
+    const subtaskEvents = nodes
+      .filter((node) => {
+        const courseId = node.parent_id ? rootOf(node.id)?.course_id : null;
+        return (
+          node.parent_id &&
+          node.start_time &&
+          node.end_time &&
+          isOpen(node.id) &&
+          matchesCourseFilter(courseId, courseFilter)
+        );
+      })
+      .map((node) => {
+        const courseId = rootOf(node.id)?.course_id;
+        return {
+          id: node.id,
+          title: `↳ ${node.task_name}`,
+          start: node.start_time!,
+          end: node.end_time!,
           allDay: false,
-          level: task.level,
-        }));
+          level: node.level,
+          parentId: node.parent_id!,
+          courseColor: courseId ? courseColors[courseId] : undefined,
+          ...flags(node.id),
+        };
+      });
+    return [...taskEvents, ...subtaskEvents];
+  }, [
+    tasks,
+    nodes,
+    progress,
+    schedule,
+    courses,
+    courseFilter,
+    currentDate,
+    showSubtasks,
+  ]);
 
-      setEvents(calendarEvents);
-    } catch (error) {
-      console.error("Failed to load tasks:", error);
-      toast.error("Failed to load task list");
-    }
-  }, []);
+  // displayed range; the timetable layer only shows in week / day views
+  const visibleRange = useMemo(() => {
+    const unit =
+      currentView === Views.DAY
+        ? "day"
+        : currentView === Views.WEEK
+          ? "week"
+          : "month";
+    return {
+      unit,
+      start: moment(currentDate).startOf(unit).toDate(),
+      end: moment(currentDate).endOf(unit).toDate(),
+    };
+  }, [currentView, currentDate]);
 
+  const classEvents = useMemo<CalendarEvent[]>(() => {
+    const sessions = classSessions.filter((s) =>
+      matchesCourseFilter(s.course_id, courseFilter)
+    );
+    return expandClassSessions(
+      sessions,
+      visibleRange.start,
+      visibleRange.end,
+      courses,
+      semesters
+    ).map(({ session, start, end }) => {
+      const course = courses.find((c) => c.id === session.course_id);
+      return {
+        id: `class_${session.id}_${start.getTime()}`,
+        title: course ? courseLabel(course) : "Class",
+        start,
+        end,
+        allDay: false,
+        courseColor: course?.color,
+        classSession: true,
+        room: session.room,
+      };
+    });
+  }, [classSessions, courses, semesters, courseFilter, visibleRange]);
+
+  const taskNames = useMemo(
+    () => Object.fromEntries(nodes.map((n) => [n.id, n.task_name])),
+    [nodes]
+  );
+
+  const openTaskIds = useMemo(
+    () =>
+      new Set(
+        nodes
+          .filter((n) => {
+            const status = progress[n.id]?.task_status;
+            return (
+              status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED
+            );
+          })
+          .map((n) => n.id)
+      ),
+    [nodes, progress]
+  );
+
+  // blocks of deleted, completed or cancelled tasks leave the plan
   useEffect(() => {
-    loadTasks();
-  }, [loadTasks]);
+    if (uid && ready) pruneWorkPlan(uid, openTaskIds);
+  }, [uid, ready, openTaskIds]);
+
+  // nor are they shown while the store is still loading
+  const plannedEvents = useMemo<CalendarEvent[]>(() => {
+    return workPlan
+      .filter((b) => openTaskIds.has(b.task_id))
+      .map((b) => ({
+        id: b.id,
+        title: `🗓 ${taskNames[b.task_id]}`,
+        start: b.start,
+        end: b.end,
+        allDay: false,
+        level: nodes.find((n) => n.id === b.task_id)?.level,
+        block: "planned",
+      }));
+  }, [workPlan, nodes, openTaskIds, taskNames]);
+
+  const tentativeEvents = useMemo<CalendarEvent[]>(
+    () =>
+      (proposal?.blocks ?? []).map((b) => ({
+        id: b.id,
+        title: `✨ ${taskNames[b.task_id] ?? "Task"}`,
+        start: b.start,
+        end: b.end,
+        allDay: false,
+        level: nodes.find((n) => n.id === b.task_id)?.level,
+        block: "tentative",
+      })),
+    [proposal, nodes, taskNames]
+  );
+
+  const calendarEvents = useMemo(
+    () => [...events, ...plannedEvents, ...tentativeEvents],
+    [events, plannedEvents, tentativeEvents]
+  );
+
+  const runScheduler = useCallback(
+    (skip: TimeSlot[]) => {
+      const now = new Date();
+      const candidates = unscheduledTasks(nodes, progress, now);
+      if (candidates.length === 0) {
+        toast.info("No open task with an upcoming deadline to schedule");
+        setProposal(null);
+        return;
+      }
+      const until = new Date(
+        Math.max(...candidates.map((t) => t.end_time!.getTime()))
+      );
+      const busy = collectBusySlots(
+        {
+          nodes,
+          progress,
+          classSessions,
+          courses,
+          semesters,
+          planned: workPlan,
+        },
+        now,
+        until
+      );
+      const result = proposeSchedule(
+        candidates,
+        // rejected blocks stay off-limits for this round
+        [...busy, ...skip],
+        plannedMinutesByTask(workPlan, now),
+        { now, hours }
+      );
+      if (result.blocks.length === 0 && result.unplaced.length === 0) {
+        toast.info("Every deadline already has enough time booked");
+      }
+      setProposal(result);
+    },
+    [nodes, progress, classSessions, courses, semesters, workPlan, hours]
+  );
+
+  const acceptProposed = (blocks: ProposedBlock[]) => {
+    if (!uid || !proposal) return;
+    acceptBlocks(uid, blocks);
+    const accepted = new Set(blocks.map((b) => b.id));
+    const left = proposal.blocks.filter((b) => !accepted.has(b.id));
+    setProposal(left.length > 0 ? { ...proposal, blocks: left } : null);
+    toast.success(`${blocks.length} work blocks added to your calendar`);
+  };
+
+  const rejectProposed = (block: ProposedBlock) => {
+    if (!proposal) return;
+    setRejected([...rejected, block]);
+    setProposal({
+      ...proposal,
+      blocks: proposal.blocks.filter((b) => b.id !== block.id),
+    });
+  };
+
+  const handleSelectEvent = useCallback((event: CalendarEvent) => {
+    if (event.block === "planned") setToUnplan(event);
+  }, []);
 
   const handleSelectSlot = useCallback((slotInfo: SlotInfo) => {
     try {
@@ -108,6 +464,71 @@ const CalendarPage: React.FC = () => {
     }
   }, []);
 
+  const undoMove = useCallback(async (record: MoveRecord) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    setUndoStack((stack) => stack.filter((r) => r !== record));
+    try {
+      await rescheduleTask(uid, record.taskId, record.previous);
+      toast.info(`"${record.title}" moved back`);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Unable to undo");
+    }
+  }, []);
+
+  // drag (move) and resize both land here
+  const handleEventChange = useCallback(
+    async ({
+      event,
+      start,
+      end,
+      isAllDay,
+    }: EventInteractionArgs<CalendarEvent>) => {
+      const uid = auth.currentUser?.uid;
+      if (!uid) {
+        toast.error("You are not logged in");
+        return;
+      }
+      const next = toTaskWindow(new Date(start), new Date(end), !!isAllDay);
+      if (
+        next.start.getTime() === event.start.getTime() &&
+        next.end.getTime() === event.end.getTime()
+      ) {
+        return;
+      }
+      const record: MoveRecord = {
+        taskId: event.id,
+        title: event.title,
+        previous: { start: event.start, end: event.end },
+      };
+      try {
+        await rescheduleTask(uid, event.id, next);
+        setUndoStack((stack) => [...stack.slice(1 - MAX_UNDO), record]);
+        toast.success(({ closeToast }) => (
+          <span>
+            "{event.title}" rescheduled{" "}
+            <button
+              className="toast-undo"
+              onClick={() => {
+                closeToast();
+                undoMove(record);
+              }}
+            >
+              Undo
+            </button>
+          </span>
+        ));
+      } catch (err) {
+        console.error(err);
+        toast.error(
+          err instanceof Error ? err.message : "Unable to reschedule task"
+        );
+      }
+    },
+    [undoMove]
+  );
+
   const levelColors: Record<number, string> = {
     5: "#2ecc71",
     4: "#27ae60",
@@ -126,10 +547,58 @@ const CalendarPage: React.FC = () => {
     );
   }, []);
 
+  // busy = every class plus the shown tasks timed within a single day
+  // (multi-day tasks are deadlines rather than blocks of work)
+  const freeMinutes = useMemo(() => {
+    const classes = expandClassSessions(
+      classSessions,
+      visibleRange.start,
+      visibleRange.end,
+      courses,
+      semesters
+    );
+    const blocks = [...events, ...plannedEvents].filter(
+      (e) => !isFullDayEvent(e) && moment(e.start).isSame(e.end, "day")
+    );
+    return totalMinutes(
+      findFreeSlots(
+        [...classes, ...blocks],
+        visibleRange.start,
+        visibleRange.end,
+        hours
+      )
+    );
+  }, [
+    classSessions,
+    courses,
+    semesters,
+    events,
+    plannedEvents,
+    visibleRange,
+    isFullDayEvent,
+    hours,
+  ]);
+
   const eventPropGetter = useCallback(
     (event: CalendarEvent) => {
+      if (event.classSession) {
+        return {
+          className: "class-session",
+          style: { backgroundColor: event.courseColor ?? "#a0aec0" },
+        };
+      }
       const level = Number(event.level ?? 0);
       const color = levelColors[level] || "#3498db";
+      if (event.block) {
+        return {
+          className: `event-base work-block ${event.block}`,
+          style: {
+            backgroundColor: event.block === "planned" ? color : "transparent",
+            borderColor: color,
+            color: event.block === "planned" ? "#fff" : "#2c3e50",
+          },
+        };
+      }
       const isFullDay = isFullDayEvent(event);
       const currentDateMoment = moment(currentDate);
       const isStart = currentDateMoment.isSame(event.start, "day");
@@ -145,11 +614,18 @@ const CalendarPage: React.FC = () => {
       else if (isStart) className = "start-day";
       else if (isEnd) className = "end-day";
 
+      if (event.blocked) className += " blocked";
+      if (event.atRisk) className += " at-risk";
+
       return {
         className: `event-base ${className}`,
         style: {
           backgroundColor: isFullDay ? "transparent" : color,
           borderColor: color,
+          // course color as a stripe, the fill stays the priority color
+          ...(event.courseColor && {
+            borderLeft: `4px solid ${event.courseColor}`,
+          }),
           color: isFullDay ? "#2c3e50" : "#fff",
         },
       };
@@ -160,7 +636,18 @@ const CalendarPage: React.FC = () => {
   const EventComponent = useCallback(({ event }: EventProps) => {
     return (
       <div className="event-content">
+        {event.blocked && (
+          <span className="event-flag" title="Blocked by unfinished tasks">
+            ⛓️
+          </span>
+        )}
+        {event.atRisk && (
+          <span className="event-flag" title="Late subtasks push the deadline">
+            🔥
+          </span>
+        )}
         <span className="event-title">{event.title}</span>
+        {event.room && <span className="class-room">{event.room}</span>}
       </div>
     );
   }, []);
@@ -172,10 +659,110 @@ const CalendarPage: React.FC = () => {
         photoURL={auth.currentUser?.photoURL || ""}
       />
       <h1> 📅 Your Calendar</h1>
-      <TaskActions onCreate={() => setModalOpen(true)} onReload={loadTasks} />
-      <Calendar<CalendarEvent>
+      <TaskActions onCreate={() => setModalOpen(true)} />
+      <div className="calendar-filters">
+        <span
+          className="free-time"
+          title={`Between ${hours.from}:00 and ${hours.to}:00`}
+        >
+          🕒 Free this {visibleRange.unit}: {Math.floor(freeMinutes / 60)}h{" "}
+          {freeMinutes % 60}m
+        </span>
+        <label
+          className="calendar-toggle"
+          title="Used for free time and auto-schedule"
+        >
+          Hours
+          <select
+            value={hours.from}
+            onChange={(e) =>
+              uid && saveWorkingHours(uid, { from: Number(e.target.value) })
+            }
+          >
+            {HOUR_OPTIONS.filter((h) => h < hours.to).map((h) => (
+              <option key={h} value={h}>
+                {h}:00
+              </option>
+            ))}
+          </select>
+          –
+          <select
+            value={hours.to}
+            onChange={(e) =>
+              uid && saveWorkingHours(uid, { to: Number(e.target.value) })
+            }
+          >
+            {HOUR_OPTIONS.filter((h) => h > hours.from).map((h) => (
+              <option key={h} value={h}>
+                {h}:00
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="calendar-tool"
+          onClick={() => setTimetableOpen(true)}
+        >
+          🏫 Timetable
+        </button>
+        <button className="calendar-tool" onClick={() => setExportOpen(true)}>
+          ⬇️ Export .ics
+        </button>
+        <button className="calendar-tool" onClick={() => setImportOpen(true)}>
+          ⬆️ Import .ics
+        </button>
+        <button
+          className="calendar-tool"
+          onClick={() => {
+            setRejected([]);
+            runScheduler([]);
+          }}
+          title="Propose work blocks before each deadline"
+        >
+          🧠 Auto-schedule
+        </button>
+        <button
+          className="calendar-tool"
+          onClick={() => undoMove(undoStack[undoStack.length - 1])}
+          disabled={undoStack.length === 0}
+          title="Undo the last drag or resize"
+        >
+          ↩️ Undo
+        </button>
+        <label className="calendar-toggle">
+          <input
+            type="checkbox"
+            checked={showSubtasks}
+            onChange={(e) => setShowSubtasks(e.target.checked)}
+          />
+          Subtasks
+        </label>
+        <label htmlFor="calendarCourse">Course:</label>
+        <CourseSelect
+          id="calendarCourse"
+          value={courseFilter}
+          onChange={setCourseFilter}
+          filter
+        />
+      </div>
+      {proposal && (
+        <SchedulePanel
+          proposal={proposal}
+          names={taskNames}
+          onAccept={(block) => acceptProposed([block])}
+          onReject={rejectProposed}
+          onAcceptAll={() => acceptProposed(proposal.blocks)}
+          onRerun={() => runScheduler(rejected)}
+          onDiscard={() => {
+            setProposal(null);
+            setRejected([]);
+          }}
+        />
+      )}
+      <DnDCalendar
         localizer={localizer}
-        events={events}
+        events={calendarEvents}
+        backgroundEvents={classEvents}
         startAccessor="start"
         endAccessor="end"
         view={currentView}
@@ -187,6 +774,12 @@ const CalendarPage: React.FC = () => {
         style={{ height: 600 }}
         selectable
         onSelectSlot={handleSelectSlot}
+        onSelectEvent={handleSelectEvent}
+        draggableAccessor={isMovable}
+        resizableAccessor={isMovable}
+        onEventDrop={handleEventChange}
+        onEventResize={handleEventChange}
+        resizable
         popup
         formats={{
           dayFormat: "DD",
@@ -209,7 +802,6 @@ const CalendarPage: React.FC = () => {
         }}
         edit={null}
         onSaved={() => {
-          loadTasks();
           setModalOpen(false);
           setDefaultStart(undefined);
           setDefaultEnd(undefined);
@@ -217,6 +809,22 @@ const CalendarPage: React.FC = () => {
         defaultStart={defaultStart}
         defaultEnd={defaultEnd}
       />
+      <TimetableModal
+        open={timetableOpen}
+        onClose={() => setTimetableOpen(false)}
+      />
+      <IcsExportModal open={exportOpen} onClose={() => setExportOpen(false)} />
+      <IcsImportModal open={importOpen} onClose={() => setImportOpen(false)} />
+      <ConfirmModal
+        open={toUnplan !== null}
+        onCancel={() => setToUnplan(null)}
+        onConfirm={() => {
+          if (uid && toUnplan) removeBlock(uid, toUnplan.id);
+          setToUnplan(null);
+        }}
+        confirmLabel="Remove"
+        message={`Remove the planned block "${toUnplan?.title ?? ""}" from your calendar?`}
+      />
     </div>
   );
 };
@@ -1,33 +1,42 @@
-import { useState, useEffect } from "react";
-import { auth } from "../services/firebase";
-import { getTasksWithLevelsByUser } from "../services/firestore";
+import { useState, useEffect, useMemo } from "react";
+import { auth } from "../services/auth";
 import {
-  type AggregatedTask,
-  getMultipleAggregatedTasks,
-} from "../services/task";
+  selectAggregatedTasks,
+  selectIsLoading,
+} from "../services/taskStore";
 import {
   isApiKeyConfigured,
   setApiKey as setGeminiApiKey,
   isFallbackMode,
 } from "../services/gemini";
+import { COURSE_FILTER_ALL, matchesCourseFilter } from "../services/courses";
 import AnalyticsSummary from "../components/analytics/AnalyticsSummary";
 import AnalyticsOverview from "../components/analytics/AnalyticsOverview";
 import AnalyticsHabits from "../components/analytics/AnalyticsHabits";
 import AnalyticsReport from "../components/analytics/AnalyticsReport";
 import AnalyticsProgress from "../components/analytics/AnalyticsProgress";
+import AnalyticsCourses from "../components/analytics/AnalyticsCourses";
+import CourseSelect from "../components/CourseSelect";
 import UserHeader from "../components/UserHeader";
 import TaskActions from "../components/TaskActions";
 import ApiKeyModal from "../components/ApiKeyModal";
 import ChatBot from "../components/ChatBot";
+import { useTaskStore } from "../hooks/useTaskStore";
 
 import "../styles/DataAnalytics.css";
 
-type AnalyticsTab = "overview" | "habits" | "report" | "progress";
+type AnalyticsTab = "overview" | "habits" | "report" | "progress" | "courses";
 
 const DataAnalyticsPage = () => {
-  const [tasks, setTasks] = useState<AggregatedTask[]>([]);
+  const allTasks = useTaskStore(selectAggregatedTasks);
+  const loading = useTaskStore(selectIsLoading);
   const [activeTab, setActiveTab] = useState<AnalyticsTab>("overview");
-  const [loading, setLoading] = useState(true);
+  const [courseFilter, setCourseFilter] = useState(COURSE_FILTER_ALL);
+  // every tab and the summary look at the selected course only
+  const tasks = useMemo(
+    () => allTasks.filter((t) => matchesCourseFilter(t.courseId, courseFilter)),
+    [allTasks, courseFilter]
+  );
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [_isModalOpen, setModalOpen] = useState(false);
   const [isApiKeyModalOpen, setApiKeyModalOpen] = useState(false);
@@ -40,46 +49,6 @@ const DataAnalyticsPage = () => {
     setIsInFallbackMode(isFallbackMode());
   }, []);
 
-  useEffect(() => {
-    const fetchTasks = async () => {
-      try {
-        // Get current user
-        const user = auth.currentUser;
-        if (!user) {
-          console.error("No user logged in");
-          setLoading(false);
-          return;
-        }
-
-        // Get all tasks for user
-        const userTasks = await getTasksWithLevelsByUser(user.uid);
-
-        // Convert to aggregated tasks with progress
-        const aggregatedTasks = await getMultipleAggregatedTasks(
-          userTasks.map((task) => task.id)
-        );
-
-        setTasks(aggregatedTasks);
-      } catch (error) {
-        console.error("Error fetching tasks:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Listen for auth state changes
-    const unsubscribe = auth.onAuthStateChanged((user) => {
-      if (user) {
-        fetchTasks();
-      } else {
-        setTasks([]);
-        setLoading(false);
-      }
-    });
-
-    return () => unsubscribe();
-  }, []);
-
   const handleTabClick = (tab: AnalyticsTab) => {
     if (tab === "habits" && !hasApiKey) {
       setApiKeyModalOpen(true);
@@ -103,7 +72,7 @@ const DataAnalyticsPage = () => {
     return <div className="error">Please login to view analytics</div>;
   }
 
-  if (tasks.length === 0) {
+  if (allTasks.length === 0) {
     return (
       <div className="empty">
         No tasks found. Create some tasks to see analytics.
@@ -141,26 +110,16 @@ const DataAnalyticsPage = () => {
         return <AnalyticsReport tasks={tasks} />;
       case "progress":
         return <AnalyticsProgress tasks={tasks} />;
+      case "courses":
+        return <AnalyticsCourses tasks={tasks} />;
     }
   };
 
-  const loadTasks = async () => {
-    if (!auth.currentUser) return;
-    const userTasks = await getTasksWithLevelsByUser(auth.currentUser.uid);
-    const aggregatedTasks = await getMultipleAggregatedTasks(
-      userTasks.map((task) => task.id)
-    );
-    setTasks(aggregatedTasks);
-  };
-
   return (
     <div className="analytics-wrapper">
       <div className="analytics-header-section">
         <div className="header-content">
-          <TaskActions
-            onCreate={() => setModalOpen(true)}
-            onReload={loadTasks}
-          />
+          <TaskActions onCreate={() => setModalOpen(true)} />
           <UserHeader
             displayName={auth.currentUser?.displayName}
             photoURL={auth.currentUser?.photoURL}
@@ -174,6 +133,15 @@ const DataAnalyticsPage = () => {
           <p className="subtitle">
             Track your task performance and productivity insights
           </p>
+          <div className="analytics-course-filter">
+            <label htmlFor="analyticsCourse">Course:</label>
+            <CourseSelect
+              id="analyticsCourse"
+              value={courseFilter}
+              onChange={setCourseFilter}
+              filter
+            />
+          </div>
         </div>
 
         <AnalyticsSummary tasks={tasks} />
@@ -215,6 +183,13 @@ const DataAnalyticsPage = () => {
             <span className="tab-icon">✅</span>
             Progress
           </button>
+          <button
+            className={`tab ${activeTab === "courses" ? "active" : ""}`}
+            onClick={() => handleTabClick("courses")}
+          >
+            <span className="tab-icon">📚</span>
+            Courses
+          </button>
         </div>
 
         <div className="analytics-content glass-effect">{renderContent()}</div>
@@ -1,128 +1,82 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useMemo } from "react";
+import { toast } from "react-toastify";
+import { TaskStatus } from "../services/taskProgress";
+import { auth } from "../services/auth";
+import { LEVEL_LABELS } from "../services/firestore";
+import {
+  groupChildrenByParent,
+  selectChildren,
+  selectIsLoading,
+  selectProgress,
+  selectTags,
+  selectTasks,
+} from "../services/taskStore";
+import { COURSE_FILTER_ALL, matchesCourseFilter } from "../services/courses";
 import {
-  getTasksWithLevelsByUser,
-  getChildTasksByParentId,
-  type TaskItem,
-  type TaskChild,
-} from "../services/firestore";
-import { TaskStatus, getTaskProgress } from "../services/taskProgress";
-import { auth } from "../services/firebase";
+  EMPTY_VIEW_FILTER,
+  type ViewFilter,
+  saveView,
+} from "../services/savedViews";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useViewFilteredTasks } from "../hooks/useSavedViews";
+import CourseSelect from "../components/CourseSelect";
+import SavedViewTabs from "../components/SavedViewTabs";
 import TaskHistoryItem from "../components/TaskHistoryItem";
 import UserHeader from "../components/UserHeader";
 import TaskActions from "../components/TaskActions";
-import { toast } from "react-toastify";
 import "../styles/TaskHistory.css";
 
 const HistoryPage: React.FC = () => {
-  const [tasks, setTasks] = useState<TaskItem[]>([]);
-  const [childTasks, setChildTasks] = useState<Record<string, TaskChild[]>>({});
-  const [taskStatuses, setTaskStatuses] = useState<Record<string, TaskStatus>>(
-    {}
+  const tasks = useTaskStore(selectTasks);
+  const children = useTaskStore(selectChildren);
+  const progress = useTaskStore(selectProgress);
+  const loading = useTaskStore(selectIsLoading);
+  const tags = useTaskStore(selectTags);
+  const [filter, setFilter] = useState<ViewFilter>(EMPTY_VIEW_FILTER);
+  const [viewName, setViewName] = useState("");
+  const [selectedCourse, setSelectedCourse] = useState(COURSE_FILTER_ALL);
+
+  const childrenByParent = useMemo(
+    () => groupChildrenByParent(children),
+    [children]
+  );
+
+  // statuses of tasks and subtasks share one map (ids never collide)
+  const taskStatuses = useMemo<Record<string, TaskStatus>>(
+    () =>
+      Object.fromEntries(
+        [...tasks, ...children].map((t) => [
+          t.id,
+          progress[t.id]?.task_status || TaskStatus.NOT_STARTED,
+        ])
+      ),
+    [tasks, children, progress]
   );
-  const [childStatuses, setChildStatuses] = useState<
-    Record<string, TaskStatus>
-  >({});
-  const [loading, setLoading] = useState(true);
-  const [searchName, setSearchName] = useState("");
-  const [searchStartDate, setSearchStartDate] = useState("");
-  const [searchEndDate, setSearchEndDate] = useState("");
-  const [selectedStatus, setSelectedStatus] = useState<string>("all");
-
-  const loadHistory = useCallback(async () => {
-    if (!auth.currentUser) return;
 
+  const viewTasks = useViewFilteredTasks(tasks, filter);
+  const filteredTasks = useMemo(
+    () =>
+      viewTasks.filter((task) =>
+        matchesCourseFilter(task.course_id, selectedCourse)
+      ),
+    [viewTasks, selectedCourse]
+  );
+
+  const updateFilter = (patch: Partial<ViewFilter>) =>
+    setFilter((prev) => ({ ...prev, ...patch }));
+
+  const handleSaveView = () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
     try {
-      setLoading(true);
-      const mainTasks = await getTasksWithLevelsByUser(auth.currentUser.uid);
-      setTasks(mainTasks);
-
-      const loadTaskData = async (tasks: TaskItem[]) => {
-        const taskStatusMap: Record<string, TaskStatus> = {};
-        const childTasksMap: Record<string, TaskChild[]> = {};
-        const childStatusMap: Record<string, TaskStatus> = {};
-
-        await Promise.all(
-          tasks.map(async (task) => {
-            // Load task status
-            const status = await getTaskProgress(task.id);
-            taskStatusMap[task.id] =
-              status?.task_status || TaskStatus.NOT_STARTED;
-
-            // Load child tasks if they exist
-            if (task.task_child?.length) {
-              const children = await getChildTasksByParentId(task.id);
-              childTasksMap[task.id] = children;
-
-              // Load child statuses
-              await Promise.all(
-                children.map(async (child) => {
-                  const childStatus = await getTaskProgress(child.id);
-                  childStatusMap[child.id] =
-                    childStatus?.task_status || TaskStatus.NOT_STARTED;
-                })
-              );
-            }
-          })
-        );
-
-        return { taskStatusMap, childTasksMap, childStatusMap };
-      };
-
-      const { taskStatusMap, childTasksMap, childStatusMap } =
-        await loadTaskData(mainTasks);
-
-      setTaskStatuses(taskStatusMap);
-      setChildTasks(childTasksMap);
-      setChildStatuses(childStatusMap);
-    } catch (error) {
-      console.error("Error loading history:", error);
-      toast.error("Failed to load task history");
-    } finally {
-      setLoading(false);
+      const view = saveView(uid, viewName, filter);
+      toast.success(`View "${view.name}" saved`);
+      setViewName("");
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Unable to save view");
     }
-  }, []);
-
-  useEffect(() => {
-    loadHistory();
-  }, [loadHistory]);
-
-  const filteredTasks = useMemo(() => {
-    if (!tasks) return [];
-
-    return tasks.filter((task) => {
-      const nameMatch = task.task_name
-        .toLowerCase()
-        .includes(searchName.toLowerCase());
-
-      let dateMatch = true;
-      if (searchStartDate || searchEndDate) {
-        const taskStart = task.start_time?.getTime() || 0;
-        const taskEnd = task.end_time?.getTime() || 0;
-        const searchStart = searchStartDate
-          ? new Date(searchStartDate).getTime()
-          : 0;
-        const searchEnd = searchEndDate
-          ? new Date(searchEndDate).getTime()
-          : Infinity;
-
-        dateMatch = taskStart <= searchEnd && taskEnd >= searchStart;
-      }
-
-      let statusMatch = true;
-      if (selectedStatus !== "all") {
-        statusMatch = taskStatuses[task.id] === Number(selectedStatus);
-      }
-
-      return nameMatch && dateMatch && statusMatch;
-    });
-  }, [
-    tasks,
-    searchName,
-    searchStartDate,
-    searchEndDate,
-    selectedStatus,
-    taskStatuses,
-  ]);
+  };
 
   return (
     <div className="history-page">
@@ -132,10 +86,7 @@ const HistoryPage: React.FC = () => {
       />
       <div className="history-header">
         <h2>Task History</h2>
-        <TaskActions
-          onCreate={() => {}}
-          onReload={() => window.location.reload()}
-        />
+        <TaskActions onCreate={() => {}} />
       </div>
 
       <div className="search-filters">
@@ -148,8 +99,8 @@ const HistoryPage: React.FC = () => {
             type="text"
             className="search-input"
             placeholder="Enter task name..."
-            value={searchName}
-            onChange={(e) => setSearchName(e.target.value)}
+            value={filter.query}
+            onChange={(e) => updateFilter({ query: e.target.value })}
           />
         </div>
 
@@ -162,8 +113,8 @@ const HistoryPage: React.FC = () => {
               id="searchStartDate"
               type="datetime-local"
               className="search-input"
-              value={searchStartDate}
-              onChange={(e) => setSearchStartDate(e.target.value)}
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
             />
           </div>
           <div className="search-group">
@@ -174,8 +125,8 @@ const HistoryPage: React.FC = () => {
               id="searchEndDate"
               type="datetime-local"
               className="search-input"
-              value={searchEndDate}
-              onChange={(e) => setSearchEndDate(e.target.value)}
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
             />
           </div>
         </div>
@@ -187,18 +138,105 @@ const HistoryPage: React.FC = () => {
           <select
             id="statusFilter"
             className="search-input"
-            value={selectedStatus}
-            onChange={(e) => setSelectedStatus(e.target.value)}
+            value={filter.status ?? "all"}
+            onChange={(e) =>
+              updateFilter({
+                status:
+                  e.target.value === "all"
+                    ? null
+                    : (Number(e.target.value) as TaskStatus),
+              })
+            }
           >
             <option value="all">All Statuses</option>
             <option value={TaskStatus.NOT_STARTED}>Not Started</option>
             <option value={TaskStatus.IN_PROGRESS}>In Progress</option>
             <option value={TaskStatus.COMPLETED}>Completed</option>
             <option value={TaskStatus.CANCELLED}>Cancelled</option>
+            <option value={TaskStatus.BLOCKED}>Blocked</option>
+            <option value={TaskStatus.WAITING_ON_OTHERS}>
+              Waiting on Others
+            </option>
           </select>
         </div>
+
+        <div className="search-group">
+          <label htmlFor="courseFilter">
+            <i className="fas fa-book"></i> Filter by Course:
+          </label>
+          <CourseSelect
+            id="courseFilter"
+            className="search-input"
+            value={selectedCourse}
+            onChange={setSelectedCourse}
+            filter
+          />
+        </div>
+
+        <div className="search-group">
+          <label htmlFor="levelFilter">
+            <i className="fas fa-layer-group"></i> Filter by Level:
+          </label>
+          <select
+            id="levelFilter"
+            className="search-input"
+            value={filter.level ?? "all"}
+            onChange={(e) =>
+              updateFilter({
+                level: e.target.value === "all" ? null : Number(e.target.value),
+              })
+            }
+          >
+            <option value="all">All Levels</option>
+            {Object.entries(LEVEL_LABELS).map(([level, label]) => (
+              <option key={level} value={level}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="search-group">
+          <label htmlFor="tagFilter">
+            <i className="fas fa-tag"></i> Filter by Tag:
+          </label>
+          <select
+            id="tagFilter"
+            className="search-input"
+            value={filter.tagId ?? ""}
+            onChange={(e) => updateFilter({ tagId: e.target.value || null })}
+          >
+            <option value="">All Tags</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                #{tag.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="search-group">
+          <label htmlFor="viewName">
+            <i className="fas fa-save"></i> Save as View:
+          </label>
+          <div className="save-view-form">
+            <input
+              id="viewName"
+              type="text"
+              className="search-input"
+              placeholder="View name..."
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+            />
+            <button className="btn-save-view" onClick={handleSaveView}>
+              💾 Save view
+            </button>
+          </div>
+        </div>
       </div>
 
+      <SavedViewTabs filter={filter} onApply={setFilter} deletable />
+
       <div className="history-container">
         {loading ? (
           <div className="loading-state">
@@ -216,10 +254,9 @@ const HistoryPage: React.FC = () => {
               <TaskHistoryItem
                 key={task.id}
                 task={task}
-                childTasks={childTasks[task.id] || []}
+                childrenByParent={childrenByParent}
                 taskStatus={taskStatuses[task.id]}
-                childStatuses={childStatuses}
-                onStatusUpdate={loadHistory}
+                childStatuses={taskStatuses}
               />
             ))}
           </div>
@@ -1,13 +1,19 @@
 // src/pages/TasksPage.tsx
-import React, { useEffect, useState } from "react";
-import { auth, onAuthStateChanged } from "../services/firebase";
+import React, { useState } from "react";
+import { auth } from "../services/auth";
+import { type TaskItem } from "../services/firestore";
 import {
-  getTasksWithLevelsByUser,
-  type TaskItem,
-  deleteTask,
-} from "../services/firestore";
+  removeTask,
+  selectIsLoading,
+  selectTasks,
+} from "../services/taskStore";
 import CreateEditTaskModal from "../components/CreateEditTaskModal";
 import ConfirmModal from "../components/ConfirmModal";
+import CourseManagerModal from "../components/CourseManagerModal";
+import TagManagerModal from "../components/TagManagerModal";
+import DataTransferModal from "../components/DataTransferModal";
+import ReminderSettingsModal from "../components/ReminderSettingsModal";
+import SavedViewTabs from "../components/SavedViewTabs";
 import TaskList from "../components/TaskList";
 import ChatBot from "../components/ChatBot";
 import { toast, ToastContainer } from "react-toastify";
@@ -16,38 +22,30 @@ import "react-toastify/dist/ReactToastify.css";
 import "../styles/TaskPage.css";
 import UserHeader from "../components/UserHeader";
 import TaskActions from "../components/TaskActions";
+import { useTaskStore } from "../hooks/useTaskStore";
+import { useUserStore } from "../hooks/useUserStore";
+import { useViewFilteredTasks } from "../hooks/useSavedViews";
+import {
+  rollupSettingsStore,
+  setRollupSettings,
+} from "../services/statusRollup";
+import { EMPTY_VIEW_FILTER, type ViewFilter } from "../services/savedViews";
 
 const TasksPage: React.FC = () => {
-  const [tasks, setTasks] = useState<TaskItem[]>([]);
-  const [loading, setLoading] = useState(false);
+  const tasks = useTaskStore(selectTasks);
+  const loading = useTaskStore(selectIsLoading);
   const [modalOpen, setModalOpen] = useState(false);
   const [editing, setEditing] = useState<null | TaskItem>(null);
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [toDelete, setToDelete] = useState<null | TaskItem>(null);
-  const [user, setUser] = useState(auth.currentUser);
-
-  const loadTasks = async () => {
-    if (!auth.currentUser) return setTasks([]);
-    setLoading(true);
-    try {
-      const list = await getTasksWithLevelsByUser(auth.currentUser.uid);
-      setTasks(list);
-    } catch (err) {
-      console.error(err);
-      toast.error("Failed to load tasks");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-      if (u) loadTasks();
-      else setTasks([]);
-    });
-    return () => unsub();
-  }, []);
+  const [coursesOpen, setCoursesOpen] = useState(false);
+  const [tagsOpen, setTagsOpen] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [view, setView] = useState<ViewFilter>(EMPTY_VIEW_FILTER);
+  const visibleTasks = useViewFilteredTasks(tasks, view);
+  const user = auth.currentUser;
+  const { autoCompleteParent } = useUserStore(rollupSettingsStore, user?.uid);
 
   const handleCreate = () => {
     setEditing(null);
@@ -62,11 +60,10 @@ const TasksPage: React.FC = () => {
   const handleConfirmDelete = async () => {
     if (!toDelete) return;
     try {
-      await deleteTask(toDelete.id);
+      await removeTask(toDelete.id);
       toast.success("Deleted successfully");
       setConfirmOpen(false);
       setToDelete(null);
-      loadTasks();
     } catch (err) {
       console.error(err);
       toast.error("Failed to delete task");
@@ -93,14 +90,38 @@ const TasksPage: React.FC = () => {
       </p>
 
       {/* Actions */}
-      <TaskActions onCreate={handleCreate} onReload={loadTasks} />
+      <TaskActions
+        onCreate={handleCreate}
+        onManageCourses={() => setCoursesOpen(true)}
+        onManageTags={() => setTagsOpen(true)}
+        onTransferData={() => setTransferOpen(true)}
+        onManageReminders={() => setRemindersOpen(true)}
+      />
+
+      <label className="rollup-setting">
+        <input
+          type="checkbox"
+          checked={autoCompleteParent}
+          disabled={!user}
+          onChange={(e) =>
+            user &&
+            setRollupSettings(user.uid, {
+              autoCompleteParent: e.target.checked,
+            })
+          }
+        />
+        Auto-complete a task when all its subtasks are done
+      </label>
+
+      {/* Saved views from Task History */}
+      <SavedViewTabs filter={view} onApply={setView} />
 
       {/* Task list */}
       <div className="tasks-list">
         {loading ? (
           <p>Loading...</p>
         ) : (
-          <TaskList tasks={tasks} onEdit={handleEdit} />
+          <TaskList tasks={visibleTasks} onEdit={handleEdit} />
         )}
       </div>
 
@@ -111,7 +132,19 @@ const TasksPage: React.FC = () => {
         open={modalOpen}
         onClose={() => setModalOpen(false)}
         edit={editing}
-        onSaved={loadTasks}
+      />
+      <CourseManagerModal
+        open={coursesOpen}
+        onClose={() => setCoursesOpen(false)}
+      />
+      <TagManagerModal open={tagsOpen} onClose={() => setTagsOpen(false)} />
+      <DataTransferModal
+        open={transferOpen}
+        onClose={() => setTransferOpen(false)}
+      />
+      <ReminderSettingsModal
+        open={remindersOpen}
+        onClose={() => setRemindersOpen(false)}
       />
       <ConfirmModal
         open={confirmOpen}
@@ -0,0 +1,92 @@
+// src/services/auth.ts
+import {
+  auth as firebaseAuth,
+  loginWithGoogle,
+  logout,
+  onAuthStateChanged,
+} from "./firebase";
+import { resolveBackend } from "./repository";
+
+/**
+ * Signed-in user, behind the same switch as the storage backend
+ * (VITE_STORAGE_BACKEND): Google sign-in through Firebase Auth for
+ * "firestore", one local user for "memory" / "local" so the app runs
+ * without a Firebase project.
+ */
+
+export interface AppUser {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+}
+
+export const LOCAL_USER: AppUser = {
+  uid: "local_user",
+  displayName: "Local user",
+  email: null,
+  photoURL: null,
+};
+
+/** "local" remembers the sign-in across reloads, "memory" does not */
+const SESSION_KEY = "naver_ai_local_session";
+
+const usesFirebase = () => resolveBackend() === "firestore";
+
+let localSignedIn: boolean | null = null;
+const listeners = new Set<(user: AppUser | null) => void>();
+
+const isLocalSignedIn = () => {
+  if (localSignedIn === null) {
+    try {
+      localSignedIn =
+        resolveBackend() === "local" &&
+        localStorage.getItem(SESSION_KEY) === "1";
+    } catch (err) {
+      console.error("[auth] failed to read session:", err);
+      localSignedIn = false;
+    }
+  }
+  return localSignedIn;
+};
+
+const setLocalSignedIn = (signedIn: boolean) => {
+  localSignedIn = signedIn;
+  if (resolveBackend() === "local") {
+    try {
+      if (signedIn) localStorage.setItem(SESSION_KEY, "1");
+      else localStorage.removeItem(SESSION_KEY);
+    } catch (err) {
+      console.error("[auth] failed to write session:", err);
+    }
+  }
+  listeners.forEach((l) => l(auth.currentUser));
+};
+
+export const auth = {
+  get currentUser(): AppUser | null {
+    if (usesFirebase()) return firebaseAuth.currentUser;
+    return isLocalSignedIn() ? LOCAL_USER : null;
+  },
+  signOut: async () => {
+    if (usesFirebase()) await logout();
+    else setLocalSignedIn(false);
+  },
+};
+
+/** Google popup for Firebase, the local user otherwise */
+export const login = async (): Promise<AppUser | null> => {
+  if (usesFirebase()) return loginWithGoogle();
+  setLocalSignedIn(true);
+  return LOCAL_USER;
+};
+
+/** called with the current user right away, then on every sign-in / out */
+export const subscribeAuth = (listener: (user: AppUser | null) => void) => {
+  if (usesFirebase()) return onAuthStateChanged(firebaseAuth, listener);
+  listeners.add(listener);
+  listener(auth.currentUser);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,146 @@
+// src/services/backup.ts
+import type {
+  TaskItem,
+  TaskChild,
+  Course,
+  Semester,
+  Tag,
+  ClassSession,
+} from "./firestore";
+import type { TaskProgress, TaskStatusEvent } from "./taskProgress";
+
+/** ---------- Format ---------- */
+
+/** marks our files, so any other JSON is rejected early */
+export const BACKUP_FORMAT = "naver-ai-task-backup";
+
+/** bump when the shape changes and keep reading the older versions */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Whole dataset of a user. Ids are those of the exporting account: on
+ * restore every record gets a new id and the references follow.
+ */
+export interface BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: Date;
+  semesters: Semester[];
+  courses: Course[];
+  tags: Tag[];
+  class_sessions: ClassSession[];
+  /** top-level tasks, level included */
+  tasks: TaskItem[];
+  /** subtasks at any depth */
+  children: TaskChild[];
+  /** current status of tasks, subtasks and recurring occurrences */
+  progress: TaskProgress[];
+  /** status changes, oldest first */
+  history: TaskStatusEvent[];
+}
+
+const BACKUP_LISTS = [
+  "semesters",
+  "courses",
+  "tags",
+  "class_sessions",
+  "tasks",
+  "children",
+  "progress",
+  "history",
+] as const;
+
+/** fields holding a Date, written as ISO strings by JSON.stringify */
+const DATE_KEYS = new Set([
+  "exported_at",
+  "createdAt",
+  "start_time",
+  "end_time",
+  "start_date",
+  "end_date",
+  "until",
+  "updated_at",
+  "started_at",
+  "completed_at",
+  "cancelled_at",
+  "changed_at",
+]);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+/** ---------- Export ---------- */
+
+export const buildBackup = (
+  source: {
+    tasks: TaskItem[];
+    children: TaskChild[];
+    progress: Record<string, TaskProgress>;
+    events: TaskStatusEvent[];
+    courses: Course[];
+    semesters: Semester[];
+    tags: Tag[];
+    classSessions: ClassSession[];
+  },
+  now = new Date()
+): BackupData => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exported_at: now,
+  semesters: source.semesters,
+  courses: source.courses,
+  tags: source.tags,
+  class_sessions: source.classSessions,
+  tasks: source.tasks,
+  children: source.children,
+  progress: Object.values(source.progress),
+  history: [...source.events].sort(
+    (a, b) => a.changed_at.getTime() - b.changed_at.getTime()
+  ),
+});
+
+export const serializeBackup = (data: BackupData) =>
+  JSON.stringify(data, null, 2);
+
+/** ---------- Import ---------- */
+
+/** parsed and checked backup file; throws with a message for the user */
+export const parseBackup = (text: string): BackupData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, (key, value) =>
+      DATE_KEYS.has(key) && typeof value === "string" && ISO_DATE.test(value)
+        ? new Date(value)
+        : value
+    );
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const data = raw as Record<string, unknown> | null;
+  if (!data || typeof data !== "object" || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a task backup");
+  }
+  if (typeof data.version !== "number" || data.version < 1) {
+    throw new Error("The backup has no valid version");
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup version ${data.version} is newer than this app (${BACKUP_VERSION})`
+    );
+  }
+  if (!(data.exported_at instanceof Date)) {
+    throw new Error("The backup has no export date");
+  }
+  for (const key of BACKUP_LISTS) {
+    data[key] ??= [];
+    if (!Array.isArray(data[key])) throw new Error(`"${key}" must be a list`);
+  }
+  const backup = data as unknown as BackupData;
+  const broken = [...backup.tasks, ...backup.children].find(
+    (t) => typeof t?.id !== "string" || typeof t.task_name !== "string"
+  );
+  if (broken) throw new Error("A task in the backup has no id or name");
+  if (backup.children.some((c) => typeof c.parent_id !== "string")) {
+    throw new Error("A subtask in the backup has no parent");
+  }
+  return backup;
+};
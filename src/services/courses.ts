@@ -0,0 +1,96 @@
+// src/services/courses.ts
+import type {
+  Course,
+  Semester,
+  SaveCourseInput,
+  SaveSemesterInput,
+} from "./firestore";
+
+/** ---------- Colors ---------- */
+
+export const COURSE_COLORS = [
+  "#4299e1",
+  "#48bb78",
+  "#ed8936",
+  "#9f7aea",
+  "#f56565",
+  "#38b2ac",
+  "#ed64a6",
+  "#ecc94b",
+];
+
+export const DEFAULT_COURSE_COLOR = COURSE_COLORS[0];
+
+/** first palette color no course uses yet */
+export const nextCourseColor = (courses: Course[]) =>
+  COURSE_COLORS.find((c) => !courses.some((course) => course.color === c)) ??
+  COURSE_COLORS[courses.length % COURSE_COLORS.length];
+
+/** ---------- Validation ---------- */
+
+/** Returns an error message, or null when the semester can be saved */
+export const validateSemester = (input: SaveSemesterInput): string | null => {
+  if (!input.name.trim()) return "Semester name cannot be empty";
+  if (input.start_date && input.end_date && input.start_date > input.end_date) {
+    return "Semester must start before it ends";
+  }
+  return null;
+};
+
+/** Returns an error message, or null when the course can be saved */
+export const validateCourse = (input: SaveCourseInput): string | null => {
+  if (!input.name.trim()) return "Course name cannot be empty";
+  if (
+    input.credits != null &&
+    (!Number.isFinite(input.credits) || input.credits < 0)
+  ) {
+    return "Credits must be a positive number";
+  }
+  return null;
+};
+
+/** ---------- Lookups ---------- */
+
+/** "CS101 · Algorithms", or just the name without a code */
+export const courseLabel = (course: Course) =>
+  course.code ? `${course.code} · ${course.name}` : course.name;
+
+/** semesters newest first, courses without one under "No semester" */
+export const groupCoursesBySemester = (
+  courses: Course[],
+  semesters: Semester[]
+): { semester: Semester | null; courses: Course[] }[] => {
+  const sorted = [...semesters].sort(
+    (a, b) => (b.start_date?.getTime() ?? 0) - (a.start_date?.getTime() ?? 0)
+  );
+  const known = new Set(sorted.map((s) => s.id));
+  const groups = sorted.map((semester) => ({
+    semester: semester as Semester | null,
+    courses: courses.filter((c) => c.semester_id === semester.id),
+  }));
+  const loose = courses.filter(
+    (c) => !c.semester_id || !known.has(c.semester_id)
+  );
+  if (loose.length > 0) groups.push({ semester: null, courses: loose });
+  return groups;
+};
+
+/** semester whose dates contain `date` (e.g. to preselect it) */
+export const findSemesterAt = (semesters: Semester[], date: Date) =>
+  semesters.find(
+    (s) =>
+      (!s.start_date || s.start_date <= date) &&
+      (!s.end_date || s.end_date >= date)
+  ) ?? null;
+
+/** course filter values besides a course id */
+export const COURSE_FILTER_ALL = "all";
+export const COURSE_FILTER_NONE = "none";
+
+/** `filter` is COURSE_FILTER_ALL, COURSE_FILTER_NONE or a course id */
+export const matchesCourseFilter = (
+  courseId: string | null | undefined,
+  filter: string
+) =>
+  filter === COURSE_FILTER_ALL ||
+  (filter === COURSE_FILTER_NONE ? !courseId : courseId === filter);
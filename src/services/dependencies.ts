@@ -0,0 +1,234 @@
+// src/services/dependencies.ts
+import type { TaskItem } from "./firestore";
+import { type TaskProgress, TaskStatus } from "./taskProgress";
+import { parseOccurrenceId } from "./recurrence";
+
+/**
+ * Blocks / blocked-by links between task nodes. A node lists the nodes it
+ * waits for in `depends_on`; links may cross parents (a subtask can wait
+ * for another task). Ids that no longer exist are ignored everywhere.
+ *
+ * For ordering a parent also waits for its own subtasks, so "subtask
+ * depends on its parent" is reported as a cycle like any other.
+ */
+
+type NodeMap = Record<string, TaskItem>;
+
+const indexNodes = (nodes: TaskItem[]): NodeMap =>
+  Object.fromEntries(nodes.map((n) => [n.id, n]));
+
+/** parent id -> direct subtask ids */
+const childIndex = (nodes: TaskItem[]) => {
+  const index: Record<string, string[]> = {};
+  for (const node of nodes) {
+    if (node.parent_id) (index[node.parent_id] ??= []).push(node.id);
+  }
+  return index;
+};
+
+/** ---------- Blocked-by ---------- */
+
+/** a dependency stops blocking once it is completed or cancelled */
+const isResolved = (status: TaskStatus | undefined) =>
+  status === TaskStatus.COMPLETED || status === TaskStatus.CANCELLED;
+
+/**
+ * dependencies of `taskId` that still block it; an occurrence of a
+ * repeating task waits for what its series depends on
+ */
+export const getUnmetDependencies = (
+  nodes: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  taskId: string
+): TaskItem[] => {
+  const byId = indexNodes(nodes);
+  const nodeId = parseOccurrenceId(taskId)?.seriesId ?? taskId;
+  return (byId[nodeId]?.depends_on ?? [])
+    .map((id) => byId[id])
+    .filter(
+      (dep): dep is TaskItem =>
+        dep !== undefined && !isResolved(progress[dep.id]?.task_status)
+    );
+};
+
+/** nodes that list `taskId` in their depends_on */
+export const getDependents = (nodes: TaskItem[], taskId: string) =>
+  nodes.filter((n) => n.depends_on?.includes(taskId));
+
+/** ---------- Cycle detection ---------- */
+
+/**
+ * Path `from` ... `to` through depends_on and parent -> subtask edges,
+ * or null when `to` cannot be reached.
+ */
+const findPath = (
+  byId: NodeMap,
+  children: Record<string, string[]>,
+  edgesOf: (id: string) => string[],
+  from: string,
+  to: string
+): string[] | null => {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === to) {
+      const path = [id];
+      for (let p = previous.get(id); p; p = previous.get(p)) path.unshift(p);
+      return path;
+    }
+    for (const next of [...edgesOf(id), ...(children[id] ?? [])]) {
+      if (!byId[next] || previous.has(next)) continue;
+      previous.set(next, id);
+      queue.push(next);
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns an error message, or null when `taskId` may depend on
+ * `dependsOn` without creating a cycle.
+ */
+export const validateDependencies = (
+  nodes: TaskItem[],
+  taskId: string,
+  dependsOn: string[]
+): string | null => {
+  const byId = indexNodes(nodes);
+  if (dependsOn.includes(taskId)) return "A task cannot depend on itself";
+  if (dependsOn.some((id) => !byId[id])) return "Dependency does not exist";
+
+  const children = childIndex(nodes);
+  // the proposed links replace the task's current ones
+  const edgesOf = (id: string) =>
+    id === taskId ? dependsOn : byId[id]?.depends_on ?? [];
+  for (const depId of dependsOn) {
+    const path = findPath(byId, children, edgesOf, depId, taskId);
+    if (path) {
+      const names = [taskId, ...path].map((id) => byId[id].task_name);
+      return `Circular dependency: ${names.join(" → ")}`;
+    }
+  }
+  return null;
+};
+
+/** ---------- Critical path ---------- */
+
+export interface ScheduleEntry {
+  /** earliest time the node can be finished, null when it has no dates */
+  projectedEnd: Date | null;
+  /** projected to finish after its own end_time */
+  late: boolean;
+  /** dependency or subtask that sets projectedEnd, null = its own dates */
+  drivenBy: string | null;
+}
+
+/**
+ * Forward pass over the dependency graph: a node starts once its
+ * dependencies are finished, keeps its planned duration, finishes no
+ * earlier than its subtasks and - when still open - no earlier than `now`.
+ */
+export const computeSchedule = (
+  nodes: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  now: Date = new Date()
+): Record<string, ScheduleEntry> => {
+  const byId = indexNodes(nodes);
+  const children = childIndex(nodes);
+  const schedule: Record<string, ScheduleEntry> = {};
+  const visiting = new Set<string>();
+
+  const visit = (id: string): ScheduleEntry | null => {
+    if (schedule[id]) return schedule[id];
+    // part of a cycle (corrupted data): don't let it constrain anything
+    if (visiting.has(id) || !byId[id]) return null;
+    visiting.add(id);
+
+    const node = byId[id];
+    const entryProgress = progress[id];
+    let entry: ScheduleEntry;
+    if (entryProgress?.task_status === TaskStatus.CANCELLED) {
+      entry = { projectedEnd: null, late: false, drivenBy: null };
+    } else if (entryProgress?.task_status === TaskStatus.COMPLETED) {
+      const finished = entryProgress.completed_at ?? node.end_time ?? null;
+      entry = {
+        projectedEnd: finished,
+        late: !!(finished && node.end_time && finished > node.end_time),
+        drivenBy: null,
+      };
+    } else {
+      const duration =
+        node.start_time && node.end_time
+          ? Math.max(0, node.end_time.getTime() - node.start_time.getTime())
+          : 0;
+      let drivenBy: string | null = null;
+      let start = node.start_time ?? node.end_time ?? null;
+      for (const depId of node.depends_on ?? []) {
+        const depEnd = visit(depId)?.projectedEnd ?? null;
+        if (depEnd && (!start || depEnd > start)) {
+          start = depEnd;
+          drivenBy = depId;
+        }
+      }
+      let end = start ? new Date(start.getTime() + duration) : null;
+      for (const childId of children[id] ?? []) {
+        const childEnd = visit(childId)?.projectedEnd ?? null;
+        if (childEnd && (!end || childEnd > end)) {
+          end = childEnd;
+          drivenBy = childId;
+        }
+      }
+      // still open: it cannot be finished in the past
+      if (end && end < now) {
+        end = now;
+        drivenBy = null;
+      }
+      entry = {
+        projectedEnd: end,
+        late: !!(end && node.end_time && end > node.end_time),
+        drivenBy,
+      };
+    }
+
+    visiting.delete(id);
+    schedule[id] = entry;
+    return entry;
+  };
+
+  nodes.forEach((n) => visit(n.id));
+  return schedule;
+};
+
+export interface CriticalPath {
+  projectedEnd: Date | null;
+  /** projectedEnd is after the task's end_time */
+  overdue: boolean;
+  /** chain of nodes that sets projectedEnd, starting below the task */
+  path: string[];
+  /** late nodes on the path, i.e. the ones pushing the task's end_time */
+  culprits: string[];
+}
+
+/** critical path of `taskId`, read from a computeSchedule result */
+export const getCriticalPath = (
+  schedule: Record<string, ScheduleEntry>,
+  taskId: string
+): CriticalPath => {
+  const root = schedule[taskId];
+  const path: string[] = [];
+  const seen = new Set([taskId]);
+  let id = root?.drivenBy ?? null;
+  while (id && !seen.has(id)) {
+    seen.add(id);
+    path.push(id);
+    id = schedule[id]?.drivenBy ?? null;
+  }
+  const overdue = root?.late ?? false;
+  return {
+    projectedEnd: root?.projectedEnd ?? null,
+    overdue,
+    path,
+    culprits: overdue ? path.filter((id) => schedule[id]?.late) : [],
+  };
+};
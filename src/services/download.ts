@@ -0,0 +1,16 @@
+// src/services/download.ts
+
+/** hand `content` to the browser as a file download */
+export const downloadTextFile = (
+  content: string,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
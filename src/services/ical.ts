@@ -0,0 +1,451 @@
+// src/services/ical.ts
+import {
+  type TaskItem,
+  type Course,
+  type SaveTaskInput,
+  LEVEL_LABELS,
+} from "./firestore";
+import {
+  type TaskProgress,
+  TaskStatus,
+  TASK_STATUS_LABELS,
+} from "./taskProgress";
+import { type Recurrence, RecurrenceFreq } from "./recurrence";
+import { courseLabel, matchesCourseFilter } from "./courses";
+
+/**
+ * iCalendar (RFC 5545) export of task nodes, for Google Calendar, Outlook
+ * and phone calendars.
+ */
+
+/** ---------- Encoding ---------- */
+
+const PRODID = "-//Naver AI Task//Task export//EN";
+
+/** UIDs stay the same across exports so calendars update, not duplicate */
+export const ICS_UID_DOMAIN = "naver-ai-task";
+
+export const taskUid = (taskId: string) => `${taskId}@${ICS_UID_DOMAIN}`;
+
+/** TEXT values escape backslash, `;`, `,` and newlines */
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/** UTC date-time, e.g. 20260907T013000Z */
+const formatDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/** floating local date-time, e.g. 20260907T083000 */
+const formatLocalDateTime = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+};
+
+const encoder = new TextEncoder();
+
+/** lines longer than 75 octets continue on the next line after a space */
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const ICS_FREQ: Record<Recurrence["freq"], string> = {
+  [RecurrenceFreq.DAILY]: "DAILY",
+  [RecurrenceFreq.WEEKLY]: "WEEKLY",
+  [RecurrenceFreq.MONTHLY]: "MONTHLY",
+};
+
+/**
+ * our repeat rule as an RRULE value (both default to DTSTART's weekday);
+ * `by_weekday` is local, so DTSTART and UNTIL are floating local times
+ */
+export const recurrenceToRRule = (rule: Recurrence) => {
+  const parts = [`FREQ=${ICS_FREQ[rule.freq]}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === RecurrenceFreq.WEEKLY && rule.by_weekday?.length) {
+    parts.push(
+      `BYDAY=${[...rule.by_weekday]
+        .sort()
+        .map((d) => ICS_WEEKDAYS[d])
+        .join(",")}`
+    );
+  }
+  // UNTIL and COUNT must not both appear
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatLocalDateTime(rule.until)}`);
+  return parts.join(";");
+};
+
+/** level 1 (very important) … 5 (leisure) onto PRIORITY 1 (high) … 9 */
+export const levelToPriority = (level: number | undefined) =>
+  level && level >= 1 && level <= 5 ? level * 2 - 1 : 0;
+
+const eventStatus = (status: TaskStatus) =>
+  status === TaskStatus.CANCELLED
+    ? "CANCELLED"
+    : status === TaskStatus.NOT_STARTED
+      ? "TENTATIVE"
+      : "CONFIRMED";
+
+/** ---------- Export ---------- */
+
+export interface IcsExportFilter {
+  /** see matchesCourseFilter */
+  course: string;
+  level: number | null;
+  status: TaskStatus | null;
+  includeSubtasks: boolean;
+}
+
+/**
+ * One VEVENT per task node with a time. Subtasks carry the course of their
+ * top-level task and point at their parent through RELATED-TO.
+ */
+export const buildIcsCalendar = (
+  nodes: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  courses: Course[],
+  filter: IcsExportFilter,
+  now = new Date()
+): string => {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const topLevelOf = (node: TaskItem) => {
+    const seen = new Set<string>();
+    let current = node;
+    while (current.parent_id && !seen.has(current.id)) {
+      seen.add(current.id);
+      const parent = byId.get(current.parent_id);
+      if (!parent) break;
+      current = parent;
+    }
+    return current;
+  };
+  const statusOf = (id: string) =>
+    progress[id]?.task_status ?? TaskStatus.NOT_STARTED;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Tasks",
+  ];
+  for (const node of nodes) {
+    if (node.parent_id && !filter.includeSubtasks) continue;
+    const start = node.start_time ?? node.end_time;
+    if (!start) continue;
+    const status = statusOf(node.id);
+    // repeating events keep the local weekdays of their rule (see above)
+    const formatTime = node.recurrence ? formatLocalDateTime : formatDateTime;
+    const courseId = topLevelOf(node).course_id;
+    if (!matchesCourseFilter(courseId, filter.course)) continue;
+    if (filter.level !== null && node.level !== filter.level) continue;
+    if (filter.status !== null && status !== filter.status) continue;
+
+    const course = courses.find((c) => c.id === courseId);
+    const categories = [
+      node.level ? LEVEL_LABELS[node.level] : null,
+      TASK_STATUS_LABELS[status],
+      course ? courseLabel(course) : null,
+    ].filter((c): c is string => !!c);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${taskUid(node.id)}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART:${formatTime(start)}`
+    );
+    // a task with only a deadline becomes a zero-length event
+    if (node.end_time && node.end_time > start) {
+      lines.push(`DTEND:${formatTime(node.end_time)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(node.task_name)}`);
+    if (node.task_detail) {
+      lines.push(`DESCRIPTION:${escapeText(node.task_detail)}`);
+    }
+    lines.push(
+      `PRIORITY:${levelToPriority(node.level)}`,
+      `STATUS:${eventStatus(status)}`,
+      `CATEGORIES:${categories.map(escapeText).join(",")}`
+    );
+    if (node.parent_id) lines.push(`RELATED-TO:${taskUid(node.parent_id)}`);
+    if (node.recurrence) {
+      lines.push(`RRULE:${recurrenceToRRule(node.recurrence)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+/** ---------- Import ---------- */
+
+/** a VEVENT / VTODO read from an uploaded .ics file */
+export interface IcsEntry {
+  /** null when the file gives none (then it cannot be de-duplicated) */
+  uid: string | null;
+  kind: "VEVENT" | "VTODO";
+  summary: string;
+  description: string;
+  start: Date | null;
+  end: Date | null;
+  /** RECURRENCE-ID: the entry changes one occurrence of the `uid` series */
+  recurrenceId: Date | null;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+
+/** NAME;PARAM=a;PARAM="b:c":value, quoted params may hold `:` and `;` */
+const parsePropertyLine = (line: string): IcsProperty | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  const [name, ...rawParams] = line
+    .slice(0, colon)
+    .match(/(?:[^;"]|"[^"]*")+/g) ?? [""];
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param
+      .slice(eq + 1)
+      .replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/** wall-clock time in `timeZone` as a Date; local time if the zone is unknown */
+const zonedDate = (parts: number[], timeZone: string) => {
+  const [y, mo, d, h, mi, s] = parts;
+  const guess = Date.UTC(y, mo, d, h, mi, s);
+  try {
+    const shown = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(new Date(guess));
+    const get = (type: string) =>
+      Number(shown.find((p) => p.type === type)?.value);
+    const asUtc = Date.UTC(
+      get("year"),
+      get("month") - 1,
+      get("day"),
+      get("hour"),
+      get("minute"),
+      get("second")
+    );
+    return new Date(guess - (asUtc - guess));
+  } catch {
+    // e.g. Outlook's Windows zone names
+    return new Date(y, mo, d, h, mi, s);
+  }
+};
+
+/** DATE or DATE-TIME value (UTC, TZID or floating) */
+const parseIcsDate = (
+  prop: IcsProperty | undefined
+): { date: Date; allDay: boolean } | null => {
+  const match = prop?.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!prop || !match) return null;
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map((v) => Number(v ?? 0));
+  const parts = [y, mo - 1, d, h, mi, s];
+  if (match[4] === undefined) {
+    return { date: new Date(y, mo - 1, d), allDay: true };
+  }
+  if (match[7])
+    return { date: new Date(Date.UTC(y, mo - 1, d, h, mi, s)), allDay: false };
+  if (prop.params.TZID) {
+    return { date: zonedDate(parts, prop.params.TZID), allDay: false };
+  }
+  return { date: new Date(y, mo - 1, d, h, mi, s), allDay: false };
+};
+
+/** all-day spans end at 23:59 of their last day, like tasks created here */
+const lastMinuteBefore = (date: Date) => new Date(date.getTime() - 60000);
+
+const toEntry = (kind: IcsEntry["kind"], props: IcsProperty[]): IcsEntry => {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const start = parseIcsDate(get("DTSTART"));
+  const endProp = parseIcsDate(get(kind === "VTODO" ? "DUE" : "DTEND"));
+  let end = endProp?.date ?? null;
+  if (endProp?.allDay && kind === "VEVENT")
+    end = lastMinuteBefore(endProp.date);
+  if (!end && start) {
+    end = start.allDay
+      ? lastMinuteBefore(new Date(start.date.getTime() + 86400000))
+      : start.date;
+  }
+  return {
+    uid: get("UID")?.value.trim() || null,
+    kind,
+    summary: unescapeText(get("SUMMARY")?.value ?? "").trim(),
+    description: unescapeText(get("DESCRIPTION")?.value ?? "").trim(),
+    start: start?.date ?? end,
+    end,
+    recurrenceId: parseIcsDate(get("RECURRENCE-ID"))?.date ?? null,
+  };
+};
+
+/** every VEVENT and VTODO of the file; nested VALARMs are skipped */
+export const parseIcs = (text: string): IcsEntry[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const entries: IcsEntry[] = [];
+  let current: { kind: IcsEntry["kind"]; props: IcsProperty[] } | null = null;
+  let nested = 0;
+  for (const line of lines) {
+    const prop = parsePropertyLine(line);
+    if (!prop) continue;
+    if (prop.name === "BEGIN") {
+      const kind = prop.value.trim().toUpperCase();
+      if (current) nested++;
+      else if (kind === "VEVENT" || kind === "VTODO") {
+        current = { kind, props: [] };
+      }
+    } else if (prop.name === "END" && current) {
+      if (nested > 0) nested--;
+      else {
+        entries.push(toEntry(current.kind, current.props));
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.props.push(prop);
+    }
+  }
+  return entries;
+};
+
+/** `subtask`: matched a subtask, which an import never rewrites */
+export type IcsImportAction = "create" | "update" | "unchanged" | "subtask";
+
+export interface IcsImportItem {
+  entry: IcsEntry;
+  /** task the entry was imported into (or exported from) before */
+  existing: TaskItem | null;
+  action: IcsImportAction;
+}
+
+/** UID of one of our own exports -> task id */
+const exportedTaskId = (uid: string) =>
+  uid.endsWith(`@${ICS_UID_DOMAIN}`)
+    ? uid.slice(0, -ICS_UID_DOMAIN.length - 1)
+    : null;
+
+const sameTime = (a: Date | null | undefined, b: Date | null | undefined) =>
+  (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+/**
+ * One entry per UID. A repeating event comes as its master VEVENT plus one
+ * VEVENT per changed occurrence (RECURRENCE-ID): the change of the master's
+ * own occurrence replaces it, changes of later occurrences have no task to
+ * go to (imported tasks don't repeat). Without a master the earliest
+ * change stands in for the series.
+ */
+const mergeOverrides = (entries: IcsEntry[]): IcsEntry[] => {
+  const groups: Record<string, IcsEntry[]> = {};
+  for (const entry of entries) {
+    if (entry.uid) (groups[entry.uid] ??= []).push(entry);
+  }
+  return entries.flatMap((entry) => {
+    const group = entry.uid ? groups[entry.uid] : [entry];
+    if (group[0] !== entry) return [];
+    const master = group.find((e) => !e.recurrenceId);
+    const overrides = group
+      .filter((e) => e.recurrenceId)
+      .sort((a, b) => a.recurrenceId!.getTime() - b.recurrenceId!.getTime());
+    if (!master) return [overrides[0]];
+    return [
+      overrides.find((o) => sameTime(o.recurrenceId, master.start)) ?? master,
+    ];
+  });
+};
+
+/**
+ * Match entries to tasks by UID so a re-import updates instead of
+ * duplicating. Subtasks are never rewritten: their entries are marked
+ * `subtask` and can't be imported.
+ */
+export const planIcsImport = (
+  entries: IcsEntry[],
+  nodes: TaskItem[]
+): IcsImportItem[] =>
+  mergeOverrides(entries).map((entry) => {
+    const ownId = entry.uid ? exportedTaskId(entry.uid) : null;
+    const existing =
+      (entry.uid && nodes.find((n) => n.ics_uid === entry.uid)) ||
+      (ownId && nodes.find((n) => n.id === ownId)) ||
+      null;
+    if (!existing) return { entry, existing, action: "create" };
+    if (existing.parent_id) return { entry, existing, action: "subtask" };
+    const unchanged =
+      existing.task_name === entry.summary &&
+      (existing.task_detail ?? "") === entry.description &&
+      sameTime(existing.start_time, entry.start) &&
+      sameTime(existing.end_time, entry.end);
+    return { entry, existing, action: unchanged ? "unchanged" : "update" };
+  });
+
+/**
+ * saveTaskWithLevel input for an item; updates keep the task's level,
+ * course, tags and recurrence
+ */
+export const icsItemToTask = (
+  item: IcsImportItem,
+  defaultLevel: number
+): SaveTaskInput => ({
+  id: item.existing?.id,
+  task_name: item.entry.summary || "Untitled event",
+  task_detail: item.entry.description,
+  start_time: item.entry.start,
+  end_time: item.entry.end,
+  level: item.existing?.level ?? defaultLevel,
+  recurrence: item.existing?.recurrence,
+  course_id: item.existing?.course_id,
+  tags: item.existing?.tags,
+  ics_uid: item.entry.uid ?? undefined,
+});
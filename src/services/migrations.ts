@@ -0,0 +1,66 @@
+// src/services/migrations.ts
+import { getRepository } from "./repository";
+
+/**
+ * One-off data migrations, run once per user and browser after sign-in.
+ * A migration that fails (e.g. offline) is retried on the next sign-in;
+ * each one must be safe to run again.
+ */
+interface Migration {
+  id: string;
+  run: (uid: string) => Promise<number>;
+}
+
+const MIGRATIONS: Migration[] = [
+  // first: later migrations only look at the `tasks` collection
+  {
+    id: "task-hierarchy",
+    run: (uid) => getRepository().migrateTaskHierarchy(uid),
+  },
+  {
+    id: "progress-timestamps",
+    run: (uid) => getRepository().migrateProgressTimestamps(uid),
+  },
+];
+
+const storageKey = (uid: string, id: string) => `migration_${id}_${uid}`;
+
+const isDone = (uid: string, id: string) => {
+  try {
+    return localStorage.getItem(storageKey(uid, id)) === "done";
+  } catch {
+    return false;
+  }
+};
+
+const markDone = (uid: string, id: string) => {
+  try {
+    localStorage.setItem(storageKey(uid, id), "done");
+  } catch {
+    // storage unavailable: the migration simply runs again next time
+  }
+};
+
+let running: Promise<void> | null = null;
+
+export const runPendingMigrations = (uid: string): Promise<void> => {
+  if (running) return running;
+  running = (async () => {
+    for (const migration of MIGRATIONS) {
+      if (isDone(uid, migration.id)) continue;
+      try {
+        const updated = await migration.run(uid);
+        markDone(uid, migration.id);
+        if (updated > 0) {
+          console.info(`[migrations] ${migration.id}: ${updated} docs updated`);
+        }
+      } catch (err) {
+        console.error(`[migrations] ${migration.id} failed:`, err);
+        break;
+      }
+    }
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+};
@@ -0,0 +1,75 @@
+// src/services/notifications.ts
+
+/**
+ * Browser notifications for reminders. They go through the service worker
+ * (public/sw.js) when it is registered, so they can carry a Snooze action
+ * and still work from a background tab; plain `Notification` otherwise.
+ */
+
+export const notificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+export const notificationPermission = (): NotificationPermission | null =>
+  notificationsSupported() ? Notification.permission : null;
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return null;
+  try {
+    return await Notification.requestPermission();
+  } catch (err) {
+    console.error("[notifications] permission request failed:", err);
+    return Notification.permission;
+  }
+};
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+/** register the worker once; null when the browser has none */
+export const registerReminderWorker = () => {
+  if (!registration) {
+    registration =
+      typeof navigator !== "undefined" && "serviceWorker" in navigator
+        ? navigator.serviceWorker.register("/sw.js").catch((err) => {
+            console.error("[notifications] service worker failed:", err);
+            return null;
+          })
+        : Promise.resolve(null);
+  }
+  return registration;
+};
+
+/** message the worker posts back when a notification action is clicked */
+export interface ReminderWorkerMessage {
+  type: "reminder-snooze";
+  key: string;
+}
+
+export const showSystemNotification = async (
+  title: string,
+  options: { body: string; tag: string; snoozable?: boolean }
+) => {
+  if (notificationPermission() !== "granted") return;
+  const worker = await registerReminderWorker();
+  const base = {
+    body: options.body,
+    tag: options.tag,
+    icon: "/naver-favicon.ico",
+    data: { key: options.tag },
+  };
+  try {
+    if (worker) {
+      // `actions` is only typed for service worker notifications in lib.dom
+      await worker.showNotification(title, {
+        ...base,
+        requireInteraction: true,
+        ...(options.snoozable && {
+          actions: [{ action: "snooze", title: "Snooze" }],
+        }),
+      } as NotificationOptions);
+    } else {
+      new Notification(title, base);
+    }
+  } catch (err) {
+    console.error("[notifications] failed to show notification:", err);
+  }
+};
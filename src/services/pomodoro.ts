@@ -0,0 +1,140 @@
+// src/services/pomodoro.ts
+import { createUserStore } from "./userStore";
+
+/**
+ * Pomodoro mode of the Timer: focus phases separated by short breaks, a
+ * long break every few focus phases. The lengths and the count of focus
+ * phases finished per task are saved per user in the repository; a running
+ * Pomodoro is kept on the task's tracking session (see timeTracking.ts).
+ */
+
+/** ---------- Phases ---------- */
+
+export const PomodoroPhase = {
+  FOCUS: "focus",
+  SHORT_BREAK: "short_break",
+  LONG_BREAK: "long_break",
+} as const;
+
+export type PomodoroPhase = (typeof PomodoroPhase)[keyof typeof PomodoroPhase];
+
+export const POMODORO_PHASE_LABELS: Record<PomodoroPhase, string> = {
+  [PomodoroPhase.FOCUS]: "🍅 Focus",
+  [PomodoroPhase.SHORT_BREAK]: "☕ Short break",
+  [PomodoroPhase.LONG_BREAK]: "🌴 Long break",
+};
+
+export interface PomodoroSettings {
+  focus_minutes: number;
+  short_break_minutes: number;
+  long_break_minutes: number;
+  /** focus phases before a long break */
+  cycles_before_long_break: number;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focus_minutes: 25,
+  short_break_minutes: 5,
+  long_break_minutes: 15,
+  cycles_before_long_break: 4,
+};
+
+export const phaseMinutes = (
+  phase: PomodoroPhase,
+  settings: PomodoroSettings
+) => {
+  switch (phase) {
+    case PomodoroPhase.FOCUS:
+      return settings.focus_minutes;
+    case PomodoroPhase.SHORT_BREAK:
+      return settings.short_break_minutes;
+    case PomodoroPhase.LONG_BREAK:
+      return settings.long_break_minutes;
+  }
+};
+
+/** a Pomodoro running on a task */
+export interface PomodoroRun {
+  phase: PomodoroPhase;
+  /** end of the current phase, null while paused */
+  ends_at: Date | null;
+  /** ms left in the phase while paused */
+  paused_left: number | null;
+  /** focus phases finished since the Pomodoro started, for the long break */
+  focus_done: number;
+}
+
+/** phase after `phase`, `focusDone` = focus phases finished so far */
+export const nextPhase = (
+  phase: PomodoroPhase,
+  focusDone: number,
+  settings: PomodoroSettings
+): PomodoroPhase => {
+  if (phase !== PomodoroPhase.FOCUS) return PomodoroPhase.FOCUS;
+  return focusDone > 0 && focusDone % settings.cycles_before_long_break === 0
+    ? PomodoroPhase.LONG_BREAK
+    : PomodoroPhase.SHORT_BREAK;
+};
+
+/** whole minutes >= 1, anything else falls back to the default */
+export const normalizePomodoroSettings = (
+  settings: Partial<PomodoroSettings>
+): PomodoroSettings =>
+  Object.fromEntries(
+    (Object.keys(DEFAULT_POMODORO_SETTINGS) as (keyof PomodoroSettings)[]).map(
+      (key) => {
+        const value = Math.round(Number(settings[key]));
+        return [
+          key,
+          Number.isFinite(value) && value >= 1
+            ? value
+            : DEFAULT_POMODORO_SETTINGS[key],
+        ];
+      }
+    )
+  ) as unknown as PomodoroSettings;
+
+/** ---------- Storage ---------- */
+
+export interface PomodoroState {
+  settings: PomodoroSettings;
+  /** task id -> focus phases completed on it */
+  completed: Record<string, number>;
+}
+
+const DEFAULT_STATE: PomodoroState = {
+  settings: DEFAULT_POMODORO_SETTINGS,
+  completed: {},
+};
+
+export const pomodoroStore = createUserStore<PomodoroState>({
+  key: "pomodoro",
+  fallback: DEFAULT_STATE,
+  parse: (raw) => {
+    const parsed = raw as Partial<PomodoroState>;
+    return {
+      settings: normalizePomodoroSettings(parsed.settings ?? {}),
+      completed: parsed.completed ?? {},
+    };
+  },
+  legacyStorageKey: "naver_ai_pomodoro:",
+});
+
+export const savePomodoroSettings = (
+  uid: string,
+  settings: Partial<PomodoroSettings>
+) =>
+  pomodoroStore.update(uid, (state) => ({
+    ...state,
+    settings: normalizePomodoroSettings({ ...state.settings, ...settings }),
+  }));
+
+/** one more focus phase finished on `taskId` */
+export const recordPomodoro = (uid: string, taskId: string) =>
+  pomodoroStore.update(uid, (state) => ({
+    ...state,
+    completed: {
+      ...state.completed,
+      [taskId]: (state.completed[taskId] ?? 0) + 1,
+    },
+  }));
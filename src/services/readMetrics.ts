@@ -0,0 +1,26 @@
+// src/services/readMetrics.ts
+
+/**
+ * Counts the backend reads of the session, to keep an eye on what a page
+ * costs. `queries` = round trips (getDoc/getDocs), `documents` = docs
+ * returned (what Firestore bills for).
+ */
+export interface ReadMetrics {
+  queries: number;
+  documents: number;
+}
+
+let totals: ReadMetrics = { queries: 0, documents: 0 };
+
+export const recordRead = (documents: number) => {
+  totals = {
+    queries: totals.queries + 1,
+    documents: totals.documents + documents,
+  };
+};
+
+export const getReadMetrics = (): ReadMetrics => ({ ...totals });
+
+export const resetReadMetrics = () => {
+  totals = { queries: 0, documents: 0 };
+};
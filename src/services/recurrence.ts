@@ -0,0 +1,221 @@
+// src/services/recurrence.ts
+
+/** ---------- Rule ---------- */
+
+export const RecurrenceFreq = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+} as const;
+
+export type RecurrenceFreq =
+  (typeof RecurrenceFreq)[keyof typeof RecurrenceFreq];
+
+/**
+ * RRULE-like repeat rule stored on a task. The task's start_time/end_time
+ * describe the first occurrence; every other one keeps the same time of
+ * day and duration.
+ */
+export interface Recurrence {
+  freq: RecurrenceFreq;
+  /** every N days / weeks / months (>= 1) */
+  interval: number;
+  /** weekly only, 0 = Sunday ... 6 = Saturday; empty = weekday of the start */
+  by_weekday?: number[] | null;
+  /** no occurrence starts after this date (inclusive) */
+  until?: Date | null;
+  /** stop after this many occurrences */
+  count?: number | null;
+}
+
+export const RECURRENCE_FREQ_LABELS: Record<RecurrenceFreq, string> = {
+  [RecurrenceFreq.DAILY]: "Daily",
+  [RecurrenceFreq.WEEKLY]: "Weekly",
+  [RecurrenceFreq.MONTHLY]: "Monthly",
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const UNIT_LABELS: Record<RecurrenceFreq, string> = {
+  [RecurrenceFreq.DAILY]: "day",
+  [RecurrenceFreq.WEEKLY]: "week",
+  [RecurrenceFreq.MONTHLY]: "month",
+};
+
+/** "Every 2 weeks on Mon, Wed, until 31/12/2026" */
+export const describeRecurrence = (rule: Recurrence): string => {
+  const every =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${UNIT_LABELS[rule.freq]}s`
+      : `Every ${UNIT_LABELS[rule.freq]}`;
+  const parts = [every];
+  if (rule.freq === RecurrenceFreq.WEEKLY && rule.by_weekday?.length) {
+    parts[0] += ` on ${[...rule.by_weekday]
+      .sort()
+      .map((d) => WEEKDAY_LABELS[d])
+      .join(", ")}`;
+  }
+  if (rule.until) parts.push(`until ${rule.until.toLocaleDateString("en-GB")}`);
+  if (rule.count) parts.push(`${rule.count} times`);
+  return parts.join(", ");
+};
+
+/** Returns an error message, or null when the rule can be saved */
+export const validateRecurrence = (
+  rule: Recurrence,
+  start: Date | null | undefined
+): string | null => {
+  if (!start) return "A repeating task needs a start or end time";
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return "Repeat interval must be a whole number of at least 1";
+  }
+  if (rule.count != null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    return "Number of occurrences must be at least 1";
+  }
+  if (rule.until && rule.until < start) {
+    return "Repeat end date must be after the start time";
+  }
+  return null;
+};
+
+/** ---------- Occurrences ---------- */
+
+/** One generated instance of a repeating task */
+export interface TaskOccurrence {
+  /** `${seriesId}@${yyyy-mm-dd}`, also the key of its progress doc */
+  id: string;
+  series_id: string;
+  start: Date;
+  end: Date;
+}
+
+interface RecurringSource {
+  id: string;
+  start_time?: Date | null;
+  end_time?: Date | null;
+  recurrence?: Recurrence | null;
+}
+
+const OCCURRENCE_SEPARATOR = "@";
+
+/** safety net for open-ended rules (~27 years of a daily task) */
+const MAX_OCCURRENCES = 10000;
+
+const dateKey = (d: Date) =>
+  [
+    d.getFullYear(),
+    String(d.getMonth() + 1).padStart(2, "0"),
+    String(d.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const occurrenceId = (seriesId: string, start: Date) =>
+  `${seriesId}${OCCURRENCE_SEPARATOR}${dateKey(start)}`;
+
+/** series id + day of an occurrence id, null for a plain task/subtask id */
+export const parseOccurrenceId = (
+  id: string
+): { seriesId: string; date: string } | null => {
+  const index = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index <= 0) return null;
+  return { seriesId: id.slice(0, index), date: id.slice(index + 1) };
+};
+
+const addDays = (d: Date, days: number) => {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/** same day-of-month N months later, null when that month is too short */
+const addMonths = (d: Date, months: number) => {
+  const next = new Date(d);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  next.setDate(d.getDate());
+  return next.getDate() === d.getDate() ? next : null;
+};
+
+/** candidate start times in order, before until/count are applied */
+function* candidateStarts(rule: Recurrence, anchor: Date) {
+  const interval = Math.max(1, rule.interval);
+  for (let step = 0; step < MAX_OCCURRENCES; step += 1) {
+    switch (rule.freq) {
+      case RecurrenceFreq.DAILY:
+        yield addDays(anchor, step * interval);
+        break;
+      case RecurrenceFreq.WEEKLY: {
+        const weekdays = rule.by_weekday?.length
+          ? [...new Set(rule.by_weekday)].sort()
+          : [anchor.getDay()];
+        const weekStart = addDays(
+          anchor,
+          step * interval * 7 - anchor.getDay()
+        );
+        for (const day of weekdays) {
+          const start = addDays(weekStart, day);
+          if (start >= anchor) yield start;
+        }
+        break;
+      }
+      case RecurrenceFreq.MONTHLY: {
+        // like RRULE, months without that day (e.g. the 31st) are skipped
+        const start = addMonths(anchor, step * interval);
+        if (start) yield start;
+        break;
+      }
+    }
+  }
+}
+
+/** every occurrence of a repeating task, in order, honouring until/count */
+export function* iterateOccurrences(
+  task: RecurringSource
+): Generator<TaskOccurrence> {
+  const rule = task.recurrence;
+  const anchor = task.start_time ?? task.end_time;
+  if (!rule || !anchor) return;
+  const duration =
+    task.start_time && task.end_time
+      ? Math.max(0, task.end_time.getTime() - task.start_time.getTime())
+      : 0;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  let emitted = 0;
+  for (const start of candidateStarts(rule, anchor)) {
+    if (emitted >= limit) return;
+    if (rule.until && start > rule.until) return;
+    emitted += 1;
+    yield {
+      id: occurrenceId(task.id, start),
+      series_id: task.id,
+      start,
+      end: new Date(start.getTime() + duration),
+    };
+  }
+}
+
+/** occurrences overlapping [from, to] */
+export const expandOccurrences = (
+  task: RecurringSource,
+  from: Date,
+  to: Date
+): TaskOccurrence[] => {
+  const result: TaskOccurrence[] = [];
+  for (const occurrence of iterateOccurrences(task)) {
+    if (occurrence.start > to) break;
+    if (occurrence.end >= from) result.push(occurrence);
+  }
+  return result;
+};
+
+/** first occurrence ending at/after `from` that passes `accept` */
+export const findNextOccurrence = (
+  task: RecurringSource,
+  from: Date,
+  accept: (occurrence: TaskOccurrence) => boolean = () => true
+): TaskOccurrence | null => {
+  for (const occurrence of iterateOccurrences(task)) {
+    if (occurrence.end >= from && accept(occurrence)) return occurrence;
+  }
+  return null;
+};
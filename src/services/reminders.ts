@@ -0,0 +1,246 @@
+// src/services/reminders.ts
+import type { TaskItem } from "./firestore";
+import { type TaskProgress, TaskStatus } from "./taskProgress";
+import { findNextOccurrence } from "./recurrence";
+import { createUserStore } from "./userStore";
+
+/**
+ * Deadline reminders: each task reminds some minutes before its end_time,
+ * at its own offsets (`reminders`) or the user's default policy. The policy
+ * and which reminders already fired / were snoozed are saved per user in
+ * the repository; the scheduler (ReminderScheduler) checks them while the app
+ * is open and shows them through the service worker when there is one.
+ */
+
+/** ---------- Policy ---------- */
+
+export const REMINDER_OFFSET_OPTIONS = [
+  { minutes: 10080, label: "1 week before" },
+  { minutes: 1440, label: "1 day before" },
+  { minutes: 180, label: "3 hours before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 15, label: "15 minutes before" },
+];
+
+export const SNOOZE_OPTIONS = [5, 10, 15, 30, 60];
+
+export interface ReminderPolicy {
+  /** master switch */
+  enabled: boolean;
+  /** minutes before end_time, for tasks without reminders of their own */
+  offsets: number[];
+  snooze_minutes: number;
+}
+
+export const DEFAULT_REMINDER_POLICY: ReminderPolicy = {
+  enabled: true,
+  offsets: [1440, 60],
+  snooze_minutes: 10,
+};
+
+/** e.g. "2 days", "1 hour", "15 min" */
+export const describeMinutes = (minutes: number) => {
+  const plural = (n: number, unit: string) =>
+    `${n} ${unit}${n === 1 ? "" : "s"}`;
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    return plural(minutes / 1440, "day");
+  }
+  if (minutes >= 60 && minutes % 60 === 0) return plural(minutes / 60, "hour");
+  if (minutes >= 120) return plural(Math.round(minutes / 60), "hour");
+  return `${Math.max(1, Math.round(minutes))} min`;
+};
+
+/** e.g. "1 day, 1 hour before", "no reminders" */
+export const describeOffsets = (offsets: number[]) =>
+  offsets.length === 0
+    ? "no reminders"
+    : `${[...offsets]
+        .sort((a, b) => b - a)
+        .map(describeMinutes)
+        .join(", ")} before`;
+
+/** offsets a task reminds at, latest reminder last */
+export const reminderOffsets = (task: TaskItem, policy: ReminderPolicy) =>
+  [...(task.reminders ?? policy.offsets)].sort((a, b) => b - a);
+
+/** ---------- Storage ---------- */
+
+export interface ReminderState {
+  policy: ReminderPolicy;
+  /** keys of the reminders already shown */
+  fired: string[];
+  /** key -> when the snoozed reminder comes back */
+  snoozed: Record<string, Date>;
+}
+
+const DEFAULT_STATE: ReminderState = {
+  policy: DEFAULT_REMINDER_POLICY,
+  fired: [],
+  snoozed: {},
+};
+
+export const reminderStore = createUserStore<ReminderState>({
+  key: "reminders",
+  fallback: DEFAULT_STATE,
+  parse: (raw) => {
+    const parsed = raw as Partial<
+      Omit<ReminderState, "snoozed"> & { snoozed: Record<string, string> }
+    >;
+    return {
+      policy: { ...DEFAULT_REMINDER_POLICY, ...parsed.policy },
+      fired: parsed.fired ?? [],
+      snoozed: Object.fromEntries(
+        Object.entries(parsed.snoozed ?? {}).map(([key, until]) => [
+          key,
+          new Date(until),
+        ])
+      ),
+    };
+  },
+  legacyStorageKey: "naver_ai_reminders:",
+});
+
+export const saveReminderPolicy = (
+  uid: string,
+  policy: Partial<ReminderPolicy>
+) =>
+  reminderStore.update(uid, (state) => ({
+    ...state,
+    policy: { ...state.policy, ...policy },
+  }));
+
+/** deadlines further back than this no longer need their keys */
+const KEEP_FIRED_MS = 7 * 24 * 3600000;
+
+/** mark shown; keys of long-past deadlines are dropped on the way */
+export const markRemindersFired = (
+  uid: string,
+  keys: string[],
+  now = new Date()
+) => {
+  const recent = (key: string) =>
+    deadlineOfKey(key) > now.getTime() - KEEP_FIRED_MS;
+  reminderStore.update(uid, (state) => {
+    const snoozed = { ...state.snoozed };
+    keys.forEach((key) => delete snoozed[key]);
+    return {
+      ...state,
+      fired: [...new Set([...state.fired.filter(recent), ...keys])],
+      snoozed,
+    };
+  });
+};
+
+/** show the reminder again `minutes` from now */
+export const snoozeReminder = (
+  uid: string,
+  key: string,
+  minutes: number,
+  now = new Date()
+) =>
+  reminderStore.update(uid, (state) => ({
+    ...state,
+    fired: state.fired.filter((k) => k !== key),
+    snoozed: {
+      ...state.snoozed,
+      [key]: new Date(now.getTime() + minutes * 60000),
+    },
+  }));
+
+/** ---------- Scheduling ---------- */
+
+export interface Reminder {
+  /** `${taskId}|${deadline ms}|${offset}`: moving the deadline re-arms it */
+  key: string;
+  /** task, subtask or occurrence id */
+  task_id: string;
+  task_name: string;
+  deadline: Date;
+  offset: number;
+  at: Date;
+}
+
+const reminderKey = (taskId: string, deadline: Date, offset: number) =>
+  `${taskId}|${deadline.getTime()}|${offset}`;
+
+const deadlineOfKey = (key: string) => Number(key.split("|")[1]) || 0;
+
+const isOpen = (progress: Record<string, TaskProgress>, id: string) => {
+  const status = progress[id]?.task_status;
+  return status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED;
+};
+
+/**
+ * Reminders of the open nodes whose deadline is still ahead; a repeating
+ * task reminds for its next open occurrence.
+ */
+export const collectReminders = (
+  nodes: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  policy: ReminderPolicy,
+  now = new Date()
+): Reminder[] => {
+  if (!policy.enabled) return [];
+  const reminders: Reminder[] = [];
+  for (const node of nodes) {
+    const target = node.recurrence
+      ? findNextOccurrence(node, now, (o) => isOpen(progress, o.id))
+      : node.end_time && isOpen(progress, node.id)
+        ? { id: node.id, end: node.end_time }
+        : null;
+    if (!target || target.end <= now) continue;
+    for (const offset of reminderOffsets(node, policy)) {
+      reminders.push({
+        key: reminderKey(target.id, target.end, offset),
+        task_id: target.id,
+        task_name: node.task_name,
+        deadline: target.end,
+        offset,
+        at: new Date(target.end.getTime() - offset * 60000),
+      });
+    }
+  }
+  return reminders;
+};
+
+/**
+ * Reminders to show now: time reached, not shown yet, not snoozed. When a
+ * task has several (e.g. the app was closed), only its latest one counts
+ * and the others are `skipped`.
+ */
+export const dueReminders = (
+  reminders: Reminder[],
+  state: ReminderState,
+  now = new Date()
+) => {
+  const fired = new Set(state.fired);
+  const due = reminders.filter((r) => {
+    const snoozedUntil = state.snoozed[r.key];
+    return (
+      r.at <= now && (snoozedUntil ? snoozedUntil <= now : !fired.has(r.key))
+    );
+  });
+  const latest = new Map<string, Reminder>();
+  for (const reminder of due) {
+    const current = latest.get(reminder.task_id);
+    if (!current || reminder.offset < current.offset) {
+      latest.set(reminder.task_id, reminder);
+    }
+  }
+  const show = [...latest.values()];
+  return {
+    show,
+    skipped: due.filter((r) => !show.includes(r)),
+  };
+};
+
+/** e.g. "Due in 1 hour · 19/10, 14:00" */
+export const reminderMessage = (reminder: Reminder, now = new Date()) =>
+  `Due in ${describeMinutes(
+    (reminder.deadline.getTime() - now.getTime()) / 60000
+  )} · ${reminder.deadline.toLocaleString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    day: "2-digit",
+    month: "2-digit",
+  })}`;
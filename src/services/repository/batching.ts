@@ -0,0 +1,54 @@
+// src/services/repository/batching.ts
+
+/** Firestore accepts at most 30 values in an `in` / `array-contains-any` filter */
+export const IN_QUERY_LIMIT = 30;
+
+/** chunk queries allowed in flight at the same time */
+export const MAX_CONCURRENT_QUERIES = 4;
+
+/** split `items` into consecutive slices of at most `size` */
+export const chunk = <T>(items: T[], size = IN_QUERY_LIMIT): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export interface MultiGetOptions {
+  chunkSize?: number;
+  concurrency?: number;
+}
+
+/**
+ * Fetch results for any number of keys with a query that only takes a
+ * limited batch (e.g. `where(field, "in", keys)`):
+ * - empty input => no query at all
+ * - duplicate keys are dropped
+ * - at most `concurrency` chunks run at once, results merged in chunk order
+ * The first failing chunk rejects the whole call.
+ */
+export const multiGet = async <K, R>(
+  keys: K[],
+  fetchChunk: (keys: K[]) => Promise<R[]>,
+  {
+    chunkSize = IN_QUERY_LIMIT,
+    concurrency = MAX_CONCURRENT_QUERIES,
+  }: MultiGetOptions = {}
+): Promise<R[]> => {
+  const chunks = chunk([...new Set(keys)], chunkSize);
+  if (chunks.length === 0) return [];
+
+  const results: R[][] = new Array(chunks.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < chunks.length) {
+      const index = nextIndex++;
+      results[index] = await fetchChunk(chunks[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, chunks.length) }, worker)
+  );
+  return results.flat();
+};
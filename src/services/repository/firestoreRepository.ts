@@ -0,0 +1,1119 @@
+// src/services/repository/firestoreRepository.ts
+import {
+  collection,
+  doc,
+  setDoc,
+  addDoc,
+  serverTimestamp,
+  query,
+  where,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  writeBatch,
+  arrayRemove,
+  onSnapshot,
+  runTransaction,
+  deleteField,
+  increment,
+  type DocumentData,
+  type DocumentReference,
+  type FieldPath,
+  type Query,
+  type WriteBatch,
+  type Firestore,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import type {
+  TaskItem,
+  TaskChild,
+  Course,
+  Semester,
+  Tag,
+  ClassSession,
+} from "../firestore";
+import {
+  type TaskProgress,
+  type TaskStatusEvent,
+  nextProgressTimestamps,
+  backfillProgressTimestamps,
+  groupStatusEvents,
+} from "../taskProgress";
+import { type Recurrence, parseOccurrenceId } from "../recurrence";
+import { DEFAULT_COURSE_COLOR } from "../courses";
+import { DEFAULT_TAG_COLOR } from "../tags";
+import { recordRead } from "../readMetrics";
+import type { TaskRepository } from ".";
+import { IN_QUERY_LIMIT, chunk, multiGet } from "./batching";
+
+/** Firestore limit of writes per batch */
+const BATCH_WRITE_LIMIT = 500;
+
+/** ---------- Helpers ---------- */
+
+/** Normalize date fields: keep Date or null (never undefined) */
+const normalizeDate = (d: unknown): Date | null => {
+  if (!d && d !== 0) return null;
+  if (d instanceof Date) return d;
+  // if Firestore Timestamp object (server), it may have toDate()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  if (typeof (d as any)?.toDate === "function") return (d as any).toDate();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const parsed = new Date(d as any);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/** Giống như start_time/end_time nhưng luôn trả về Date (fallback hiện tại) */
+const normalizeProgressDate = (d: unknown): Date =>
+  normalizeDate(d) ?? new Date();
+
+/** Remove undefined properties from object (Firestore rejects undefined) */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const cleanForFirestore = (obj: Record<string, any>) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const out: Record<string, any> = {};
+  for (const k of Object.keys(obj)) {
+    const v = obj[k];
+    if (v === undefined) continue;
+    out[k] = v;
+  }
+  return out;
+};
+
+/** getDocs/getDoc that also feed the read counters (see readMetrics.ts) */
+const fetchDocs = async (q: Query) => {
+  const snap = await getDocs(q);
+  // an empty result is still billed as one read
+  recordRead(Math.max(snap.size, 1));
+  return snap;
+};
+
+const fetchDoc = async (ref: DocumentReference) => {
+  const snap = await getDoc(ref);
+  recordRead(1);
+  return snap;
+};
+
+/** also used on save, so a stored rule never holds `undefined` */
+const mapRecurrence = (
+  data: DocumentData | Recurrence | null | undefined
+): Recurrence | null =>
+  data?.freq
+    ? {
+        freq: data.freq,
+        interval: typeof data.interval === "number" ? data.interval : 1,
+        by_weekday: Array.isArray(data.by_weekday) ? data.by_weekday : null,
+        until: normalizeDate(data.until),
+        count: typeof data.count === "number" ? data.count : null,
+      }
+    : null;
+
+const mapTaskDoc = (id: string, data: DocumentData): TaskItem => ({
+  id,
+  task_name: data.task_name,
+  task_detail: data.task_detail ?? "",
+  parent_id: data.parent_id ?? null,
+  start_time: normalizeDate(data.start_time),
+  end_time: normalizeDate(data.end_time),
+  createdAt: data.createdAt ? normalizeDate(data.createdAt) : null,
+  user_id: data.user_id,
+  level: typeof data.level === "number" ? data.level : undefined,
+  recurrence: mapRecurrence(data.recurrence),
+  depends_on: Array.isArray(data.depends_on) ? data.depends_on : [],
+  course_id: data.course_id ?? null,
+  tags: Array.isArray(data.tags) ? data.tags : [],
+  ics_uid: data.ics_uid ?? null,
+  estimated_minutes:
+    typeof data.estimated_minutes === "number" ? data.estimated_minutes : null,
+  actual_minutes:
+    typeof data.actual_minutes === "number" ? data.actual_minutes : null,
+  reminders: Array.isArray(data.reminders) ? data.reminders : null,
+});
+
+/** subtask node; also reads legacy `task_child` docs (same fields) */
+const mapChildDoc = (id: string, data: DocumentData): TaskChild =>
+  mapTaskDoc(id, data) as TaskChild;
+
+const mapProgressDoc = (data: DocumentData): TaskProgress => ({
+  task_id: data.task_id,
+  task_status: data.task_status,
+  updated_at: normalizeProgressDate(data.updated_at),
+  status_reason: data.status_reason ?? null,
+  // keep `undefined` for legacy docs so the migration can spot them
+  started_at:
+    data.started_at === undefined ? undefined : normalizeDate(data.started_at),
+  completed_at:
+    data.completed_at === undefined
+      ? undefined
+      : normalizeDate(data.completed_at),
+  cancelled_at:
+    data.cancelled_at === undefined
+      ? undefined
+      : normalizeDate(data.cancelled_at),
+  series_id: data.series_id ?? null,
+});
+
+const mapStatusEventDoc = (
+  id: string,
+  data: DocumentData
+): TaskStatusEvent => ({
+  id,
+  task_id: data.task_id,
+  user_id: data.user_id ?? null,
+  from_status: data.from_status ?? null,
+  to_status: data.to_status,
+  changed_at: normalizeProgressDate(data.changed_at),
+  reason: data.reason ?? null,
+});
+
+const mapSemesterDoc = (id: string, data: DocumentData): Semester => ({
+  id,
+  user_id: data.user_id,
+  name: data.name ?? "",
+  start_date: normalizeDate(data.start_date),
+  end_date: normalizeDate(data.end_date),
+  createdAt: data.createdAt ? normalizeDate(data.createdAt) : null,
+});
+
+const mapCourseDoc = (id: string, data: DocumentData): Course => ({
+  id,
+  user_id: data.user_id,
+  name: data.name ?? "",
+  code: data.code ?? "",
+  credits: typeof data.credits === "number" ? data.credits : null,
+  color: data.color ?? DEFAULT_COURSE_COLOR,
+  instructor: data.instructor ?? "",
+  semester_id: data.semester_id ?? null,
+  createdAt: data.createdAt ? normalizeDate(data.createdAt) : null,
+});
+
+const mapTagDoc = (id: string, data: DocumentData): Tag => ({
+  id,
+  user_id: data.user_id,
+  name: data.name ?? "",
+  color: data.color ?? DEFAULT_TAG_COLOR,
+  createdAt: data.createdAt ? normalizeDate(data.createdAt) : null,
+});
+
+const mapClassSessionDoc = (id: string, data: DocumentData): ClassSession => ({
+  id,
+  user_id: data.user_id,
+  course_id: data.course_id ?? null,
+  room: data.room ?? "",
+  weekday: Number(data.weekday ?? 0),
+  start_time: data.start_time ?? "00:00",
+  end_time: data.end_time ?? "00:00",
+  start_date: normalizeDate(data.start_date),
+  end_date: normalizeDate(data.end_date),
+  createdAt: data.createdAt ? normalizeDate(data.createdAt) : null,
+});
+
+const byChangedAt = (a: TaskStatusEvent, b: TaskStatusEvent) =>
+  a.changed_at.getTime() - b.changed_at.getTime();
+
+/**
+ * Firestore-backed repository. Collections:
+ * `tasks` (task nodes, see TaskItem), `task_levels`, `task_progress`,
+ * `task_status_events`, `courses`, `semesters`, `tags`, `class_sessions`,
+ * `users`.
+ */
+export const createFirestoreRepository = (
+  firestore: Firestore = db
+): TaskRepository => {
+  /** docs whose `field` is one of `values`, any number of values (see multiGet) */
+  const fetchWhereIn = (
+    collectionName: string,
+    field: string | FieldPath,
+    values: string[]
+  ) =>
+    multiGet(values, async (batch) => {
+      const snap = await fetchDocs(
+        query(collection(firestore, collectionName), where(field, "in", batch))
+      );
+      return snap.docs;
+    });
+
+  /** every doc of `collectionName` owned by the user */
+  const fetchByUser = (collectionName: string, uid: string) =>
+    fetchDocs(
+      query(collection(firestore, collectionName), where("user_id", "==", uid))
+    );
+
+  /** ids of every node below `rootId`, one chunked query per depth level */
+  const collectDescendantIds = async (rootId: string) => {
+    const found = new Set<string>();
+    let frontier = [rootId];
+    while (frontier.length > 0) {
+      const docs = await fetchWhereIn("tasks", "parent_id", frontier);
+      // guard against a parent_id cycle in corrupted data
+      frontier = docs.map((d) => d.id).filter((id) => !found.has(id));
+      frontier.forEach((id) => found.add(id));
+    }
+    found.delete(rootId);
+    return [...found];
+  };
+
+  /**
+   * delete a node, its whole subtree and what hangs off them: level docs,
+   * progress (occurrences of repeating nodes included) and status events
+   */
+  const deleteSubtree = async (rootId: string) => {
+    const ids = [rootId, ...(await collectDescendantIds(rootId))];
+    const [levelDocs, occurrenceDocs] = await Promise.all([
+      fetchWhereIn("task_levels", "task_id", ids),
+      fetchWhereIn("task_progress", "series_id", ids),
+    ]);
+    const progressIds = [...ids, ...occurrenceDocs.map((d) => d.id)];
+    const eventDocs = await fetchWhereIn(
+      "task_status_events",
+      "task_id",
+      progressIds
+    );
+    const refs = [
+      ...ids.map((id) => doc(firestore, "tasks", id)),
+      ...levelDocs.map((d) => d.ref),
+      ...progressIds.map((id) => doc(firestore, "task_progress", id)),
+      ...eventDocs.map((d) => d.ref),
+    ];
+    for (const part of chunk(refs, BATCH_WRITE_LIMIT)) {
+      const batch = writeBatch(firestore);
+      part.forEach((ref) => batch.delete(ref));
+      await batch.commit();
+    }
+  };
+
+  /** ---------- Child tasks ---------- */
+
+  /**
+   * Create a subtask node under `parentId` (a task or another subtask).
+   * Will validate parent exists and belongs to uid.
+   */
+  const createChildTask: TaskRepository["createChildTask"] = async (
+    uid,
+    parentId,
+    childTask
+  ) => {
+    // Validate parent exists and owner
+    const parentRef = doc(firestore, "tasks", parentId);
+    const parentSnap = await fetchDoc(parentRef);
+    if (!parentSnap.exists()) {
+      throw new Error("Parent task does not exist");
+    }
+    const parentData = parentSnap.data();
+    if (parentData.user_id !== uid) {
+      throw new Error(
+        "You do not have permission to add a subtask to this task"
+      );
+    }
+
+    // Create child
+    const childDocRef = await addDoc(collection(firestore, "tasks"), {
+      task_name: childTask.task_name,
+      task_detail: childTask.task_detail ?? "",
+      start_time: childTask.start_time ?? null,
+      end_time: childTask.end_time ?? null,
+      level: childTask.level ?? null,
+      tags: childTask.tags ?? [],
+      estimated_minutes: childTask.estimated_minutes ?? null,
+      parent_id: parentId,
+      user_id: uid,
+      createdAt: serverTimestamp(),
+    });
+
+    return childDocRef.id;
+  };
+
+  const getChildTasksByParentId: TaskRepository["getChildTasksByParentId"] =
+    async (parentId) => {
+      const q = query(
+        collection(firestore, "tasks"),
+        where("parent_id", "==", parentId)
+      );
+      const querySnapshot = await fetchDocs(q);
+      return querySnapshot.docs.map((d) => mapChildDoc(d.id, d.data()));
+    };
+
+  const updateChildTask: TaskRepository["updateChildTask"] = async (
+    childId,
+    data
+  ) => {
+    const childRef = doc(firestore, "tasks", childId);
+    const payload = cleanForFirestore({
+      ...data,
+      start_time: data.start_time ?? null,
+      end_time: data.end_time ?? null,
+      updatedAt: serverTimestamp(),
+    });
+    await updateDoc(childRef, payload);
+  };
+
+  /** the parent keeps no list of children, so only the subtree goes */
+  const deleteChildTask: TaskRepository["deleteChildTask"] = async (childId) =>
+    deleteSubtree(childId);
+
+  /** ---------- Courses & Semesters ---------- */
+
+  /** create (no id) or update a user-owned doc, returns its id */
+  const saveUserDoc = async (
+    collectionName: string,
+    uid: string,
+    id: string | undefined,
+    fields: Record<string, unknown>
+  ) => {
+    if (id) {
+      await updateDoc(
+        doc(firestore, collectionName, id),
+        cleanForFirestore({ ...fields, updatedAt: serverTimestamp() })
+      );
+      return id;
+    }
+    const ref = await addDoc(
+      collection(firestore, collectionName),
+      cleanForFirestore({
+        ...fields,
+        user_id: uid,
+        createdAt: serverTimestamp(),
+      })
+    );
+    return ref.id;
+  };
+
+  /**
+   * Delete a doc and unlink the user's docs that point at it: `field` is
+   * cleared, or for a list field (`many`) the id is removed from it.
+   */
+  const deleteAndUnlink = async (
+    collectionName: string,
+    id: string,
+    uid: string,
+    linkedCollection: string,
+    field: string,
+    many = false
+  ) => {
+    const linked = await fetchDocs(
+      query(
+        collection(firestore, linkedCollection),
+        where("user_id", "==", uid),
+        where(field, many ? "array-contains" : "==", id)
+      )
+    );
+    const unlinked = { [field]: many ? arrayRemove(id) : null };
+    const writes: ((batch: WriteBatch) => void)[] = linked.docs.map(
+      (d) => (batch) => batch.update(d.ref, unlinked)
+    );
+    writes.push((batch) => batch.delete(doc(firestore, collectionName, id)));
+    for (const part of chunk(writes, BATCH_WRITE_LIMIT)) {
+      const batch = writeBatch(firestore);
+      part.forEach((write) => write(batch));
+      await batch.commit();
+    }
+  };
+
+  const saveCourse: TaskRepository["saveCourse"] = (uid, course) =>
+    saveUserDoc("courses", uid, course.id, {
+      name: course.name,
+      code: course.code,
+      credits: course.credits ?? null,
+      color: course.color,
+      instructor: course.instructor ?? "",
+      semester_id: course.semester_id ?? null,
+    });
+
+  const deleteCourse: TaskRepository["deleteCourse"] = (uid, courseId) =>
+    deleteAndUnlink("courses", courseId, uid, "tasks", "course_id");
+
+  const saveSemester: TaskRepository["saveSemester"] = (uid, semester) =>
+    saveUserDoc("semesters", uid, semester.id, {
+      name: semester.name,
+      start_date: normalizeDate(semester.start_date),
+      end_date: normalizeDate(semester.end_date),
+    });
+
+  const deleteSemester: TaskRepository["deleteSemester"] = (uid, semesterId) =>
+    deleteAndUnlink("semesters", semesterId, uid, "courses", "semester_id");
+
+  /** ---------- Tags ---------- */
+
+  const saveTag: TaskRepository["saveTag"] = (uid, tag) =>
+    saveUserDoc("tags", uid, tag.id, { name: tag.name, color: tag.color });
+
+  const deleteTag: TaskRepository["deleteTag"] = (uid, tagId) =>
+    deleteAndUnlink("tags", tagId, uid, "tasks", "tags", true);
+
+  /** ---------- Timetable ---------- */
+
+  const saveClassSession: TaskRepository["saveClassSession"] = (
+    uid,
+    session
+  ) =>
+    saveUserDoc("class_sessions", uid, session.id, {
+      course_id: session.course_id ?? null,
+      room: session.room ?? "",
+      weekday: session.weekday,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      start_date: normalizeDate(session.start_date),
+      end_date: normalizeDate(session.end_date),
+    });
+
+  const deleteClassSession: TaskRepository["deleteClassSession"] = async (
+    _uid,
+    sessionId
+  ) => {
+    await deleteDoc(doc(firestore, "class_sessions", sessionId));
+  };
+
+  /** ---------- User data ---------- */
+
+  const userDataRef = (uid: string, key: string) =>
+    doc(firestore, "user_data", `${uid}_${key}`);
+
+  const saveUserData: TaskRepository["saveUserData"] = async (
+    uid,
+    key,
+    value
+  ) => {
+    await setDoc(userDataRef(uid, key), {
+      user_id: uid,
+      key,
+      value,
+      updatedAt: serverTimestamp(),
+    });
+  };
+
+  /** ---------- Users ---------- */
+
+  const createUserIfNotExists: TaskRepository["createUserIfNotExists"] =
+    async (uid, username, email) => {
+      const userRef = doc(firestore, "users", uid);
+      await setDoc(
+        userRef,
+        {
+          username: username ?? null,
+          email: email ?? null,
+          createdAt: serverTimestamp(),
+        },
+        { merge: true }
+      );
+    };
+
+  /** ---------- Tasks & Levels ---------- */
+
+  /**
+   * Atomic save:
+   * - create/update task doc in `tasks`
+   * - create/update corresponding doc in `task_levels`
+   *
+   * Improvements:
+   * - never write `undefined` to Firestore
+   * - store `level` also inside `tasks` for faster reads (keeps task_levels as source-of-truth too)
+   * - convert Date-like input to either Date or null
+   */
+  const saveTaskWithLevel: TaskRepository["saveTaskWithLevel"] = async (
+    uid,
+    task
+  ) => {
+    // normalize input
+    const normalized = {
+      task_name: task.task_name,
+      task_detail: task.task_detail ?? "",
+      start_time: normalizeDate(task.start_time),
+      end_time: normalizeDate(task.end_time),
+      level: typeof task.level === "number" ? task.level : 0,
+      recurrence: mapRecurrence(task.recurrence),
+    };
+
+    if (task.id) {
+      // update path
+      const levelQ = query(
+        collection(firestore, "task_levels"),
+        where("task_id", "==", task.id)
+      );
+      const levelSnap = await fetchDocs(levelQ);
+
+      const batch = writeBatch(firestore);
+      const taskRef = doc(firestore, "tasks", task.id);
+
+      // prepare update fields (no undefined)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const updateFields: Record<string, any> = {};
+      if (normalized.task_name !== undefined)
+        updateFields.task_name = normalized.task_name;
+      if (normalized.task_detail !== undefined)
+        updateFields.task_detail = normalized.task_detail;
+      // explicitly allow set null for start/end
+      updateFields.start_time = normalized.start_time ?? null;
+      updateFields.end_time = normalized.end_time ?? null;
+      // update level inside tasks for faster reads
+      updateFields.level = normalized.level;
+      // `undefined` = caller did not touch the repeat rule / course
+      if (task.recurrence !== undefined)
+        updateFields.recurrence = normalized.recurrence;
+      if (task.course_id !== undefined)
+        updateFields.course_id = task.course_id;
+      if (task.tags !== undefined) updateFields.tags = task.tags ?? [];
+      if (task.ics_uid !== undefined) updateFields.ics_uid = task.ics_uid;
+      if (task.estimated_minutes !== undefined)
+        updateFields.estimated_minutes = task.estimated_minutes;
+      if (task.reminders !== undefined) updateFields.reminders = task.reminders;
+
+      // remove any undefined keys (just in case)
+      const cleanFields = cleanForFirestore(updateFields);
+      if (Object.keys(cleanFields).length > 0) {
+        batch.update(taskRef, cleanFields);
+      }
+
+      if (levelSnap.docs.length > 0) {
+        // update first found level doc
+        batch.update(levelSnap.docs[0].ref, { level: normalized.level });
+      } else {
+        const newLevelRef = doc(collection(firestore, "task_levels"));
+        batch.set(newLevelRef, { task_id: task.id, level: normalized.level });
+      }
+
+      // debug log
+      console.debug(
+        "[saveTaskWithLevel] updating task",
+        task.id,
+        cleanFields,
+        "level:",
+        normalized.level
+      );
+
+      await batch.commit();
+      return task.id;
+    } else {
+      // create path
+      const batch = writeBatch(firestore);
+      const taskRef = doc(collection(firestore, "tasks")); // generate id client side
+      const levelRef = doc(collection(firestore, "task_levels"));
+
+      const taskPayload = cleanForFirestore({
+        task_name: normalized.task_name,
+        task_detail: normalized.task_detail,
+        parent_id: null,
+        start_time: normalized.start_time ?? null,
+        end_time: normalized.end_time ?? null,
+        recurrence: normalized.recurrence,
+        course_id: task.course_id ?? null,
+        tags: task.tags ?? [],
+        ics_uid: task.ics_uid ?? null,
+        estimated_minutes: task.estimated_minutes ?? null,
+        reminders: task.reminders ?? null,
+        createdAt: serverTimestamp(),
+        user_id: uid,
+        level: normalized.level, // store level in task doc to speed up reads
+      });
+
+      const levelPayload = {
+        task_id: taskRef.id,
+        level: normalized.level,
+      };
+
+      // debug
+      console.debug(
+        "[saveTaskWithLevel] creating task",
+        taskRef.id,
+        taskPayload,
+        "levelPayload:",
+        levelPayload
+      );
+
+      batch.set(taskRef, taskPayload);
+      batch.set(levelRef, levelPayload);
+
+      await batch.commit();
+      return taskRef.id;
+    }
+  };
+
+  /** delete task, its nested subtasks and their level docs */
+  const deleteTask: TaskRepository["deleteTask"] = async (taskId) =>
+    deleteSubtree(taskId);
+
+  const setTaskDependencies: TaskRepository["setTaskDependencies"] = async (
+    taskId,
+    dependsOn
+  ) => {
+    await updateDoc(doc(firestore, "tasks", taskId), {
+      depends_on: dependsOn,
+      updatedAt: serverTimestamp(),
+    });
+  };
+
+  /** atomic, so timers on two devices both count */
+  const addTrackedMinutes: TaskRepository["addTrackedMinutes"] = async (
+    taskId,
+    minutes
+  ) => {
+    await updateDoc(doc(firestore, "tasks", taskId), {
+      actual_minutes: increment(minutes),
+      updatedAt: serverTimestamp(),
+    });
+  };
+
+  /** fetch single task by id (include level if present in task doc or fallback to task_levels) */
+  const getTaskById: TaskRepository["getTaskById"] = async (taskId) => {
+    const tRef = doc(firestore, "tasks", taskId);
+    const tSnap = await fetchDoc(tRef);
+    if (!tSnap.exists()) return null;
+    const task = mapTaskDoc(tSnap.id, tSnap.data());
+
+    // try to read level from tasks doc (we write it on save), else fallback to task_levels
+    if (task.level === undefined) {
+      const levelQ = query(
+        collection(firestore, "task_levels"),
+        where("task_id", "==", taskId)
+      );
+      const levelSnap = await fetchDocs(levelQ);
+      if (levelSnap.docs.length > 0) {
+        const lvl = levelSnap.docs[0].data().level;
+        if (typeof lvl === "number") task.level = lvl;
+      }
+    }
+
+    return task;
+  };
+
+  /**
+   * top-level tasks missing the level field get it from task_levels
+   * (legacy docs); subtasks never had a level doc
+   */
+  const fillMissingLevels = async (tasks: TaskItem[]): Promise<TaskItem[]> => {
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const missingIds = tasks
+      .filter((t) => t.level === undefined && !t.parent_id)
+      .map((t) => t.id);
+    const levelDocs = await fetchWhereIn("task_levels", "task_id", missingIds);
+    for (const ld of levelDocs) {
+      const ldData = ld.data();
+      const task = byId.get(ldData.task_id as string);
+      if (task) task.level = ldData.level as number;
+    }
+    return tasks;
+  };
+
+  /**
+   * getTasksWithLevelsByUser
+   * - fetch tasks of user
+   * - because we store `level` inside tasks (see saveTaskWithLevel) we can read level directly
+   * - fallback to task_levels join if not present
+   */
+  const getTasksWithLevelsByUser: TaskRepository["getTasksWithLevelsByUser"] =
+    async (uid) => {
+      const tasksQ = query(
+        collection(firestore, "tasks"),
+        where("user_id", "==", uid)
+      );
+      const tasksSnap = await fetchDocs(tasksQ);
+      if (tasksSnap.empty) return [];
+
+      const tasks = tasksSnap.docs.map((d) => mapTaskDoc(d.id, d.data()));
+
+      return fillMissingLevels(tasks);
+    };
+
+  /** ---------- Progress (task_progress) ---------- */
+
+  /** progress doc + status event in one transaction (reads the old status) */
+  const updateTaskProgress: TaskRepository["updateTaskProgress"] = async (
+    taskId,
+    status,
+    change
+  ) => {
+    const progressRef = doc(firestore, "task_progress", taskId);
+    const changedAt = change?.changed_at ?? new Date();
+    const occurrence = parseOccurrenceId(taskId);
+    await runTransaction(firestore, async (tx) => {
+      const current = await tx.get(progressRef);
+      recordRead(1);
+      const previous = current.exists() ? mapProgressDoc(current.data()) : null;
+      const fromStatus = previous?.task_status ?? null;
+
+      tx.set(progressRef, {
+        task_id: taskId,
+        task_status: status,
+        updated_at: changedAt, // lưu thẳng Date
+        status_reason: change?.reason ?? null,
+        ...nextProgressTimestamps(previous, status, changedAt),
+        ...(occurrence && { series_id: occurrence.seriesId }),
+      });
+      if (
+        fromStatus !== status ||
+        (previous?.status_reason ?? null) !== (change?.reason ?? null)
+      ) {
+        tx.set(doc(collection(firestore, "task_status_events")), {
+          task_id: taskId,
+          user_id: change?.changed_by ?? null,
+          from_status: fromStatus,
+          to_status: status,
+          changed_at: changedAt,
+          reason: change?.reason ?? null,
+        });
+      }
+    });
+  };
+
+  const getTaskProgress: TaskRepository["getTaskProgress"] = async (
+    taskId
+  ) => {
+    const progressRef = doc(firestore, "task_progress", taskId);
+    const snap = await fetchDoc(progressRef);
+    if (!snap.exists()) return null;
+    return mapProgressDoc(snap.data());
+  };
+
+  const getMultipleTaskProgress: TaskRepository["getMultipleTaskProgress"] =
+    async (taskIds) => {
+      const progressDocs = await fetchWhereIn(
+        "task_progress",
+        "task_id",
+        taskIds
+      );
+
+      const result: Record<string, TaskProgress> = {};
+      progressDocs.forEach((docSnap) => {
+        const progress = mapProgressDoc(docSnap.data());
+        result[progress.task_id] = progress;
+      });
+      return result;
+    };
+
+  /** fill started/completed/cancelled_at on the user's legacy progress docs */
+  const migrateProgressTimestamps: TaskRepository["migrateProgressTimestamps"] =
+    async (uid) => {
+      const [tasksSnap, eventsSnap] = await Promise.all([
+        fetchByUser("tasks", uid),
+        fetchByUser("task_status_events", uid),
+      ]);
+      const ids = tasksSnap.docs.map((d) => d.id);
+      const history = groupStatusEvents(
+        eventsSnap.docs.map((d) => mapStatusEventDoc(d.id, d.data()))
+      );
+
+      const progressDocs = await fetchWhereIn("task_progress", "task_id", ids);
+      const updates = progressDocs.flatMap((d) => {
+        const progress = mapProgressDoc(d.data());
+        const fields = backfillProgressTimestamps(
+          progress,
+          history[progress.task_id] ?? []
+        );
+        return fields ? [{ ref: d.ref, fields }] : [];
+      });
+
+      for (const part of chunk(updates, BATCH_WRITE_LIMIT)) {
+        const batch = writeBatch(firestore);
+        part.forEach(({ ref, fields }) => batch.update(ref, fields));
+        await batch.commit();
+      }
+      return updates.length;
+    };
+
+  /**
+   * Move the legacy `task_child` docs into `tasks` under the same ids (so
+   * progress, levels and history still match) and drop the old
+   * `task_child` id arrays. A copy is always committed before its delete,
+   * so an interrupted run can simply be repeated.
+   */
+  const migrateTaskHierarchy: TaskRepository["migrateTaskHierarchy"] = async (
+    uid
+  ) => {
+    const [childrenSnap, tasksSnap] = await Promise.all([
+      fetchByUser("task_child", uid),
+      fetchByUser("tasks", uid),
+    ]);
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    for (const d of childrenSnap.docs) {
+      writes.push((batch) =>
+        batch.set(doc(firestore, "tasks", d.id), d.data())
+      );
+      writes.push((batch) => batch.delete(d.ref));
+    }
+    const legacyTasks = tasksSnap.docs.filter(
+      (d) =>
+        d.data().parent_id === undefined || d.data().task_child !== undefined
+    );
+    for (const d of legacyTasks) {
+      writes.push((batch) =>
+        batch.update(d.ref, {
+          parent_id: d.data().parent_id ?? null,
+          task_child: deleteField(),
+        })
+      );
+    }
+
+    for (const part of chunk(writes, BATCH_WRITE_LIMIT)) {
+      const batch = writeBatch(firestore);
+      part.forEach((write) => write(batch));
+      await batch.commit();
+    }
+    return childrenSnap.size + legacyTasks.length;
+  };
+
+  /** no orderBy: avoids a composite index, sorted client side instead */
+  const getStatusHistory: TaskRepository["getStatusHistory"] = async (
+    taskId
+  ) => {
+    const snap = await fetchDocs(
+      query(
+        collection(firestore, "task_status_events"),
+        where("task_id", "==", taskId)
+      )
+    );
+    return snap.docs
+      .map((d) => mapStatusEventDoc(d.id, d.data()))
+      .sort(byChangedAt);
+  };
+
+  /** ---------- Live subscriptions (onSnapshot) ---------- */
+
+  const subscribeTasksByUser: TaskRepository["subscribeTasksByUser"] = (
+    uid,
+    { next, error }
+  ) => {
+    // level lookups may resolve out of order: only the latest snapshot counts
+    let latest = 0;
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, "tasks"), where("user_id", "==", uid)),
+      (snap) => {
+        const seq = ++latest;
+        const tasks = snap.docs.map((d) => mapTaskDoc(d.id, d.data()));
+        fillMissingLevels(tasks).then(
+          (filled) => seq === latest && next(filled),
+          (err) => seq === latest && error?.(err)
+        );
+      },
+      error
+    );
+    return () => {
+      latest = -1;
+      unsubscribe();
+    };
+  };
+
+  /** one `in` listener on task_progress, shared by the subscriptions on it */
+  interface ProgressChunk {
+    ids: string[];
+    /** null until its first snapshot */
+    result: Record<string, TaskProgress> | null;
+    listeners: Set<{ changed: () => void; failed: (err: Error) => void }>;
+    unsubscribe: () => void;
+    teardown: ReturnType<typeof setTimeout> | null;
+  }
+
+  const progressChunks = {
+    task_id: new Set<ProgressChunk>(),
+    series_id: new Set<ProgressChunk>(),
+  };
+
+  const openProgressChunk = (field: "task_id" | "series_id", ids: string[]) => {
+    const entry: ProgressChunk = {
+      ids,
+      result: null,
+      listeners: new Set(),
+      unsubscribe: () => {},
+      teardown: null,
+    };
+    entry.unsubscribe = onSnapshot(
+      query(collection(firestore, "task_progress"), where(field, "in", ids)),
+      (snap) => {
+        const result: Record<string, TaskProgress> = {};
+        snap.forEach((d) => {
+          const progress = mapProgressDoc(d.data());
+          result[progress.task_id] = progress;
+        });
+        entry.result = result;
+        entry.listeners.forEach((l) => l.changed());
+      },
+      (err) => {
+        // a failed listener is dead, never hand it out again
+        progressChunks[field].delete(entry);
+        entry.listeners.forEach((l) => l.failed(err));
+      }
+    );
+    progressChunks[field].add(entry);
+    return entry;
+  };
+
+  /**
+   * task_progress docs carry no user_id, so listen per chunk of ids
+   * (`in` accepts at most IN_QUERY_LIMIT values) and merge the chunks once
+   * every chunk has reported. Chunks outlive a subscription for a tick: when
+   * the id set changes (unsubscribe + subscribe), chunks whose ids are all
+   * still wanted are kept and only the other ids get new listeners.
+   */
+  const listenProgressWhereIn = (
+    field: "task_id" | "series_id",
+    values: string[],
+    { next, error }: Parameters<TaskRepository["subscribeTaskProgress"]>[1]
+  ) => {
+    if (values.length === 0) {
+      next({});
+      return () => {};
+    }
+
+    const wanted = new Set(values);
+    const covered = new Set<string>();
+    let chunks: ProgressChunk[] = [];
+    for (const entry of progressChunks[field]) {
+      if (entry.ids.every((id) => wanted.has(id) && !covered.has(id))) {
+        chunks.push(entry);
+        entry.ids.forEach((id) => covered.add(id));
+      }
+    }
+    const rest = [...wanted].filter((id) => !covered.has(id)).sort();
+    // ids added one by one leave small chunks behind: regroup past 2x
+    const needed = Math.ceil(wanted.size / IN_QUERY_LIMIT);
+    if (chunks.length + Math.ceil(rest.length / IN_QUERY_LIMIT) > 2 * needed) {
+      chunks = chunk([...wanted].sort()).map((ids) =>
+        openProgressChunk(field, ids)
+      );
+    } else {
+      chunks.push(...chunk(rest).map((ids) => openProgressChunk(field, ids)));
+    }
+
+    let active = true;
+    const listener = {
+      changed: () => {
+        if (!active || chunks.some((c) => c.result === null)) return;
+        next(Object.assign({}, ...chunks.map((c) => c.result)));
+      },
+      failed: (err: Error) => {
+        if (active) error?.(err);
+      },
+    };
+    for (const entry of chunks) {
+      if (entry.teardown) clearTimeout(entry.teardown);
+      entry.teardown = null;
+      entry.listeners.add(listener);
+    }
+    listener.changed();
+
+    return () => {
+      active = false;
+      for (const entry of chunks) {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size > 0) continue;
+        entry.teardown = setTimeout(() => {
+          progressChunks[field].delete(entry);
+          entry.unsubscribe();
+        }, 0);
+      }
+    };
+  };
+
+  const subscribeTaskProgress: TaskRepository["subscribeTaskProgress"] = (
+    taskIds,
+    subscriber
+  ) => listenProgressWhereIn("task_id", taskIds, subscriber);
+
+  const subscribeOccurrenceProgress: TaskRepository["subscribeOccurrenceProgress"] =
+    (seriesIds, subscriber) =>
+      listenProgressWhereIn("series_id", seriesIds, subscriber);
+
+  const subscribeCoursesByUser: TaskRepository["subscribeCoursesByUser"] = (
+    uid,
+    { next, error }
+  ) =>
+    onSnapshot(
+      query(collection(firestore, "courses"), where("user_id", "==", uid)),
+      (snap) => next(snap.docs.map((d) => mapCourseDoc(d.id, d.data()))),
+      error
+    );
+
+  const subscribeSemestersByUser: TaskRepository["subscribeSemestersByUser"] =
+    (uid, { next, error }) =>
+      onSnapshot(
+        query(collection(firestore, "semesters"), where("user_id", "==", uid)),
+        (snap) => next(snap.docs.map((d) => mapSemesterDoc(d.id, d.data()))),
+        error
+      );
+
+  const subscribeTagsByUser: TaskRepository["subscribeTagsByUser"] = (
+    uid,
+    { next, error }
+  ) =>
+    onSnapshot(
+      query(collection(firestore, "tags"), where("user_id", "==", uid)),
+      (snap) => next(snap.docs.map((d) => mapTagDoc(d.id, d.data()))),
+      error
+    );
+
+  const subscribeClassSessionsByUser: TaskRepository["subscribeClassSessionsByUser"] =
+    (uid, { next, error }) =>
+      onSnapshot(
+        query(
+          collection(firestore, "class_sessions"),
+          where("user_id", "==", uid)
+        ),
+        (snap) =>
+          next(snap.docs.map((d) => mapClassSessionDoc(d.id, d.data()))),
+        error
+      );
+
+  const subscribeStatusEventsByUser: TaskRepository["subscribeStatusEventsByUser"] =
+    (uid, { next, error }) =>
+      onSnapshot(
+        query(
+          collection(firestore, "task_status_events"),
+          where("user_id", "==", uid)
+        ),
+        (snap) =>
+          next(
+            snap.docs
+              .map((d) => mapStatusEventDoc(d.id, d.data()))
+              .sort(byChangedAt)
+          ),
+        error
+      );
+
+  const subscribeUserData: TaskRepository["subscribeUserData"] = (
+    uid,
+    key,
+    { next, error }
+  ) =>
+    onSnapshot(
+      userDataRef(uid, key),
+      (snap) => next(snap.exists() ? snap.data().value : null),
+      error
+    );
+
+  return {
+    getTasksWithLevelsByUser,
+    getTaskById,
+    saveTaskWithLevel,
+    deleteTask,
+    setTaskDependencies,
+    addTrackedMinutes,
+    createChildTask,
+    getChildTasksByParentId,
+    updateChildTask,
+    deleteChildTask,
+    saveCourse,
+    deleteCourse,
+    saveSemester,
+    deleteSemester,
+    saveTag,
+    deleteTag,
+    saveClassSession,
+    deleteClassSession,
+    saveUserData,
+    updateTaskProgress,
+    getTaskProgress,
+    getMultipleTaskProgress,
+    getStatusHistory,
+    migrateProgressTimestamps,
+    migrateTaskHierarchy,
+    subscribeTasksByUser,
+    subscribeTaskProgress,
+    subscribeOccurrenceProgress,
+    subscribeCoursesByUser,
+    subscribeSemestersByUser,
+    subscribeTagsByUser,
+    subscribeClassSessionsByUser,
+    subscribeStatusEventsByUser,
+    subscribeUserData,
+    createUserIfNotExists,
+  };
+};
@@ -0,0 +1,213 @@
+// src/services/repository/index.ts
+import type {
+  TaskItem,
+  TaskChild,
+  SaveTaskInput,
+  ChildTaskInput,
+  ChildTaskUpdate,
+  Course,
+  Semester,
+  SaveCourseInput,
+  SaveSemesterInput,
+  Tag,
+  SaveTagInput,
+  ClassSession,
+  SaveClassSessionInput,
+} from "../firestore";
+import type {
+  TaskProgress,
+  TaskStatus,
+  TaskStatusEvent,
+  StatusChange,
+} from "../taskProgress";
+import { createFirestoreRepository } from "./firestoreRepository";
+import { createMemoryRepository } from "./memoryRepository";
+import { createOfflineRepository } from "./offlineRepository";
+import { isIndexedDbAvailable } from "./offlineCache";
+
+export type Unsubscribe = () => void;
+
+/** Listener pair used by the live subscriptions below */
+export interface Subscriber<T> {
+  next: (value: T) => void;
+  error?: (err: Error) => void;
+}
+
+/**
+ * Storage backend used by every service in `src/services`.
+ * Pages and components never talk to it directly: they keep calling the
+ * helpers exported from `firestore.ts` / `taskProgress.ts`, which delegate here.
+ */
+export interface TaskRepository {
+  /** ---------- Tasks & Levels ---------- */
+  /** every task node of the user, top-level tasks and subtasks alike */
+  getTasksWithLevelsByUser: (uid: string) => Promise<TaskItem[]>;
+  getTaskById: (taskId: string) => Promise<TaskItem | null>;
+  saveTaskWithLevel: (uid: string, task: SaveTaskInput) => Promise<string>;
+  /** also deletes every nested subtask */
+  deleteTask: (taskId: string) => Promise<void>;
+  /** replaces `depends_on` of a task or subtask (cycles checked by caller) */
+  setTaskDependencies: (taskId: string, dependsOn: string[]) => Promise<void>;
+  /** adds timer minutes to `actual_minutes` of a task or subtask */
+  addTrackedMinutes: (taskId: string, minutes: number) => Promise<void>;
+
+  /** ---------- Child tasks ---------- */
+  /** `parentId` may itself be a subtask (unlimited nesting) */
+  createChildTask: (
+    uid: string,
+    parentId: string,
+    childTask: ChildTaskInput
+  ) => Promise<string>;
+  getChildTasksByParentId: (parentId: string) => Promise<TaskChild[]>;
+  updateChildTask: (childId: string, data: ChildTaskUpdate) => Promise<void>;
+  /** removes the subtask and everything nested below it */
+  deleteChildTask: (childId: string, parentId: string) => Promise<void>;
+
+  /** ---------- Courses & Semesters ---------- */
+  saveCourse: (uid: string, course: SaveCourseInput) => Promise<string>;
+  /** also clears course_id on the user's tasks that pointed at it */
+  deleteCourse: (uid: string, courseId: string) => Promise<void>;
+  saveSemester: (uid: string, semester: SaveSemesterInput) => Promise<string>;
+  /** also clears semester_id on the user's courses that pointed at it */
+  deleteSemester: (uid: string, semesterId: string) => Promise<void>;
+
+  /** ---------- Tags ---------- */
+  saveTag: (uid: string, tag: SaveTagInput) => Promise<string>;
+  /** also removes the tag from the user's tasks that carry it */
+  deleteTag: (uid: string, tagId: string) => Promise<void>;
+
+  /** ---------- Timetable ---------- */
+  saveClassSession: (
+    uid: string,
+    session: SaveClassSessionInput
+  ) => Promise<string>;
+  deleteClassSession: (uid: string, sessionId: string) => Promise<void>;
+
+  /** ---------- Progress ---------- */
+  /** also appends a TaskStatusEvent when the status actually changes */
+  updateTaskProgress: (
+    taskId: string,
+    status: TaskStatus,
+    change?: StatusChange
+  ) => Promise<void>;
+  getTaskProgress: (taskId: string) => Promise<TaskProgress | null>;
+  /** must accept empty and arbitrarily long id lists (see batching.ts) */
+  getMultipleTaskProgress: (
+    taskIds: string[]
+  ) => Promise<Record<string, TaskProgress>>;
+
+  /** status events of one task, oldest first */
+  getStatusHistory: (taskId: string) => Promise<TaskStatusEvent[]>;
+  /** one-off backfill of progress timestamps, returns the docs updated */
+  migrateProgressTimestamps: (uid: string) => Promise<number>;
+  /** one-off move of legacy `task_child` docs into `tasks`, returns the docs updated */
+  migrateTaskHierarchy: (uid: string) => Promise<number>;
+
+  /** ---------- User data ---------- */
+  /**
+   * one small document per user and `key` (saved views, work plan, ...,
+   * see userStore.ts); `value` is plain JSON, dates as ISO strings
+   */
+  saveUserData: (uid: string, key: string, value: unknown) => Promise<void>;
+
+  /** ---------- Live subscriptions ---------- */
+  /** every task node (tasks and subtasks) owned by the user, re-emitted on each change */
+  subscribeTasksByUser: (
+    uid: string,
+    subscriber: Subscriber<TaskItem[]>
+  ) => Unsubscribe;
+  /** progress of the given tasks, keyed by task id */
+  subscribeTaskProgress: (
+    taskIds: string[],
+    subscriber: Subscriber<Record<string, TaskProgress>>
+  ) => Unsubscribe;
+
+  /** progress of every occurrence of the given repeating tasks */
+  subscribeOccurrenceProgress: (
+    seriesIds: string[],
+    subscriber: Subscriber<Record<string, TaskProgress>>
+  ) => Unsubscribe;
+
+  /** courses / semesters of the user, re-emitted on each change */
+  subscribeCoursesByUser: (
+    uid: string,
+    subscriber: Subscriber<Course[]>
+  ) => Unsubscribe;
+  subscribeSemestersByUser: (
+    uid: string,
+    subscriber: Subscriber<Semester[]>
+  ) => Unsubscribe;
+  /** tags of the user, re-emitted on each change */
+  subscribeTagsByUser: (
+    uid: string,
+    subscriber: Subscriber<Tag[]>
+  ) => Unsubscribe;
+  /** weekly class sessions of the user, re-emitted on each change */
+  subscribeClassSessionsByUser: (
+    uid: string,
+    subscriber: Subscriber<ClassSession[]>
+  ) => Unsubscribe;
+
+  /** every status event recorded by the user */
+  subscribeStatusEventsByUser: (
+    uid: string,
+    subscriber: Subscriber<TaskStatusEvent[]>
+  ) => Unsubscribe;
+
+  /** a user data document, null until it is first saved */
+  subscribeUserData: (
+    uid: string,
+    key: string,
+    subscriber: Subscriber<unknown>
+  ) => Unsubscribe;
+
+  /** ---------- Users ---------- */
+  createUserIfNotExists: (
+    uid: string,
+    username?: string | null,
+    email?: string | null
+  ) => Promise<void>;
+}
+
+/**
+ * - "firestore" (default): Firebase project configured in `firebase.ts`,
+ *   wrapped in an IndexedDB cache + sync queue when the browser supports it
+ * - "memory": in-memory only, wiped on reload (handy for tests)
+ * - "local": in-memory persisted to localStorage, works fully offline
+ */
+export type StorageBackend = "firestore" | "memory" | "local";
+
+/** backend picked by VITE_STORAGE_BACKEND (auth follows it, see auth.ts) */
+export const resolveBackend = (): StorageBackend => {
+  const value = import.meta.env.VITE_STORAGE_BACKEND;
+  if (value === "memory" || value === "local") return value;
+  return "firestore";
+};
+
+export const createRepository = (backend: StorageBackend): TaskRepository => {
+  switch (backend) {
+    case "memory":
+      return createMemoryRepository();
+    case "local":
+      return createMemoryRepository({ storage: window.localStorage });
+    case "firestore":
+      return isIndexedDbAvailable()
+        ? createOfflineRepository(createFirestoreRepository())
+        : createFirestoreRepository();
+  }
+};
+
+let activeRepository: TaskRepository | null = null;
+
+/** Repository selected at startup (lazily created on first use) */
+export const getRepository = (): TaskRepository => {
+  if (!activeRepository) {
+    activeRepository = createRepository(resolveBackend());
+  }
+  return activeRepository;
+};
+
+/** Swap the backend, e.g. from a test setup or before the app renders */
+export const setRepository = (repository: TaskRepository) => {
+  activeRepository = repository;
+};
@@ -0,0 +1,726 @@
+// src/services/repository/memoryRepository.ts
+import type {
+  TaskItem,
+  TaskChild,
+  Course,
+  Semester,
+  Tag,
+  ClassSession,
+} from "../firestore";
+import {
+  type TaskProgress,
+  type TaskStatusEvent,
+  nextProgressTimestamps,
+  backfillProgressTimestamps,
+  groupStatusEvents,
+} from "../taskProgress";
+import { parseOccurrenceId } from "../recurrence";
+import type { TaskRepository } from ".";
+
+interface StoredUser {
+  username: string | null;
+  email: string | null;
+  createdAt: Date;
+}
+
+interface StoredUserData {
+  user_id: string;
+  key: string;
+  value: unknown;
+}
+
+/** Same collections as Firestore, keyed by document id */
+interface MemoryState {
+  /** every task node, top-level and nested */
+  tasks: Record<string, TaskItem>;
+  /** legacy subtasks, moved into `tasks` by migrateTaskHierarchy */
+  task_child: Record<string, TaskChild>;
+  /** task_id -> level (mirrors `task_levels`) */
+  task_levels: Record<string, number>;
+  task_progress: Record<string, TaskProgress>;
+  task_status_events: Record<string, TaskStatusEvent>;
+  courses: Record<string, Course>;
+  semesters: Record<string, Semester>;
+  tags: Record<string, Tag>;
+  class_sessions: Record<string, ClassSession>;
+  users: Record<string, StoredUser>;
+  /** `${uid}_${key}` -> document (mirrors `user_data`) */
+  user_data: Record<string, StoredUserData>;
+}
+
+export interface MemoryRepositoryOptions {
+  /** When set, state is loaded from and saved to this storage (e.g. localStorage) */
+  storage?: Storage | null;
+  storageKey?: string;
+  /** Initial data, mostly for tests */
+  seed?: Partial<MemoryState>;
+}
+
+const DEFAULT_STORAGE_KEY = "naver_ai_task_repository";
+
+/** Fields that hold dates and must be revived after JSON.parse */
+const DATE_FIELDS = new Set([
+  "start_time",
+  "end_time",
+  "createdAt",
+  "updated_at",
+  "changed_at",
+  "started_at",
+  "completed_at",
+  "cancelled_at",
+  "until",
+  "start_date",
+  "end_date",
+]);
+
+const emptyState = (): MemoryState => ({
+  tasks: {},
+  task_child: {},
+  task_levels: {},
+  task_progress: {},
+  task_status_events: {},
+  courses: {},
+  semesters: {},
+  tags: {},
+  class_sessions: {},
+  users: {},
+  user_data: {},
+});
+
+const reviveDates = (key: string, value: unknown) => {
+  if (DATE_FIELDS.has(key) && typeof value === "string") {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return value;
+};
+
+const generateId = (): string =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID().replace(/-/g, "").slice(0, 20)
+    : Math.random().toString(36).slice(2, 12) + Date.now().toString(36);
+
+const toDateOrNull = (d: Date | null | undefined): Date | null => {
+  if (!d) return null;
+  const parsed = d instanceof Date ? d : new Date(d);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * In-memory repository, optionally persisted to a Web Storage.
+ * Mirrors the behaviour of the Firestore repository (permission checks,
+ * subtree deletes, level fallback) so the app behaves the same offline.
+ */
+export const createMemoryRepository = (
+  options: MemoryRepositoryOptions = {}
+): TaskRepository => {
+  const { storage = null, storageKey = DEFAULT_STORAGE_KEY, seed } = options;
+
+  const load = (): MemoryState => {
+    const state = { ...emptyState(), ...seed };
+    if (!storage) return state;
+    try {
+      const raw = storage.getItem(storageKey);
+      if (!raw) return state;
+      return { ...state, ...(JSON.parse(raw, reviveDates) as MemoryState) };
+    } catch (err) {
+      console.error("[memoryRepository] failed to read storage:", err);
+      return state;
+    }
+  };
+
+  const state = load();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((l) => l());
+
+  const persist = () => {
+    if (storage) {
+      try {
+        storage.setItem(storageKey, JSON.stringify(state));
+      } catch (err) {
+        console.error("[memoryRepository] failed to write storage:", err);
+      }
+    }
+    notify();
+  };
+
+  // other tabs write the same key: reload and push the change to subscribers
+  if (storage && typeof window !== "undefined") {
+    window.addEventListener("storage", (e) => {
+      if (e.key !== storageKey || e.storageArea !== storage) return;
+      Object.assign(state, load());
+      notify();
+    });
+  }
+
+  /** call `emit` now (async, like onSnapshot) and after every change */
+  const watch = (emit: () => void) => {
+    queueMicrotask(emit);
+    listeners.add(emit);
+    return () => {
+      listeners.delete(emit);
+    };
+  };
+
+  // hand out copies so callers can't mutate the store by accident
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  const withLevel = (task: TaskItem): TaskItem => {
+    const copy = clone(task);
+    if (copy.level === undefined && state.task_levels[task.id] !== undefined) {
+      copy.level = state.task_levels[task.id];
+    }
+    return copy;
+  };
+
+  /** ---------- Tasks & Levels ---------- */
+
+  const getTasksWithLevelsByUser: TaskRepository["getTasksWithLevelsByUser"] =
+    async (uid) =>
+      Object.values(state.tasks)
+        .filter((t) => t.user_id === uid)
+        .map(withLevel);
+
+  const getTaskById: TaskRepository["getTaskById"] = async (taskId) => {
+    const task = state.tasks[taskId];
+    return task ? withLevel(task) : null;
+  };
+
+  const saveTaskWithLevel: TaskRepository["saveTaskWithLevel"] = async (
+    uid,
+    task
+  ) => {
+    const level = typeof task.level === "number" ? task.level : 0;
+    const fields = {
+      task_name: task.task_name,
+      task_detail: task.task_detail ?? "",
+      start_time: toDateOrNull(task.start_time),
+      end_time: toDateOrNull(task.end_time),
+      level,
+    };
+
+    if (task.id) {
+      const existing = state.tasks[task.id];
+      if (!existing) throw new Error("Task does not exist");
+      state.tasks[task.id] = {
+        ...existing,
+        ...fields,
+        recurrence:
+          task.recurrence !== undefined
+            ? task.recurrence
+            : existing.recurrence ?? null,
+        course_id:
+          task.course_id !== undefined
+            ? task.course_id
+            : existing.course_id ?? null,
+        tags:
+          task.tags !== undefined ? task.tags ?? [] : existing.tags ?? [],
+        ics_uid:
+          task.ics_uid !== undefined ? task.ics_uid : existing.ics_uid ?? null,
+        estimated_minutes:
+          task.estimated_minutes !== undefined
+            ? task.estimated_minutes
+            : existing.estimated_minutes ?? null,
+        reminders:
+          task.reminders !== undefined
+            ? task.reminders
+            : existing.reminders ?? null,
+      };
+      state.task_levels[task.id] = level;
+      persist();
+      return task.id;
+    }
+
+    const id = generateId();
+    state.tasks[id] = {
+      id,
+      ...fields,
+      parent_id: null,
+      recurrence: task.recurrence ?? null,
+      course_id: task.course_id ?? null,
+      tags: task.tags ?? [],
+      ics_uid: task.ics_uid ?? null,
+      estimated_minutes: task.estimated_minutes ?? null,
+      reminders: task.reminders ?? null,
+      user_id: uid,
+      createdAt: new Date(),
+    };
+    state.task_levels[id] = level;
+    persist();
+    return id;
+  };
+
+  /** the node and every node nested below it */
+  const subtreeIds = (rootId: string) => {
+    const ids = new Set([rootId]);
+    for (const id of ids) {
+      Object.values(state.tasks)
+        .filter((t) => t.parent_id === id)
+        .forEach((t) => ids.add(t.id));
+    }
+    return [...ids];
+  };
+
+  const deleteSubtree = (rootId: string) => {
+    const ids = new Set(subtreeIds(rootId));
+    for (const id of ids) {
+      delete state.tasks[id];
+      delete state.task_levels[id];
+    }
+    const progressIds = new Set(
+      Object.values(state.task_progress)
+        .filter((p) => ids.has(p.task_id) || ids.has(p.series_id ?? ""))
+        .map((p) => p.task_id)
+    );
+    for (const id of progressIds) delete state.task_progress[id];
+    for (const [id, event] of Object.entries(state.task_status_events)) {
+      if (progressIds.has(event.task_id) || ids.has(event.task_id)) {
+        delete state.task_status_events[id];
+      }
+    }
+    persist();
+  };
+
+  const deleteTask: TaskRepository["deleteTask"] = async (taskId) =>
+    deleteSubtree(taskId);
+
+  const setTaskDependencies: TaskRepository["setTaskDependencies"] = async (
+    taskId,
+    dependsOn
+  ) => {
+    const existing = state.tasks[taskId];
+    if (!existing) throw new Error("Task does not exist");
+    state.tasks[taskId] = { ...existing, depends_on: [...dependsOn] };
+    persist();
+  };
+
+  const addTrackedMinutes: TaskRepository["addTrackedMinutes"] = async (
+    taskId,
+    minutes
+  ) => {
+    const existing = state.tasks[taskId];
+    if (!existing) throw new Error("Task does not exist");
+    state.tasks[taskId] = {
+      ...existing,
+      actual_minutes: (existing.actual_minutes ?? 0) + minutes,
+    };
+    persist();
+  };
+
+  /** ---------- Child tasks ---------- */
+
+  const createChildTask: TaskRepository["createChildTask"] = async (
+    uid,
+    parentId,
+    childTask
+  ) => {
+    const parent = state.tasks[parentId];
+    if (!parent) {
+      throw new Error("Parent task does not exist");
+    }
+    if (parent.user_id !== uid) {
+      throw new Error(
+        "You do not have permission to add a subtask to this task"
+      );
+    }
+
+    const id = generateId();
+    state.tasks[id] = {
+      id,
+      task_name: childTask.task_name,
+      task_detail: childTask.task_detail ?? "",
+      start_time: toDateOrNull(childTask.start_time),
+      end_time: toDateOrNull(childTask.end_time),
+      level: childTask.level,
+      tags: childTask.tags ?? [],
+      estimated_minutes: childTask.estimated_minutes ?? null,
+      parent_id: parentId,
+      user_id: uid,
+      createdAt: new Date(),
+    };
+    persist();
+    return id;
+  };
+
+  const getChildTasksByParentId: TaskRepository["getChildTasksByParentId"] =
+    async (parentId) =>
+      Object.values(state.tasks)
+        .filter((c): c is TaskChild => c.parent_id === parentId)
+        .map(clone);
+
+  const updateChildTask: TaskRepository["updateChildTask"] = async (
+    childId,
+    data
+  ) => {
+    const existing = state.tasks[childId];
+    if (!existing?.parent_id) throw new Error("Subtask does not exist");
+    const patch = Object.fromEntries(
+      Object.entries(data).filter(([, v]) => v !== undefined)
+    );
+    state.tasks[childId] = {
+      ...existing,
+      ...patch,
+      start_time: toDateOrNull(data.start_time),
+      end_time: toDateOrNull(data.end_time),
+    };
+    persist();
+  };
+
+  const deleteChildTask: TaskRepository["deleteChildTask"] = async (childId) =>
+    deleteSubtree(childId);
+
+  /** ---------- Courses & Semesters ---------- */
+
+  const saveCourse: TaskRepository["saveCourse"] = async (uid, course) => {
+    const existing = course.id ? state.courses[course.id] : undefined;
+    if (course.id && !existing) throw new Error("Course does not exist");
+    const id = existing?.id ?? generateId();
+    state.courses[id] = {
+      id,
+      user_id: existing?.user_id ?? uid,
+      name: course.name,
+      code: course.code,
+      credits: course.credits ?? null,
+      color: course.color,
+      instructor: course.instructor ?? "",
+      semester_id: course.semester_id ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    persist();
+    return id;
+  };
+
+  const deleteCourse: TaskRepository["deleteCourse"] = async (
+    uid,
+    courseId
+  ) => {
+    for (const task of Object.values(state.tasks)) {
+      if (task.user_id === uid && task.course_id === courseId) {
+        task.course_id = null;
+      }
+    }
+    delete state.courses[courseId];
+    persist();
+  };
+
+  const saveSemester: TaskRepository["saveSemester"] = async (
+    uid,
+    semester
+  ) => {
+    const existing = semester.id ? state.semesters[semester.id] : undefined;
+    if (semester.id && !existing) throw new Error("Semester does not exist");
+    const id = existing?.id ?? generateId();
+    state.semesters[id] = {
+      id,
+      user_id: existing?.user_id ?? uid,
+      name: semester.name,
+      start_date: toDateOrNull(semester.start_date),
+      end_date: toDateOrNull(semester.end_date),
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    persist();
+    return id;
+  };
+
+  const deleteSemester: TaskRepository["deleteSemester"] = async (
+    uid,
+    semesterId
+  ) => {
+    for (const course of Object.values(state.courses)) {
+      if (course.user_id === uid && course.semester_id === semesterId) {
+        course.semester_id = null;
+      }
+    }
+    delete state.semesters[semesterId];
+    persist();
+  };
+
+  /** ---------- Tags ---------- */
+
+  const saveTag: TaskRepository["saveTag"] = async (uid, tag) => {
+    const existing = tag.id ? state.tags[tag.id] : undefined;
+    if (tag.id && !existing) throw new Error("Tag does not exist");
+    const id = existing?.id ?? generateId();
+    state.tags[id] = {
+      id,
+      user_id: existing?.user_id ?? uid,
+      name: tag.name,
+      color: tag.color,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    persist();
+    return id;
+  };
+
+  const deleteTag: TaskRepository["deleteTag"] = async (uid, tagId) => {
+    for (const task of Object.values(state.tasks)) {
+      if (task.user_id === uid && task.tags?.includes(tagId)) {
+        task.tags = task.tags.filter((id) => id !== tagId);
+      }
+    }
+    delete state.tags[tagId];
+    persist();
+  };
+
+  /** ---------- Timetable ---------- */
+
+  const saveClassSession: TaskRepository["saveClassSession"] = async (
+    uid,
+    session
+  ) => {
+    const existing = session.id ? state.class_sessions[session.id] : undefined;
+    if (session.id && !existing) throw new Error("Class session does not exist");
+    const id = existing?.id ?? generateId();
+    state.class_sessions[id] = {
+      id,
+      user_id: existing?.user_id ?? uid,
+      course_id: session.course_id ?? null,
+      room: session.room ?? "",
+      weekday: session.weekday,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      start_date: session.start_date ?? null,
+      end_date: session.end_date ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    persist();
+    return id;
+  };
+
+  const deleteClassSession: TaskRepository["deleteClassSession"] = async (
+    _uid,
+    sessionId
+  ) => {
+    delete state.class_sessions[sessionId];
+    persist();
+  };
+
+  /** ---------- User data ---------- */
+
+  const saveUserData: TaskRepository["saveUserData"] = async (
+    uid,
+    key,
+    value
+  ) => {
+    state.user_data[`${uid}_${key}`] = { user_id: uid, key, value };
+    persist();
+  };
+
+  /** ---------- Progress ---------- */
+
+  const updateTaskProgress: TaskRepository["updateTaskProgress"] = async (
+    taskId,
+    status,
+    change
+  ) => {
+    const changedAt = change?.changed_at ?? new Date();
+    const previous = state.task_progress[taskId];
+    const fromStatus = previous?.task_status ?? null;
+    const reason = change?.reason ?? null;
+    state.task_progress[taskId] = {
+      task_id: taskId,
+      task_status: status,
+      updated_at: changedAt,
+      status_reason: reason,
+      ...nextProgressTimestamps(previous, status, changedAt),
+      series_id: parseOccurrenceId(taskId)?.seriesId ?? null,
+    };
+    if (fromStatus !== status || (previous?.status_reason ?? null) !== reason) {
+      const id = generateId();
+      state.task_status_events[id] = {
+        id,
+        task_id: taskId,
+        user_id: change?.changed_by ?? null,
+        from_status: fromStatus,
+        to_status: status,
+        changed_at: changedAt,
+        reason,
+      };
+    }
+    persist();
+  };
+
+  const getTaskProgress: TaskRepository["getTaskProgress"] = async (
+    taskId
+  ) => {
+    const progress = state.task_progress[taskId];
+    return progress ? clone(progress) : null;
+  };
+
+  const getMultipleTaskProgress: TaskRepository["getMultipleTaskProgress"] =
+    async (taskIds) => {
+      const result: Record<string, TaskProgress> = {};
+      for (const id of taskIds) {
+        const progress = state.task_progress[id];
+        if (progress) result[id] = clone(progress);
+      }
+      return result;
+    };
+
+  const eventsWhere = (match: (e: TaskStatusEvent) => boolean) =>
+    Object.values(state.task_status_events)
+      .filter(match)
+      .sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime())
+      .map(clone);
+
+  const getStatusHistory: TaskRepository["getStatusHistory"] = async (
+    taskId
+  ) => eventsWhere((e) => e.task_id === taskId);
+
+  const migrateProgressTimestamps: TaskRepository["migrateProgressTimestamps"] =
+    async (uid) => {
+      const owned = new Set(
+        Object.values(state.tasks)
+          .filter((t) => t.user_id === uid)
+          .map((t) => t.id)
+      );
+      const history = groupStatusEvents(
+        Object.values(state.task_status_events)
+      );
+      let updated = 0;
+      for (const progress of Object.values(state.task_progress)) {
+        if (!owned.has(progress.task_id)) continue;
+        const fields = backfillProgressTimestamps(
+          progress,
+          history[progress.task_id] ?? []
+        );
+        if (!fields) continue;
+        Object.assign(progress, fields);
+        updated += 1;
+      }
+      if (updated > 0) persist();
+      return updated;
+    };
+
+  const migrateTaskHierarchy: TaskRepository["migrateTaskHierarchy"] = async (
+    uid
+  ) => {
+    let updated = 0;
+    for (const child of Object.values(state.task_child)) {
+      if (child.user_id !== uid) continue;
+      state.tasks[child.id] = child;
+      delete state.task_child[child.id];
+      updated += 1;
+    }
+    for (const task of Object.values(state.tasks)) {
+      const legacy = task as TaskItem & { task_child?: string[] | null };
+      if (task.user_id !== uid) continue;
+      if (task.parent_id !== undefined && !("task_child" in legacy)) continue;
+      task.parent_id = task.parent_id ?? null;
+      delete legacy.task_child;
+      updated += 1;
+    }
+    if (updated > 0) persist();
+    return updated;
+  };
+
+  /** ---------- Live subscriptions ---------- */
+
+  const subscribeTasksByUser: TaskRepository["subscribeTasksByUser"] = (
+    uid,
+    { next }
+  ) => watch(() => getTasksWithLevelsByUser(uid).then(next));
+
+  const subscribeTaskProgress: TaskRepository["subscribeTaskProgress"] = (
+    taskIds,
+    { next }
+  ) => watch(() => getMultipleTaskProgress(taskIds).then(next));
+
+  const subscribeOccurrenceProgress: TaskRepository["subscribeOccurrenceProgress"] =
+    (seriesIds, { next }) =>
+      watch(() => {
+        const series = new Set(seriesIds);
+        next(
+          Object.fromEntries(
+            Object.values(state.task_progress)
+              .filter((p) => p.series_id && series.has(p.series_id))
+              .map((p) => [p.task_id, clone(p)])
+          )
+        );
+      });
+
+  const ownedBy = <T extends { user_id: string }>(
+    records: Record<string, T>,
+    uid: string
+  ) =>
+    Object.values(records)
+      .filter((r) => r.user_id === uid)
+      .map(clone);
+
+  const subscribeCoursesByUser: TaskRepository["subscribeCoursesByUser"] = (
+    uid,
+    { next }
+  ) => watch(() => next(ownedBy(state.courses, uid)));
+
+  const subscribeSemestersByUser: TaskRepository["subscribeSemestersByUser"] =
+    (uid, { next }) => watch(() => next(ownedBy(state.semesters, uid)));
+
+  const subscribeTagsByUser: TaskRepository["subscribeTagsByUser"] = (
+    uid,
+    { next }
+  ) => watch(() => next(ownedBy(state.tags, uid)));
+
+  const subscribeClassSessionsByUser: TaskRepository["subscribeClassSessionsByUser"] =
+    (uid, { next }) => watch(() => next(ownedBy(state.class_sessions, uid)));
+
+  const subscribeStatusEventsByUser: TaskRepository["subscribeStatusEventsByUser"] =
+    (uid, { next }) => watch(() => next(eventsWhere((e) => e.user_id === uid)));
+
+  const subscribeUserData: TaskRepository["subscribeUserData"] = (
+    uid,
+    key,
+    { next }
+  ) =>
+    watch(() => next(clone(state.user_data[`${uid}_${key}`]?.value ?? null)));
+
+  /** ---------- Users ---------- */
+
+  const createUserIfNotExists: TaskRepository["createUserIfNotExists"] =
+    async (uid, username, email) => {
+      state.users[uid] = {
+        createdAt: state.users[uid]?.createdAt ?? new Date(),
+        username: username ?? null,
+        email: email ?? null,
+      };
+      persist();
+    };
+
+  return {
+    getTasksWithLevelsByUser,
+    getTaskById,
+    saveTaskWithLevel,
+    deleteTask,
+    setTaskDependencies,
+    addTrackedMinutes,
+    createChildTask,
+    getChildTasksByParentId,
+    updateChildTask,
+    deleteChildTask,
+    saveCourse,
+    deleteCourse,
+    saveSemester,
+    deleteSemester,
+    saveTag,
+    deleteTag,
+    saveClassSession,
+    deleteClassSession,
+    saveUserData,
+    updateTaskProgress,
+    getTaskProgress,
+    getMultipleTaskProgress,
+    getStatusHistory,
+    migrateProgressTimestamps,
+    migrateTaskHierarchy,
+    subscribeTasksByUser,
+    subscribeTaskProgress,
+    subscribeOccurrenceProgress,
+    subscribeCoursesByUser,
+    subscribeSemestersByUser,
+    subscribeTagsByUser,
+    subscribeClassSessionsByUser,
+    subscribeStatusEventsByUser,
+    subscribeUserData,
+    createUserIfNotExists,
+  };
+};
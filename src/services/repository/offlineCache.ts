@@ -0,0 +1,497 @@
+// src/services/repository/offlineCache.ts
+import type {
+  TaskItem,
+  TaskChild,
+  Course,
+  Semester,
+  Tag,
+  ClassSession,
+} from "../firestore";
+import type { TaskProgress, TaskStatusEvent } from "../taskProgress";
+import type { SyncQueueEntry } from "../syncStatus";
+
+/**
+ * Thin promise wrapper over IndexedDB used by the offline repository.
+ * Dates are stored as-is (structured clone keeps them as Date).
+ */
+
+const DB_NAME = "naver_ai_offline";
+const DB_VERSION = 8;
+
+/** subtasks lived in their own store before v4 */
+const LEGACY_CHILDREN_STORE = "task_child";
+
+export const CACHE_STORES = {
+  tasks: "tasks",
+  progress: "task_progress",
+  events: "task_status_events",
+  courses: "courses",
+  semesters: "semesters",
+  tags: "tags",
+  classSessions: "class_sessions",
+  userData: "user_data",
+  queue: "sync_queue",
+} as const;
+type StoreName = (typeof CACHE_STORES)[keyof typeof CACHE_STORES];
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const tasks = db.createObjectStore(CACHE_STORES.tasks, {
+            keyPath: "id",
+          });
+          tasks.createIndex("by_user", "user_id");
+          const children = db.createObjectStore(LEGACY_CHILDREN_STORE, {
+            keyPath: "id",
+          });
+          children.createIndex("by_parent", "parent_id");
+          db.createObjectStore(CACHE_STORES.progress, { keyPath: "task_id" });
+          db.createObjectStore(CACHE_STORES.queue, {
+            keyPath: "seq",
+            autoIncrement: true,
+          });
+        }
+        if (event.oldVersion < 2) {
+          const events = db.createObjectStore(CACHE_STORES.events, {
+            keyPath: "id",
+          });
+          events.createIndex("by_user", "user_id");
+          events.createIndex("by_task", "task_id");
+        }
+        if (event.oldVersion < 3) {
+          request
+            .transaction!.objectStore(CACHE_STORES.progress)
+            .createIndex("by_series", "series_id");
+        }
+        if (event.oldVersion < 4) {
+          // every task node shares one store, nested under parent_id
+          const tx = request.transaction!;
+          const tasks = tx.objectStore(CACHE_STORES.tasks);
+          tasks.createIndex("by_parent", "parent_id");
+          const legacy = tx.objectStore(LEGACY_CHILDREN_STORE).getAll();
+          legacy.onsuccess = () => {
+            (legacy.result as TaskChild[]).forEach((c) => tasks.put(c));
+            db.deleteObjectStore(LEGACY_CHILDREN_STORE);
+          };
+        }
+        if (event.oldVersion < 5) {
+          for (const name of [CACHE_STORES.courses, CACHE_STORES.semesters]) {
+            db.createObjectStore(name, { keyPath: "id" }).createIndex(
+              "by_user",
+              "user_id"
+            );
+          }
+        }
+        if (event.oldVersion < 6) {
+          db.createObjectStore(CACHE_STORES.tags, {
+            keyPath: "id",
+          }).createIndex("by_user", "user_id");
+        }
+        if (event.oldVersion < 7) {
+          db.createObjectStore(CACHE_STORES.classSessions, {
+            keyPath: "id",
+          }).createIndex("by_user", "user_id");
+        }
+        if (event.oldVersion < 8) {
+          db.createObjectStore(CACHE_STORES.userData, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const result = await run(tx.objectStore(name));
+  return result instanceof IDBRequest ? requestToPromise(result) : result;
+};
+
+const getAll = <T>(name: StoreName) =>
+  withStore<T[]>(name, "readonly", (store) => store.getAll());
+
+const getAllByIndex = <T>(name: StoreName, index: string, key: string) =>
+  withStore<T[]>(name, "readonly", (store) =>
+    store.index(index).getAll(IDBKeyRange.only(key))
+  );
+
+const getOne = async <T>(name: StoreName, key: string) =>
+  (await withStore<T | undefined>(name, "readonly", (store) =>
+    store.get(key)
+  )) ?? null;
+
+const putMany = async <T>(name: StoreName, values: T[]) => {
+  if (values.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  values.forEach((v) => store.put(v));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const deleteMany = async (name: StoreName, keys: IDBValidKey[]) => {
+  if (keys.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(name, "readwrite");
+  const store = tx.objectStore(name);
+  keys.forEach((k) => store.delete(k));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/** ---------- Tasks ---------- */
+
+export const getCachedTasksByUser = (uid: string) =>
+  getAllByIndex<TaskItem>(CACHE_STORES.tasks, "by_user", uid);
+
+export const getCachedTask = (taskId: string) =>
+  getOne<TaskItem>(CACHE_STORES.tasks, taskId);
+
+export const putCachedTasks = (tasks: TaskItem[]) =>
+  putMany(CACHE_STORES.tasks, tasks);
+
+/** replace every cached task of a user with a fresh server copy */
+export const replaceCachedTasksForUser = async (
+  uid: string,
+  tasks: TaskItem[]
+) => {
+  const stale = await getCachedTasksByUser(uid);
+  const freshIds = new Set(tasks.map((t) => t.id));
+  await deleteMany(
+    CACHE_STORES.tasks,
+    stale.filter((t) => !freshIds.has(t.id)).map((t) => t.id)
+  );
+  await putCachedTasks(tasks);
+};
+
+export const deleteCachedTasks = (taskIds: string[]) =>
+  deleteMany(CACHE_STORES.tasks, taskIds);
+
+/** ---------- Children ---------- */
+
+export const getCachedChildren = (parentId: string) =>
+  getAllByIndex<TaskChild>(CACHE_STORES.tasks, "by_parent", parentId);
+
+export const getCachedChild = async (childId: string) => {
+  const node = await getCachedTask(childId);
+  return node?.parent_id ? (node as TaskChild) : null;
+};
+
+export const putCachedChildren = (children: TaskChild[]) =>
+  putMany(CACHE_STORES.tasks, children);
+
+export const replaceCachedChildren = async (
+  parentId: string,
+  children: TaskChild[]
+) => {
+  const stale = await getCachedChildren(parentId);
+  const freshIds = new Set(children.map((c) => c.id));
+  await deleteMany(
+    CACHE_STORES.tasks,
+    stale.filter((c) => !freshIds.has(c.id)).map((c) => c.id)
+  );
+  await putCachedChildren(children);
+};
+
+/** ids of a cached node and every node nested below it */
+export const getCachedSubtreeIds = async (rootId: string) => {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i += 1) {
+    const children = await getCachedChildren(ids[i]);
+    children.forEach((c) => !ids.includes(c.id) && ids.push(c.id));
+  }
+  return ids;
+};
+
+/** ---------- Progress ---------- */
+
+export const getCachedProgress = (taskId: string) =>
+  getOne<TaskProgress>(CACHE_STORES.progress, taskId);
+
+export const putCachedProgress = (progress: TaskProgress[]) =>
+  putMany(CACHE_STORES.progress, progress);
+
+/** progress of every occurrence of a repeating task */
+export const getCachedOccurrenceProgress = (seriesId: string) =>
+  getAllByIndex<TaskProgress>(CACHE_STORES.progress, "by_series", seriesId);
+
+/** progress and status events of deleted nodes and their occurrences */
+export const deleteCachedProgressOf = async (taskIds: string[]) => {
+  const occurrences = await Promise.all(
+    taskIds.map(getCachedOccurrenceProgress)
+  );
+  const progressIds = [...taskIds, ...occurrences.flat().map((p) => p.task_id)];
+  const events = await Promise.all(progressIds.map(getCachedEventsByTask));
+  await deleteMany(CACHE_STORES.progress, progressIds);
+  await deleteMany(
+    CACHE_STORES.events,
+    events.flat().map((e) => e.id)
+  );
+};
+
+/** ---------- Status events ---------- */
+
+export const getCachedEventsByUser = (uid: string) =>
+  getAllByIndex<TaskStatusEvent>(CACHE_STORES.events, "by_user", uid);
+
+export const getCachedEventsByTask = (taskId: string) =>
+  getAllByIndex<TaskStatusEvent>(CACHE_STORES.events, "by_task", taskId);
+
+export const putCachedEvents = (events: TaskStatusEvent[]) =>
+  putMany(CACHE_STORES.events, events);
+
+/** replace every cached event of a user (drops local placeholders too) */
+export const replaceCachedEventsForUser = async (
+  uid: string,
+  events: TaskStatusEvent[]
+) => {
+  const stale = await getCachedEventsByUser(uid);
+  const freshIds = new Set(events.map((e) => e.id));
+  await deleteMany(
+    CACHE_STORES.events,
+    stale.filter((e) => !freshIds.has(e.id)).map((e) => e.id)
+  );
+  await putCachedEvents(events);
+};
+
+/** ---------- Courses & Semesters ---------- */
+
+export const getCachedCoursesByUser = (uid: string) =>
+  getAllByIndex<Course>(CACHE_STORES.courses, "by_user", uid);
+
+export const getCachedCourse = (courseId: string) =>
+  getOne<Course>(CACHE_STORES.courses, courseId);
+
+export const putCachedCourses = (courses: Course[]) =>
+  putMany(CACHE_STORES.courses, courses);
+
+export const deleteCachedCourse = (courseId: string) =>
+  deleteMany(CACHE_STORES.courses, [courseId]);
+
+export const replaceCachedCoursesForUser = async (
+  uid: string,
+  courses: Course[]
+) => {
+  const stale = await getCachedCoursesByUser(uid);
+  const freshIds = new Set(courses.map((c) => c.id));
+  await deleteMany(
+    CACHE_STORES.courses,
+    stale.filter((c) => !freshIds.has(c.id)).map((c) => c.id)
+  );
+  await putCachedCourses(courses);
+};
+
+export const getCachedSemestersByUser = (uid: string) =>
+  getAllByIndex<Semester>(CACHE_STORES.semesters, "by_user", uid);
+
+export const getCachedSemester = (semesterId: string) =>
+  getOne<Semester>(CACHE_STORES.semesters, semesterId);
+
+export const putCachedSemesters = (semesters: Semester[]) =>
+  putMany(CACHE_STORES.semesters, semesters);
+
+export const deleteCachedSemester = (semesterId: string) =>
+  deleteMany(CACHE_STORES.semesters, [semesterId]);
+
+export const replaceCachedSemestersForUser = async (
+  uid: string,
+  semesters: Semester[]
+) => {
+  const stale = await getCachedSemestersByUser(uid);
+  const freshIds = new Set(semesters.map((s) => s.id));
+  await deleteMany(
+    CACHE_STORES.semesters,
+    stale.filter((s) => !freshIds.has(s.id)).map((s) => s.id)
+  );
+  await putCachedSemesters(semesters);
+};
+
+/** ---------- Tags ---------- */
+
+export const getCachedTagsByUser = (uid: string) =>
+  getAllByIndex<Tag>(CACHE_STORES.tags, "by_user", uid);
+
+export const getCachedTag = (tagId: string) =>
+  getOne<Tag>(CACHE_STORES.tags, tagId);
+
+export const putCachedTags = (tags: Tag[]) => putMany(CACHE_STORES.tags, tags);
+
+export const deleteCachedTag = (tagId: string) =>
+  deleteMany(CACHE_STORES.tags, [tagId]);
+
+export const replaceCachedTagsForUser = async (uid: string, tags: Tag[]) => {
+  const stale = await getCachedTagsByUser(uid);
+  const freshIds = new Set(tags.map((t) => t.id));
+  await deleteMany(
+    CACHE_STORES.tags,
+    stale.filter((t) => !freshIds.has(t.id)).map((t) => t.id)
+  );
+  await putCachedTags(tags);
+};
+
+/** ---------- Timetable ---------- */
+
+export const getCachedClassSessionsByUser = (uid: string) =>
+  getAllByIndex<ClassSession>(CACHE_STORES.classSessions, "by_user", uid);
+
+export const getCachedClassSession = (sessionId: string) =>
+  getOne<ClassSession>(CACHE_STORES.classSessions, sessionId);
+
+export const putCachedClassSessions = (sessions: ClassSession[]) =>
+  putMany(CACHE_STORES.classSessions, sessions);
+
+export const deleteCachedClassSession = (sessionId: string) =>
+  deleteMany(CACHE_STORES.classSessions, [sessionId]);
+
+export const replaceCachedClassSessionsForUser = async (
+  uid: string,
+  sessions: ClassSession[]
+) => {
+  const stale = await getCachedClassSessionsByUser(uid);
+  const freshIds = new Set(sessions.map((s) => s.id));
+  await deleteMany(
+    CACHE_STORES.classSessions,
+    stale.filter((s) => !freshIds.has(s.id)).map((s) => s.id)
+  );
+  await putCachedClassSessions(sessions);
+};
+
+/** ---------- User data ---------- */
+
+interface CachedUserData {
+  /** `${uid}_${key}`, like the Firestore doc id */
+  id: string;
+  value: unknown;
+}
+
+export const getCachedUserData = async (uid: string, key: string) =>
+  (await getOne<CachedUserData>(CACHE_STORES.userData, `${uid}_${key}`))
+    ?.value ?? null;
+
+export const putCachedUserData = (uid: string, key: string, value: unknown) =>
+  putMany<CachedUserData>(CACHE_STORES.userData, [
+    { id: `${uid}_${key}`, value },
+  ]);
+
+/** ---------- Sync queue ---------- */
+
+export const getQueuedOperations = () =>
+  getAll<SyncQueueEntry>(CACHE_STORES.queue);
+
+export const putQueuedOperations = (entries: SyncQueueEntry[]) =>
+  putMany(CACHE_STORES.queue, entries);
+
+export const addQueuedOperation = (entry: SyncQueueEntry) =>
+  withStore<IDBValidKey>(CACHE_STORES.queue, "readwrite", (store) =>
+    store.add(entry)
+  );
+
+export const deleteQueuedOperation = (seq: number) =>
+  deleteMany(CACHE_STORES.queue, [seq]);
+
+/**
+ * After a record created offline got its real id from the server,
+ * rewrite every cached reference to the temporary id.
+ */
+export const remapCachedId = async (fromId: string, toId: string) => {
+  const task = await getCachedTask(fromId);
+  if (task) {
+    await deleteCachedTasks([fromId]);
+    await putCachedTasks([{ ...task, id: toId }]);
+  }
+
+  const orphans = await getCachedChildren(fromId);
+  await putCachedChildren(orphans.map((c) => ({ ...c, parent_id: toId })));
+
+  const swap = (ids: string[] | null | undefined) =>
+    (ids ?? []).map((id) => (id === fromId ? toId : id));
+  const referencing = (await getAll<TaskItem>(CACHE_STORES.tasks)).filter(
+    (t) => t.depends_on?.includes(fromId) || t.tags?.includes(fromId)
+  );
+  await putCachedTasks(
+    referencing.map((t) => ({
+      ...t,
+      depends_on: swap(t.depends_on),
+      tags: swap(t.tags),
+    }))
+  );
+
+  const progress = await getCachedProgress(fromId);
+  if (progress) {
+    await deleteMany(CACHE_STORES.progress, [fromId]);
+    await putCachedProgress([{ ...progress, task_id: toId }]);
+  }
+
+  const events = await getCachedEventsByTask(fromId);
+  await putCachedEvents(events.map((e) => ({ ...e, task_id: toId })));
+
+  const course = await getCachedCourse(fromId);
+  if (course) {
+    await deleteCachedCourse(fromId);
+    await putCachedCourses([{ ...course, id: toId }]);
+  }
+  const courseTasks = (await getAll<TaskItem>(CACHE_STORES.tasks)).filter(
+    (t) => t.course_id === fromId
+  );
+  await putCachedTasks(courseTasks.map((t) => ({ ...t, course_id: toId })));
+  const courseSessions = (
+    await getAll<ClassSession>(CACHE_STORES.classSessions)
+  ).filter((s) => s.course_id === fromId);
+  await putCachedClassSessions(
+    courseSessions.map((s) => ({ ...s, course_id: toId }))
+  );
+
+  const semester = await getCachedSemester(fromId);
+  if (semester) {
+    await deleteCachedSemester(fromId);
+    await putCachedSemesters([{ ...semester, id: toId }]);
+  }
+  const semesterCourses = (await getAll<Course>(CACHE_STORES.courses)).filter(
+    (c) => c.semester_id === fromId
+  );
+  await putCachedCourses(
+    semesterCourses.map((c) => ({ ...c, semester_id: toId }))
+  );
+
+  const tag = await getCachedTag(fromId);
+  if (tag) {
+    await deleteCachedTag(fromId);
+    await putCachedTags([{ ...tag, id: toId }]);
+  }
+
+  const session = await getCachedClassSession(fromId);
+  if (session) {
+    await deleteCachedClassSession(fromId);
+    await putCachedClassSessions([{ ...session, id: toId }]);
+  }
+};
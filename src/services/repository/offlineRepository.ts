@@ -0,0 +1,1000 @@
+// src/services/repository/offlineRepository.ts
+import type {
+  TaskItem,
+  TaskChild,
+  Course,
+  Semester,
+  Tag,
+  ClassSession,
+} from "../firestore";
+import {
+  type TaskProgress,
+  type TaskStatusEvent,
+  nextProgressTimestamps,
+} from "../taskProgress";
+import { parseOccurrenceId } from "../recurrence";
+import {
+  publishSyncQueue,
+  setSyncDiscardHandler,
+  setSyncRetryHandler,
+  type SyncOperation,
+  type SyncQueueEntry,
+} from "../syncStatus";
+import {
+  getCachedTasksByUser,
+  getCachedTask,
+  putCachedTasks,
+  replaceCachedTasksForUser,
+  deleteCachedTasks,
+  deleteCachedProgressOf,
+  getCachedChildren,
+  getCachedChild,
+  putCachedChildren,
+  replaceCachedChildren,
+  getCachedSubtreeIds,
+  getCachedProgress,
+  putCachedProgress,
+  getCachedOccurrenceProgress,
+  getCachedEventsByUser,
+  getCachedEventsByTask,
+  putCachedEvents,
+  replaceCachedEventsForUser,
+  getCachedCoursesByUser,
+  getCachedCourse,
+  putCachedCourses,
+  deleteCachedCourse,
+  replaceCachedCoursesForUser,
+  getCachedSemestersByUser,
+  getCachedSemester,
+  putCachedSemesters,
+  deleteCachedSemester,
+  replaceCachedSemestersForUser,
+  getCachedTagsByUser,
+  getCachedTag,
+  putCachedTags,
+  deleteCachedTag,
+  replaceCachedTagsForUser,
+  getCachedClassSessionsByUser,
+  getCachedClassSession,
+  putCachedClassSessions,
+  deleteCachedClassSession,
+  replaceCachedClassSessionsForUser,
+  getCachedUserData,
+  putCachedUserData,
+  getQueuedOperations,
+  putQueuedOperations,
+  addQueuedOperation,
+  deleteQueuedOperation,
+  remapCachedId,
+} from "./offlineCache";
+import type { TaskRepository, Subscriber, Unsubscribe } from ".";
+
+const LOCAL_ID_PREFIX = "local_";
+
+const createLocalId = () =>
+  LOCAL_ID_PREFIX +
+  Math.random().toString(36).slice(2, 10) +
+  Date.now().toString(36);
+
+const isOnline = () =>
+  typeof navigator === "undefined" ? true : navigator.onLine;
+
+/** messages of the TypeError fetch throws when the request never got out */
+const FETCH_FAILURE =
+  /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Firestore reports lost connectivity as "unavailable"; fetch as a TypeError
+ * (any other TypeError is a bug and must surface, not be queued)
+ */
+const isNetworkError = (err: unknown): boolean => {
+  if (!isOnline()) return true;
+  const code = (err as { code?: string } | null)?.code;
+  return (
+    code === "unavailable" ||
+    code === "deadline-exceeded" ||
+    (err instanceof TypeError && FETCH_FAILURE.test(err.message))
+  );
+};
+
+/** temporary id a create hands out until the server id is known */
+const localIdOf = (op: SyncOperation) =>
+  op.type === "saveTask" ||
+  op.type === "createChildTask" ||
+  op.type === "saveCourse" ||
+  op.type === "saveSemester" ||
+  op.type === "saveTag" ||
+  op.type === "saveClassSession"
+    ? op.localId
+    : undefined;
+
+/** temporary ids an operation writes to or points at (its own localId aside) */
+const referencedLocalIds = (
+  value: unknown,
+  found = new Set<string>()
+): Set<string> => {
+  if (typeof value === "string") {
+    if (value.startsWith(LOCAL_ID_PREFIX)) found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => referencedLocalIds(v, found));
+  } else if (value && typeof value === "object" && !(value instanceof Date)) {
+    Object.entries(value).forEach(
+      ([key, v]) => key !== "localId" && referencedLocalIds(v, found)
+    );
+  }
+  return found;
+};
+
+const HELD_ERROR = "Waiting for a failed write it depends on";
+
+/** Deep-replace a temporary id inside a queued operation */
+const replaceId = <T>(value: T, fromId: string, toId: string): T => {
+  if (value === fromId) return toId as T;
+  if (Array.isArray(value)) {
+    return value.map((v) => replaceId(v, fromId, toId)) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, replaceId(v, fromId, toId)])
+    ) as T;
+  }
+  return value;
+};
+
+const sortByChangedAt = (events: TaskStatusEvent[]) =>
+  events.sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime());
+
+const logCacheError = (err: unknown) =>
+  console.error("[offlineRepository] cache write failed:", err);
+
+const logFlushError = (err: unknown) =>
+  console.error("[offlineRepository] flush failed:", err);
+
+/**
+ * Offline-first decorator around a remote repository:
+ * - reads hit the remote when possible and are mirrored into IndexedDB,
+ *   otherwise (offline / pending writes) they are served from the cache
+ * - writes made offline are applied to the cache and queued, then replayed
+ *   in order on reconnect (temporary ids are swapped for the server ids)
+ */
+export const createOfflineRepository = (
+  remote: TaskRepository
+): TaskRepository => {
+  let flushing: Promise<void> | null = null;
+  /** re-emit callbacks of live subscriptions, run after local-only writes */
+  const liveQueries = new Set<() => void>();
+
+  const refreshStatus = async () => {
+    publishSyncQueue(await getQueuedOperations());
+  };
+
+  /** failed entries wait for a retry / discard, not for the network */
+  const hasQueuedWrites = async () =>
+    (await getQueuedOperations()).some((e) => e.status === "pending");
+
+  /** local id -> server id of the creates replayed so far */
+  const resolvedIds = new Map<string, string>();
+
+  const resolveLocalIds = (op: SyncOperation) => {
+    let resolved = op;
+    for (const id of referencedLocalIds(op)) {
+      const serverId = resolvedIds.get(id);
+      if (serverId) resolved = replaceId(resolved, id, serverId);
+    }
+    return resolved;
+  };
+
+  /** ---------- Cache mirroring ---------- */
+
+  // an occurrence belongs to its series, a subtask to its top-level task
+  const ownerOf = async (taskId: string) => {
+    let ownerId = parseOccurrenceId(taskId)?.seriesId ?? taskId;
+    const seen = new Set([ownerId]);
+    for (;;) {
+      const parentId = (await getCachedTask(ownerId))?.parent_id;
+      if (!parentId || seen.has(parentId)) return ownerId;
+      seen.add(parentId);
+      ownerId = parentId;
+    }
+  };
+
+  const applyToCache = async (op: SyncOperation, resultId?: string) => {
+    switch (op.type) {
+      case "saveTask": {
+        const id = resultId ?? op.task.id ?? op.localId!;
+        const existing = await getCachedTask(id);
+        await putCachedTasks([
+          {
+            id,
+            user_id: op.uid,
+            createdAt: existing?.createdAt ?? new Date(),
+            ...existing,
+            task_name: op.task.task_name,
+            task_detail: op.task.task_detail ?? "",
+            start_time: op.task.start_time ?? null,
+            end_time: op.task.end_time ?? null,
+            level: op.task.level,
+            parent_id: existing?.parent_id ?? null,
+            recurrence:
+              op.task.recurrence !== undefined
+                ? op.task.recurrence
+                : existing?.recurrence ?? null,
+            course_id:
+              op.task.course_id !== undefined
+                ? op.task.course_id
+                : existing?.course_id ?? null,
+            tags:
+              op.task.tags !== undefined
+                ? op.task.tags ?? []
+                : existing?.tags ?? [],
+            ics_uid:
+              op.task.ics_uid !== undefined
+                ? op.task.ics_uid
+                : existing?.ics_uid ?? null,
+            estimated_minutes:
+              op.task.estimated_minutes !== undefined
+                ? op.task.estimated_minutes
+                : existing?.estimated_minutes ?? null,
+            reminders:
+              op.task.reminders !== undefined
+                ? op.task.reminders
+                : existing?.reminders ?? null,
+          },
+        ]);
+        break;
+      }
+      case "deleteTask": {
+        const ids = await getCachedSubtreeIds(op.taskId);
+        await deleteCachedTasks(ids);
+        await deleteCachedProgressOf(ids);
+        break;
+      }
+      case "setTaskDependencies": {
+        const existing = await getCachedTask(op.taskId);
+        if (existing) {
+          await putCachedTasks([{ ...existing, depends_on: op.dependsOn }]);
+        }
+        break;
+      }
+      case "addTrackedMinutes": {
+        const existing = await getCachedTask(op.taskId);
+        if (existing) {
+          await putCachedTasks([
+            {
+              ...existing,
+              actual_minutes: (existing.actual_minutes ?? 0) + op.minutes,
+            },
+          ]);
+        }
+        break;
+      }
+      case "createChildTask": {
+        const id = resultId ?? op.localId;
+        await putCachedChildren([
+          {
+            id,
+            task_name: op.childTask.task_name,
+            task_detail: op.childTask.task_detail ?? "",
+            start_time: op.childTask.start_time ?? null,
+            end_time: op.childTask.end_time ?? null,
+            level: op.childTask.level,
+            tags: op.childTask.tags ?? [],
+            estimated_minutes: op.childTask.estimated_minutes ?? null,
+            parent_id: op.parentId,
+            user_id: op.uid,
+            createdAt: new Date(),
+          },
+        ]);
+        break;
+      }
+      case "updateChildTask": {
+        const existing = await getCachedChild(op.childId);
+        if (existing) {
+          await putCachedChildren([
+            {
+              ...existing,
+              ...op.data,
+              start_time: op.data.start_time ?? null,
+              end_time: op.data.end_time ?? null,
+            },
+          ]);
+        }
+        break;
+      }
+      case "deleteChildTask": {
+        const ids = await getCachedSubtreeIds(op.childId);
+        await deleteCachedTasks(ids);
+        await deleteCachedProgressOf(ids);
+        break;
+      }
+      case "saveCourse": {
+        const id = resultId ?? op.course.id ?? op.localId!;
+        const existing = await getCachedCourse(id);
+        await putCachedCourses([
+          {
+            id,
+            user_id: existing?.user_id ?? op.uid,
+            createdAt: existing?.createdAt ?? new Date(),
+            name: op.course.name,
+            code: op.course.code,
+            credits: op.course.credits ?? null,
+            color: op.course.color,
+            instructor: op.course.instructor ?? "",
+            semester_id: op.course.semester_id ?? null,
+          },
+        ]);
+        break;
+      }
+      case "deleteCourse": {
+        const linked = (await getCachedTasksByUser(op.uid)).filter(
+          (t) => t.course_id === op.courseId
+        );
+        await putCachedTasks(linked.map((t) => ({ ...t, course_id: null })));
+        await deleteCachedCourse(op.courseId);
+        break;
+      }
+      case "saveSemester": {
+        const id = resultId ?? op.semester.id ?? op.localId!;
+        const existing = await getCachedSemester(id);
+        await putCachedSemesters([
+          {
+            id,
+            user_id: existing?.user_id ?? op.uid,
+            createdAt: existing?.createdAt ?? new Date(),
+            name: op.semester.name,
+            start_date: op.semester.start_date ?? null,
+            end_date: op.semester.end_date ?? null,
+          },
+        ]);
+        break;
+      }
+      case "deleteSemester": {
+        const linked = (await getCachedCoursesByUser(op.uid)).filter(
+          (c) => c.semester_id === op.semesterId
+        );
+        await putCachedCourses(
+          linked.map((c) => ({ ...c, semester_id: null }))
+        );
+        await deleteCachedSemester(op.semesterId);
+        break;
+      }
+      case "saveTag": {
+        const id = resultId ?? op.tag.id ?? op.localId!;
+        const existing = await getCachedTag(id);
+        await putCachedTags([
+          {
+            id,
+            user_id: existing?.user_id ?? op.uid,
+            createdAt: existing?.createdAt ?? new Date(),
+            name: op.tag.name,
+            color: op.tag.color,
+          },
+        ]);
+        break;
+      }
+      case "deleteTag": {
+        const linked = (await getCachedTasksByUser(op.uid)).filter((t) =>
+          t.tags?.includes(op.tagId)
+        );
+        await putCachedTasks(
+          linked.map((t) => ({
+            ...t,
+            tags: (t.tags ?? []).filter((id) => id !== op.tagId),
+          }))
+        );
+        await deleteCachedTag(op.tagId);
+        break;
+      }
+      case "saveClassSession": {
+        const id = resultId ?? op.session.id ?? op.localId!;
+        const existing = await getCachedClassSession(id);
+        await putCachedClassSessions([
+          {
+            id,
+            user_id: existing?.user_id ?? op.uid,
+            createdAt: existing?.createdAt ?? new Date(),
+            course_id: op.session.course_id ?? null,
+            room: op.session.room ?? "",
+            weekday: op.session.weekday,
+            start_time: op.session.start_time,
+            end_time: op.session.end_time,
+            start_date: op.session.start_date ?? null,
+            end_date: op.session.end_date ?? null,
+          },
+        ]);
+        break;
+      }
+      case "deleteClassSession": {
+        await deleteCachedClassSession(op.sessionId);
+        break;
+      }
+      case "saveUserData": {
+        await putCachedUserData(op.uid, op.key, op.value);
+        break;
+      }
+      case "updateTaskProgress": {
+        const changedAt = op.change?.changed_at ?? new Date();
+        const reason = op.change?.reason ?? null;
+        const previous = await getCachedProgress(op.taskId);
+        await putCachedProgress([
+          {
+            task_id: op.taskId,
+            task_status: op.status,
+            updated_at: changedAt,
+            status_reason: reason,
+            ...nextProgressTimestamps(previous, op.status, changedAt),
+            series_id: parseOccurrenceId(op.taskId)?.seriesId ?? null,
+          },
+        ]);
+        // placeholder event, replaced by the server copy once synced
+        if (
+          previous?.task_status !== op.status ||
+          (previous?.status_reason ?? null) !== reason
+        ) {
+          await putCachedEvents([
+            {
+              id: createLocalId(),
+              task_id: op.taskId,
+              user_id: op.change?.changed_by ?? null,
+              from_status: previous?.task_status ?? null,
+              to_status: op.status,
+              changed_at: changedAt,
+              reason,
+            },
+          ]);
+        }
+        break;
+      }
+    }
+  };
+
+  /** ---------- Replay ---------- */
+
+  const replay = async (op: SyncOperation): Promise<string | void> => {
+    switch (op.type) {
+      case "saveTask":
+        return remote.saveTaskWithLevel(op.uid, op.task);
+      case "deleteTask":
+        return remote.deleteTask(op.taskId);
+      case "setTaskDependencies":
+        return remote.setTaskDependencies(op.taskId, op.dependsOn);
+      case "addTrackedMinutes":
+        return remote.addTrackedMinutes(op.taskId, op.minutes);
+      case "createChildTask":
+        return remote.createChildTask(op.uid, op.parentId, op.childTask);
+      case "updateChildTask":
+        return remote.updateChildTask(op.childId, op.data);
+      case "deleteChildTask":
+        return remote.deleteChildTask(op.childId, op.parentId);
+      case "saveCourse":
+        return remote.saveCourse(op.uid, op.course);
+      case "deleteCourse":
+        return remote.deleteCourse(op.uid, op.courseId);
+      case "saveSemester":
+        return remote.saveSemester(op.uid, op.semester);
+      case "deleteSemester":
+        return remote.deleteSemester(op.uid, op.semesterId);
+      case "saveTag":
+        return remote.saveTag(op.uid, op.tag);
+      case "deleteTag":
+        return remote.deleteTag(op.uid, op.tagId);
+      case "saveClassSession":
+        return remote.saveClassSession(op.uid, op.session);
+      case "deleteClassSession":
+        return remote.deleteClassSession(op.uid, op.sessionId);
+      case "saveUserData":
+        return remote.saveUserData(op.uid, op.key, op.value);
+      case "updateTaskProgress":
+        return remote.updateTaskProgress(op.taskId, op.status, op.change);
+    }
+  };
+
+  const remapQueuedId = async (fromId: string, toId: string) => {
+    resolvedIds.set(fromId, toId);
+    await remapCachedId(fromId, toId);
+    const entries = await getQueuedOperations();
+    await putQueuedOperations(
+      entries
+        .filter((e) => JSON.stringify(e).includes(fromId))
+        .map((e) => ({
+          ...e,
+          op: replaceId(e.op, fromId, toId),
+          ownerId: e.ownerId === fromId ? toId : e.ownerId,
+        }))
+    );
+  };
+
+  /**
+   * Replay pending entries in order; stops at the first network error.
+   * Writes on the temporary id of a failed create are held (marked failed
+   * too) instead of being sent to a document that does not exist.
+   */
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing;
+    flushing = (async () => {
+      const attempted = new Set<number>();
+      while (isOnline()) {
+        const entries = await getQueuedOperations();
+        const next = entries.find(
+          (e) => e.status === "pending" && !attempted.has(e.seq!)
+        );
+        if (!next) break;
+        attempted.add(next.seq!);
+
+        const failedIds = new Set(
+          entries
+            .filter((e) => e.status === "failed")
+            .map((e) => localIdOf(e.op))
+        );
+        if ([...referencedLocalIds(next.op)].some((id) => failedIds.has(id))) {
+          await putQueuedOperations([
+            { ...next, status: "failed", error: HELD_ERROR },
+          ]);
+          await refreshStatus();
+          continue;
+        }
+
+        try {
+          const result = await replay(next.op);
+          await deleteQueuedOperation(next.seq!);
+          const localId = localIdOf(next.op);
+          if (localId && typeof result === "string" && result !== localId) {
+            await remapQueuedId(localId, result);
+          }
+        } catch (err) {
+          if (isNetworkError(err)) break;
+          console.error("[offlineRepository] replay failed:", err);
+          await putQueuedOperations([
+            {
+              ...next,
+              status: "failed",
+              error: err instanceof Error ? err.message : String(err),
+            },
+          ]);
+        }
+        await refreshStatus();
+      }
+      await refreshStatus();
+    })().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  };
+
+  const retryFailed = async () => {
+    const entries = await getQueuedOperations();
+    await putQueuedOperations(
+      entries
+        .filter((e) => e.status === "failed")
+        .map((e) => ({ ...e, status: "pending" as const, error: undefined }))
+    );
+    await refreshStatus();
+    await flush();
+  };
+
+  /**
+   * Forget the failed writes of a task, with every write held by them;
+   * the cache is refreshed by the next remote snapshot.
+   */
+  const discardFailed = async (ownerId: string) => {
+    const entries = await getQueuedOperations();
+    const dropped = entries.filter(
+      (e) => e.status === "failed" && e.ownerId === ownerId
+    );
+    const droppedIds = new Set(dropped.map((e) => localIdOf(e.op)));
+    for (const entry of entries) {
+      if (dropped.includes(entry)) continue;
+      if ([...referencedLocalIds(entry.op)].some((id) => droppedIds.has(id))) {
+        dropped.push(entry);
+        droppedIds.add(localIdOf(entry.op));
+      }
+    }
+    for (const entry of dropped) await deleteQueuedOperation(entry.seq!);
+    await refreshStatus();
+  };
+
+  setSyncRetryHandler(retryFailed);
+  setSyncDiscardHandler(discardFailed);
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+      flush().catch(logFlushError);
+    });
+  }
+  refreshStatus()
+    .then(() => (isOnline() ? flush() : undefined))
+    .catch((err) => console.error("[offlineRepository] init failed:", err));
+
+  /** ---------- Generic read/write paths ---------- */
+
+  const readThrough = async <T>(
+    fromRemote: () => Promise<T>,
+    fromCache: () => Promise<T>,
+    toCache: (fresh: T) => Promise<void>
+  ): Promise<T> => {
+    if (isOnline() && !(await hasQueuedWrites())) {
+      try {
+        const fresh = await fromRemote();
+        await toCache(fresh).catch(logCacheError);
+        return fresh;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+    return fromCache();
+  };
+
+  /**
+   * Try the remote first (only when nothing is queued, to keep ordering);
+   * on network failure the write is queued and applied to the cache.
+   */
+  const writeThrough = async <T extends string | void>(
+    queued: SyncOperation,
+    ownerId: string,
+    offlineResult: T
+  ): Promise<T> => {
+    const op = resolveLocalIds(queued);
+    // a write on a temporary id must wait behind its create
+    const direct = referencedLocalIds(op).size === 0;
+    if (direct && isOnline() && !(await hasQueuedWrites())) {
+      try {
+        const result = (await replay(op)) as T;
+        await applyToCache(
+          op,
+          typeof result === "string" ? result : undefined
+        ).catch(logCacheError);
+        return result;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+
+    await applyToCache(op);
+    await addQueuedOperation({
+      op,
+      ownerId: resolvedIds.get(ownerId) ?? ownerId,
+      status: "pending",
+      createdAt: new Date(),
+    } satisfies SyncQueueEntry);
+    await refreshStatus();
+    liveQueries.forEach((emit) => emit());
+    if (isOnline()) flush().catch(logFlushError);
+    return offlineResult;
+  };
+
+  /**
+   * Live query: cached value first, then the remote stream mirrored into
+   * the cache. While writes are queued the cache (which already holds them)
+   * wins over the remote snapshot so optimistic changes don't flicker away.
+   */
+  const liveThrough = <T>(
+    subscriber: Subscriber<T>,
+    fromRemote: (subscriber: Subscriber<T>) => Unsubscribe,
+    fromCache: () => Promise<T>,
+    toCache: (fresh: T) => Promise<void>
+  ): Unsubscribe => {
+    let active = true;
+    const emitFromCache = () => {
+      fromCache()
+        .then((value) => {
+          if (active) subscriber.next(value);
+        })
+        .catch(logCacheError);
+    };
+
+    emitFromCache();
+    liveQueries.add(emitFromCache);
+    // the awaits below may finish out of order: only the latest snapshot counts
+    let latest = 0;
+    const unsubscribeRemote = fromRemote({
+      next: async (fresh) => {
+        const seq = ++latest;
+        if (await hasQueuedWrites()) return emitFromCache();
+        await toCache(fresh).catch(logCacheError);
+        if (active && seq === latest) subscriber.next(fresh);
+      },
+      error: (err) => {
+        if (isNetworkError(err)) return emitFromCache();
+        subscriber.error?.(err);
+      },
+    });
+
+    return () => {
+      active = false;
+      liveQueries.delete(emitFromCache);
+      unsubscribeRemote();
+    };
+  };
+
+  /** ---------- Repository ---------- */
+
+  return {
+    getTasksWithLevelsByUser: (uid) =>
+      readThrough<TaskItem[]>(
+        () => remote.getTasksWithLevelsByUser(uid),
+        () => getCachedTasksByUser(uid),
+        (tasks) => replaceCachedTasksForUser(uid, tasks)
+      ),
+
+    getTaskById: (taskId) =>
+      readThrough<TaskItem | null>(
+        () => remote.getTaskById(taskId),
+        () => getCachedTask(taskId),
+        async (task) => {
+          if (task) await putCachedTasks([task]);
+        }
+      ),
+
+    saveTaskWithLevel: (uid, task) => {
+      const localId = task.id ? undefined : createLocalId();
+      return writeThrough(
+        { type: "saveTask", uid, task, localId },
+        task.id ?? localId!,
+        task.id ?? localId!
+      );
+    },
+
+    deleteTask: (taskId) =>
+      writeThrough<void>({ type: "deleteTask", taskId }, taskId, undefined),
+
+    setTaskDependencies: async (taskId, dependsOn) =>
+      writeThrough<void>(
+        { type: "setTaskDependencies", taskId, dependsOn },
+        await ownerOf(taskId),
+        undefined
+      ),
+
+    addTrackedMinutes: async (taskId, minutes) =>
+      writeThrough<void>(
+        { type: "addTrackedMinutes", taskId, minutes },
+        await ownerOf(taskId),
+        undefined
+      ),
+
+    createChildTask: async (uid, parentId, childTask) => {
+      const localId = createLocalId();
+      return writeThrough(
+        { type: "createChildTask", uid, parentId, childTask, localId },
+        await ownerOf(parentId),
+        localId
+      );
+    },
+
+    getChildTasksByParentId: (parentId) =>
+      readThrough<TaskChild[]>(
+        () => remote.getChildTasksByParentId(parentId),
+        () => getCachedChildren(parentId),
+        (children) => replaceCachedChildren(parentId, children)
+      ),
+
+    updateChildTask: async (childId, data) =>
+      writeThrough<void>(
+        { type: "updateChildTask", childId, data },
+        await ownerOf(childId),
+        undefined
+      ),
+
+    deleteChildTask: async (childId, parentId) =>
+      writeThrough<void>(
+        { type: "deleteChildTask", childId, parentId },
+        await ownerOf(parentId),
+        undefined
+      ),
+
+    saveCourse: (uid, course) => {
+      const localId = course.id ? undefined : createLocalId();
+      return writeThrough(
+        { type: "saveCourse", uid, course, localId },
+        course.id ?? localId!,
+        course.id ?? localId!
+      );
+    },
+
+    deleteCourse: (uid, courseId) =>
+      writeThrough<void>(
+        { type: "deleteCourse", uid, courseId },
+        courseId,
+        undefined
+      ),
+
+    saveSemester: (uid, semester) => {
+      const localId = semester.id ? undefined : createLocalId();
+      return writeThrough(
+        { type: "saveSemester", uid, semester, localId },
+        semester.id ?? localId!,
+        semester.id ?? localId!
+      );
+    },
+
+    deleteSemester: (uid, semesterId) =>
+      writeThrough<void>(
+        { type: "deleteSemester", uid, semesterId },
+        semesterId,
+        undefined
+      ),
+
+    saveTag: (uid, tag) => {
+      const localId = tag.id ? undefined : createLocalId();
+      return writeThrough(
+        { type: "saveTag", uid, tag, localId },
+        tag.id ?? localId!,
+        tag.id ?? localId!
+      );
+    },
+
+    deleteTag: (uid, tagId) =>
+      writeThrough<void>({ type: "deleteTag", uid, tagId }, tagId, undefined),
+
+    saveClassSession: (uid, session) => {
+      const localId = session.id ? undefined : createLocalId();
+      return writeThrough(
+        { type: "saveClassSession", uid, session, localId },
+        session.id ?? localId!,
+        session.id ?? localId!
+      );
+    },
+
+    deleteClassSession: (uid, sessionId) =>
+      writeThrough<void>(
+        { type: "deleteClassSession", uid, sessionId },
+        sessionId,
+        undefined
+      ),
+
+    saveUserData: (uid, key, value) =>
+      writeThrough<void>(
+        { type: "saveUserData", uid, key, value },
+        `${uid}_${key}`,
+        undefined
+      ),
+
+    updateTaskProgress: async (taskId, status, change) =>
+      writeThrough<void>(
+        { type: "updateTaskProgress", taskId, status, change },
+        await ownerOf(taskId),
+        undefined
+      ),
+
+    getTaskProgress: (taskId) =>
+      readThrough<TaskProgress | null>(
+        () => remote.getTaskProgress(taskId),
+        () => getCachedProgress(taskId),
+        async (progress) => {
+          if (progress) await putCachedProgress([progress]);
+        }
+      ),
+
+    getMultipleTaskProgress: (taskIds) =>
+      readThrough<Record<string, TaskProgress>>(
+        () => remote.getMultipleTaskProgress(taskIds),
+        async () => {
+          const result: Record<string, TaskProgress> = {};
+          for (const id of taskIds) {
+            const progress = await getCachedProgress(id);
+            if (progress) result[id] = progress;
+          }
+          return result;
+        },
+        (map) => putCachedProgress(Object.values(map))
+      ),
+
+    getStatusHistory: (taskId) =>
+      readThrough<TaskStatusEvent[]>(
+        () => remote.getStatusHistory(taskId),
+        async () => sortByChangedAt(await getCachedEventsByTask(taskId)),
+        putCachedEvents
+      ),
+
+    // server-side backfill; progress subscriptions pick up the result
+    migrateProgressTimestamps: async (uid) => {
+      if (!isOnline() || (await hasQueuedWrites())) {
+        throw new Error("Migration needs a connection and no pending writes");
+      }
+      return remote.migrateProgressTimestamps(uid);
+    },
+
+    // moves server docs; the task subscription refreshes the cache
+    migrateTaskHierarchy: async (uid) => {
+      if (!isOnline() || (await hasQueuedWrites())) {
+        throw new Error("Migration needs a connection and no pending writes");
+      }
+      return remote.migrateTaskHierarchy(uid);
+    },
+
+    subscribeTasksByUser: (uid, subscriber) =>
+      liveThrough<TaskItem[]>(
+        subscriber,
+        (s) => remote.subscribeTasksByUser(uid, s),
+        () => getCachedTasksByUser(uid),
+        (tasks) => replaceCachedTasksForUser(uid, tasks)
+      ),
+
+    subscribeTaskProgress: (taskIds, subscriber) =>
+      liveThrough<Record<string, TaskProgress>>(
+        subscriber,
+        (s) => remote.subscribeTaskProgress(taskIds, s),
+        async () => {
+          const result: Record<string, TaskProgress> = {};
+          for (const id of taskIds) {
+            const progress = await getCachedProgress(id);
+            if (progress) result[id] = progress;
+          }
+          return result;
+        },
+        (map) => putCachedProgress(Object.values(map))
+      ),
+
+    subscribeOccurrenceProgress: (seriesIds, subscriber) =>
+      liveThrough<Record<string, TaskProgress>>(
+        subscriber,
+        (s) => remote.subscribeOccurrenceProgress(seriesIds, s),
+        async () => {
+          const result: Record<string, TaskProgress> = {};
+          for (const id of seriesIds) {
+            for (const progress of await getCachedOccurrenceProgress(id)) {
+              result[progress.task_id] = progress;
+            }
+          }
+          return result;
+        },
+        (map) => putCachedProgress(Object.values(map))
+      ),
+
+    subscribeCoursesByUser: (uid, subscriber) =>
+      liveThrough<Course[]>(
+        subscriber,
+        (s) => remote.subscribeCoursesByUser(uid, s),
+        () => getCachedCoursesByUser(uid),
+        (courses) => replaceCachedCoursesForUser(uid, courses)
+      ),
+
+    subscribeSemestersByUser: (uid, subscriber) =>
+      liveThrough<Semester[]>(
+        subscriber,
+        (s) => remote.subscribeSemestersByUser(uid, s),
+        () => getCachedSemestersByUser(uid),
+        (semesters) => replaceCachedSemestersForUser(uid, semesters)
+      ),
+
+    subscribeTagsByUser: (uid, subscriber) =>
+      liveThrough<Tag[]>(
+        subscriber,
+        (s) => remote.subscribeTagsByUser(uid, s),
+        () => getCachedTagsByUser(uid),
+        (tags) => replaceCachedTagsForUser(uid, tags)
+      ),
+
+    subscribeClassSessionsByUser: (uid, subscriber) =>
+      liveThrough<ClassSession[]>(
+        subscriber,
+        (s) => remote.subscribeClassSessionsByUser(uid, s),
+        () => getCachedClassSessionsByUser(uid),
+        (sessions) => replaceCachedClassSessionsForUser(uid, sessions)
+      ),
+
+    subscribeStatusEventsByUser: (uid, subscriber) =>
+      liveThrough<TaskStatusEvent[]>(
+        subscriber,
+        (s) => remote.subscribeStatusEventsByUser(uid, s),
+        async () => sortByChangedAt(await getCachedEventsByUser(uid)),
+        (events) => replaceCachedEventsForUser(uid, events)
+      ),
+
+    subscribeUserData: (uid, key, subscriber) =>
+      liveThrough<unknown>(
+        subscriber,
+        (s) => remote.subscribeUserData(uid, key, s),
+        () => getCachedUserData(uid, key),
+        (value) => putCachedUserData(uid, key, value)
+      ),
+
+    // user profile is only needed by the server, nothing to cache
+    createUserIfNotExists: async (uid, username, email) => {
+      if (!isOnline()) return;
+      try {
+        await remote.createUserIfNotExists(uid, username, email);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    },
+  };
+};
@@ -0,0 +1,49 @@
+// src/services/reschedule.ts
+import type { TaskItem } from "./firestore";
+
+/**
+ * Time windows of nested tasks: a subtask runs inside its parent's
+ * [start_time, end_time], so moving either side must keep that true.
+ * Nodes without both times have no window and constrain nothing.
+ */
+
+export interface TaskWindow {
+  start: Date;
+  end: Date;
+}
+
+const windowOf = (node: TaskItem | undefined): TaskWindow | null =>
+  node?.start_time && node.end_time
+    ? { start: node.start_time, end: node.end_time }
+    : null;
+
+const formatWindow = ({ start, end }: TaskWindow) =>
+  `${start.toLocaleString("en-GB", { dateStyle: "short", timeStyle: "short" })} – ` +
+  end.toLocaleString("en-GB", { dateStyle: "short", timeStyle: "short" });
+
+/**
+ * Returns an error message, or null when `taskId` may run in `next`:
+ * inside its parent's window and around the windows of its own subtasks.
+ */
+export const validateTaskWindow = (
+  nodes: TaskItem[],
+  taskId: string,
+  next: TaskWindow
+): string | null => {
+  const node = nodes.find((n) => n.id === taskId);
+  if (!node) return "Task does not exist";
+  if (next.end < next.start) return "End time must be after start time";
+
+  const parent = windowOf(nodes.find((n) => n.id === node.parent_id));
+  if (parent && (next.start < parent.start || next.end > parent.end)) {
+    return `A subtask must stay within its parent (${formatWindow(parent)})`;
+  }
+  const outside = nodes.find((child) => {
+    const window = child.parent_id === taskId ? windowOf(child) : null;
+    return window && (window.start < next.start || window.end > next.end);
+  });
+  if (outside) {
+    return `Subtask "${outside.task_name}" would fall outside the task`;
+  }
+  return null;
+};
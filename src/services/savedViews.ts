@@ -0,0 +1,131 @@
+// src/services/savedViews.ts
+import type { TaskItem } from "./firestore";
+import type { TaskStatus } from "./taskProgress";
+import { createUserStore } from "./userStore";
+
+/**
+ * Named task filters ("views") saved per user in the repository, shared by
+ * the HistoryPage filter bar and the TasksPage quick tabs.
+ */
+
+/** ---------- Filter ---------- */
+
+export interface ViewFilter {
+  /** matched against task name and details, case-insensitive */
+  query: string;
+  tagId: string | null;
+  level: number | null;
+  status: TaskStatus | null;
+  /** datetime-local values, "" = open ended */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_VIEW_FILTER: ViewFilter = {
+  query: "",
+  tagId: null,
+  level: null,
+  status: null,
+  from: "",
+  to: "",
+};
+
+export const sameViewFilter = (a: ViewFilter, b: ViewFilter) =>
+  (Object.keys(EMPTY_VIEW_FILTER) as (keyof ViewFilter)[]).every(
+    (key) => a[key] === b[key]
+  );
+
+export const isEmptyViewFilter = (filter: ViewFilter) =>
+  sameViewFilter(filter, EMPTY_VIEW_FILTER);
+
+/**
+ * `status` is the task's current status, `tagIds` the tags of the task and
+ * its subtasks (see collectTagIds) so a tag on a subtask finds its task.
+ */
+export const matchesViewFilter = (
+  task: TaskItem,
+  filter: ViewFilter,
+  status: TaskStatus,
+  tagIds: Set<string>
+) => {
+  const query = filter.query.trim().toLowerCase();
+  if (
+    query &&
+    !task.task_name.toLowerCase().includes(query) &&
+    !(task.task_detail ?? "").toLowerCase().includes(query)
+  ) {
+    return false;
+  }
+  if (filter.tagId && !tagIds.has(filter.tagId)) return false;
+  if (filter.level !== null && task.level !== filter.level) return false;
+  if (filter.status !== null && status !== filter.status) return false;
+  if (filter.from || filter.to) {
+    // overlap of the task's time span with the range
+    const taskStart = task.start_time?.getTime() || 0;
+    const taskEnd = task.end_time?.getTime() || 0;
+    const from = filter.from ? new Date(filter.from).getTime() : 0;
+    const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+    if (taskStart > to || taskEnd < from) return false;
+  }
+  return true;
+};
+
+/** ---------- Saved views ---------- */
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: ViewFilter;
+}
+
+const NO_VIEWS: SavedView[] = [];
+
+export const savedViewStore = createUserStore<SavedView[]>({
+  key: "saved_views",
+  fallback: NO_VIEWS,
+  // older entries may miss filter fields added later
+  parse: (raw) =>
+    (raw as SavedView[]).map((v) => ({
+      ...v,
+      filter: { ...EMPTY_VIEW_FILTER, ...v.filter },
+    })),
+  legacyStorageKey: "naver_ai_saved_views:",
+});
+
+/** save the filter under `name`, replacing a view with the same name */
+export const saveView = (
+  uid: string,
+  name: string,
+  filter: ViewFilter
+): SavedView => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("View name cannot be empty");
+  const sameName = (v: SavedView) =>
+    v.name.toLowerCase() === trimmed.toLowerCase();
+  const view: SavedView = {
+    id: savedViewStore.get(uid).find(sameName)?.id ?? Date.now().toString(36),
+    name: trimmed,
+    filter: { ...filter },
+  };
+  savedViewStore.update(uid, (views) =>
+    views.some(sameName)
+      ? views.map((v) => (sameName(v) ? view : v))
+      : [...views, view]
+  );
+  return view;
+};
+
+export const deleteView = (uid: string, viewId: string) =>
+  savedViewStore.update(uid, (views) => views.filter((v) => v.id !== viewId));
+
+/** drop a deleted tag from every saved view of the user */
+export const forgetTagInViews = (uid: string, tagId: string) =>
+  savedViewStore.update(uid, (views) =>
+    views.some((v) => v.filter.tagId === tagId)
+      ? views.map((v) =>
+          v.filter.tagId === tagId
+            ? { ...v, filter: { ...v.filter, tagId: null } }
+            : v
+        )
+      : views
+  );
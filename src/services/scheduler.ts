@@ -0,0 +1,215 @@
+// src/services/scheduler.ts
+import type { TaskItem, ClassSession, Course, Semester } from "./firestore";
+import { type TaskProgress, TaskStatus } from "./taskProgress";
+import {
+  type TimeSlot,
+  type WorkingHours,
+  DEFAULT_WORKING_HOURS,
+  expandClassSessions,
+  findFreeSlots,
+} from "./timetable";
+import { expandOccurrences } from "./recurrence";
+
+/**
+ * Auto-scheduler: books concrete blocks of work for tasks that only have a
+ * deadline, in the free time left by classes, timed tasks and blocks the
+ * user already accepted (see workPlan.ts). Earliest deadline goes first,
+ * the level breaks ties.
+ */
+
+/** ---------- Effort ---------- */
+
+/** minutes of work assumed for a task of each level */
+export const DEFAULT_EFFORT_MINUTES: Record<number, number> = {
+  1: 180,
+  2: 120,
+  3: 90,
+  4: 30,
+  5: 60,
+};
+
+/** effort still ahead: the estimate (else the level default) minus tracked time */
+export const effortMinutes = (task: TaskItem) =>
+  Math.max(
+    0,
+    (task.estimated_minutes ?? DEFAULT_EFFORT_MINUTES[task.level ?? 3] ?? 60) -
+      (task.actual_minutes ?? 0)
+  );
+
+/** ---------- Candidates ---------- */
+
+/** timed within one day (not 00:00–23:59), i.e. already a block of work */
+export const isTimeBlock = (
+  start: Date | null | undefined,
+  end: Date | null | undefined
+) =>
+  !!start &&
+  !!end &&
+  end > start &&
+  start.toDateString() === end.toDateString() &&
+  !(
+    start.getHours() === 0 &&
+    start.getMinutes() === 0 &&
+    end.getHours() === 23 &&
+    end.getMinutes() === 59
+  );
+
+const isOpen = (progress: Record<string, TaskProgress>, id: string) => {
+  const status = progress[id]?.task_status;
+  return status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED;
+};
+
+/**
+ * Open leaf nodes (work happens in subtasks when there are some) with a
+ * deadline ahead and no time block of their own. Repeating tasks are left
+ * out: each occurrence already has its time.
+ */
+export const unscheduledTasks = (
+  nodes: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  now: Date
+) => {
+  const parents = new Set(nodes.map((n) => n.parent_id).filter(Boolean));
+  return nodes.filter(
+    (n) =>
+      !parents.has(n.id) &&
+      !n.recurrence &&
+      isOpen(progress, n.id) &&
+      !!n.end_time &&
+      n.end_time > now &&
+      !isTimeBlock(n.start_time, n.end_time)
+  );
+};
+
+/** ---------- Placement ---------- */
+
+export interface SchedulerOptions {
+  now: Date;
+  /** the user's working hours (see workPlan.ts) */
+  hours?: WorkingHours;
+  /** longest sitting on one task */
+  maxBlockMinutes?: number;
+  /** shorter gaps are not worth a block (unless that is all that is left) */
+  minBlockMinutes?: number;
+  /** rest between two blocks of the same task */
+  breakMinutes?: number;
+}
+
+export interface ProposedBlock extends TimeSlot {
+  id: string;
+  task_id: string;
+}
+
+export interface ScheduleResult {
+  blocks: ProposedBlock[];
+  /** tasks whose effort does not fit before the deadline, minutes missing */
+  unplaced: { task: TaskItem; minutes: number }[];
+}
+
+const MINUTE = 60000;
+
+/** blocks start on the quarter hour */
+const roundUpToQuarter = (date: Date) => {
+  const quarter = 15 * MINUTE;
+  return new Date(Math.ceil(date.getTime() / quarter) * quarter);
+};
+
+/**
+ * Place the effort still missing for each task (`planned` = minutes it
+ * has booked from now on; past blocks are in actual_minutes once tracked)
+ * in the free time between now (or its start) and its deadline. `busy`
+ * never gets double-booked.
+ */
+export const proposeSchedule = (
+  tasks: TaskItem[],
+  busy: TimeSlot[],
+  planned: Record<string, number>,
+  {
+    now,
+    hours = DEFAULT_WORKING_HOURS,
+    maxBlockMinutes = 120,
+    minBlockMinutes = 30,
+    breakMinutes = 15,
+  }: SchedulerOptions
+): ScheduleResult => {
+  const ordered = [...tasks].sort(
+    (a, b) =>
+      a.end_time!.getTime() - b.end_time!.getTime() ||
+      (a.level ?? 3) - (b.level ?? 3)
+  );
+  const taken = [...busy];
+  const blocks: ProposedBlock[] = [];
+  const unplaced: ScheduleResult["unplaced"] = [];
+
+  for (const task of ordered) {
+    let remaining = effortMinutes(task) - (planned[task.id] ?? 0);
+    if (remaining <= 0) continue;
+    const deadline = task.end_time!;
+    // multi-day tasks are worked on inside their own window
+    const opens =
+      task.start_time && task.start_time < deadline && task.start_time > now
+        ? task.start_time
+        : now;
+    const free = findFreeSlots(taken, roundUpToQuarter(opens), deadline, hours);
+    for (const slot of free) {
+      let cursor = slot.start;
+      while (remaining > 0) {
+        const room = (slot.end.getTime() - cursor.getTime()) / MINUTE;
+        const minutes = Math.min(remaining, maxBlockMinutes, room);
+        if (minutes < Math.min(minBlockMinutes, remaining)) break;
+        const block = {
+          id: `plan_${task.id}_${cursor.getTime()}`,
+          task_id: task.id,
+          start: cursor,
+          end: new Date(cursor.getTime() + minutes * MINUTE),
+        };
+        blocks.push(block);
+        taken.push(block);
+        remaining -= minutes;
+        cursor = new Date(block.end.getTime() + breakMinutes * MINUTE);
+      }
+      if (remaining <= 0) break;
+    }
+    if (remaining > 0) unplaced.push({ task, minutes: Math.round(remaining) });
+  }
+  return { blocks, unplaced };
+};
+
+/**
+ * Everything the calendar knows is busy until `until`: classes, open
+ * timed tasks / subtasks (the open occurrences of repeating ones), and the
+ * blocks already accepted.
+ */
+export const collectBusySlots = (
+  source: {
+    nodes: TaskItem[];
+    progress: Record<string, TaskProgress>;
+    classSessions: ClassSession[];
+    courses: Course[];
+    semesters: Semester[];
+    planned: TimeSlot[];
+  },
+  from: Date,
+  until: Date
+): TimeSlot[] => [
+  ...expandClassSessions(
+    source.classSessions,
+    from,
+    until,
+    source.courses,
+    source.semesters
+  ),
+  ...source.nodes
+    .filter((n) => isOpen(source.progress, n.id))
+    .flatMap((n): TimeSlot[] =>
+      n.recurrence
+        ? expandOccurrences(n, from, until).filter((o) =>
+            isOpen(source.progress, o.id)
+          )
+        : n.start_time && n.end_time
+          ? [{ start: n.start_time, end: n.end_time }]
+          : []
+    )
+    .filter((slot) => isTimeBlock(slot.start, slot.end)),
+  ...source.planned,
+];
@@ -0,0 +1,89 @@
+// src/services/statusRollup.ts
+import { TaskStatus } from "./taskProgress";
+import { createUserStore } from "./userStore";
+
+/** ---------- Settings ---------- */
+
+export interface RollupSettings {
+  /** complete the parent once every (non-cancelled) subtask is completed */
+  autoCompleteParent: boolean;
+}
+
+const DEFAULT_SETTINGS: RollupSettings = { autoCompleteParent: true };
+
+/** saved per user in the repository (see userStore.ts) */
+export const rollupSettingsStore = createUserStore<RollupSettings>({
+  key: "rollup_settings",
+  fallback: DEFAULT_SETTINGS,
+  parse: (raw) => ({
+    ...DEFAULT_SETTINGS,
+    ...(raw as Partial<RollupSettings>),
+  }),
+});
+
+export const setRollupSettings = (
+  uid: string,
+  patch: Partial<RollupSettings>
+) => rollupSettingsStore.update(uid, (current) => ({ ...current, ...patch }));
+
+/** ---------- Rules ---------- */
+
+/** statuses that count as "work has started" on a subtask */
+const STARTED_STATUSES: TaskStatus[] = [
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.COMPLETED,
+  TaskStatus.BLOCKED,
+  TaskStatus.WAITING_ON_OTHERS,
+];
+
+/**
+ * Status the parent should move to after a subtask change, or null to
+ * leave it alone:
+ * - every active subtask completed => Completed (if auto-complete is on)
+ * - any subtask started (or completed) while the parent is Not Started
+ *   => In Progress, also when auto-complete is off
+ * - a subtask reopened under an auto-completed parent => In Progress
+ * Cancelled subtasks are ignored; a Cancelled / Blocked / Waiting parent
+ * is never changed (those are explicit user decisions).
+ */
+export const deriveParentStatus = (
+  parentStatus: TaskStatus,
+  childStatuses: TaskStatus[],
+  { autoCompleteParent }: RollupSettings
+): TaskStatus | null => {
+  if (
+    parentStatus === TaskStatus.CANCELLED ||
+    parentStatus === TaskStatus.BLOCKED ||
+    parentStatus === TaskStatus.WAITING_ON_OTHERS
+  ) {
+    return null;
+  }
+
+  const active = childStatuses.filter((s) => s !== TaskStatus.CANCELLED);
+  if (active.length === 0) return null;
+
+  const allCompleted = active.every((s) => s === TaskStatus.COMPLETED);
+  if (
+    allCompleted &&
+    autoCompleteParent &&
+    parentStatus !== TaskStatus.COMPLETED
+  ) {
+    return TaskStatus.COMPLETED;
+  }
+  // also with auto-complete off: finished subtasks still mean work started
+  if (
+    parentStatus === TaskStatus.NOT_STARTED &&
+    active.some((s) => STARTED_STATUSES.includes(s))
+  ) {
+    return TaskStatus.IN_PROGRESS;
+  }
+  if (allCompleted) return null;
+  if (parentStatus === TaskStatus.COMPLETED && autoCompleteParent) {
+    return TaskStatus.IN_PROGRESS;
+  }
+  return null;
+};
+
+/** subtasks still open, i.e. the ones a parent cancel can cascade to */
+export const isOpenStatus = (status: TaskStatus) =>
+  status !== TaskStatus.COMPLETED && status !== TaskStatus.CANCELLED;
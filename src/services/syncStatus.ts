@@ -0,0 +1,136 @@
+// src/services/syncStatus.ts
+import type {
+  SaveTaskInput,
+  ChildTaskInput,
+  ChildTaskUpdate,
+  SaveCourseInput,
+  SaveSemesterInput,
+  SaveTagInput,
+  SaveClassSessionInput,
+} from "./firestore";
+import type { TaskStatus, StatusChange } from "./taskProgress";
+
+/** Writes made while offline, replayed in order on reconnect */
+export type SyncOperation =
+  | { type: "saveTask"; uid: string; task: SaveTaskInput; localId?: string }
+  | { type: "deleteTask"; taskId: string }
+  | { type: "setTaskDependencies"; taskId: string; dependsOn: string[] }
+  | { type: "addTrackedMinutes"; taskId: string; minutes: number }
+  | {
+      type: "createChildTask";
+      uid: string;
+      parentId: string;
+      childTask: ChildTaskInput;
+      localId: string;
+    }
+  | { type: "updateChildTask"; childId: string; data: ChildTaskUpdate }
+  | { type: "deleteChildTask"; childId: string; parentId: string }
+  | {
+      type: "saveCourse";
+      uid: string;
+      course: SaveCourseInput;
+      localId?: string;
+    }
+  | { type: "deleteCourse"; uid: string; courseId: string }
+  | {
+      type: "saveSemester";
+      uid: string;
+      semester: SaveSemesterInput;
+      localId?: string;
+    }
+  | { type: "deleteSemester"; uid: string; semesterId: string }
+  | { type: "saveTag"; uid: string; tag: SaveTagInput; localId?: string }
+  | { type: "deleteTag"; uid: string; tagId: string }
+  | {
+      type: "saveClassSession";
+      uid: string;
+      session: SaveClassSessionInput;
+      localId?: string;
+    }
+  | { type: "deleteClassSession"; uid: string; sessionId: string }
+  | { type: "saveUserData"; uid: string; key: string; value: unknown }
+  | {
+      type: "updateTaskProgress";
+      taskId: string;
+      status: TaskStatus;
+      /** missing on entries queued before status events existed */
+      change?: StatusChange;
+    };
+
+export interface SyncQueueEntry {
+  seq?: number;
+  op: SyncOperation;
+  /** top-level task the write belongs to (the TaskList card to flag) */
+  ownerId: string;
+  status: "pending" | "failed";
+  error?: string;
+  createdAt: Date;
+}
+
+export type SyncState = "pending" | "failed";
+
+export interface TaskSyncInfo {
+  state: SyncState;
+  pending: number;
+  failed: number;
+  error?: string;
+}
+
+let snapshot: Record<string, TaskSyncInfo> = {};
+const listeners = new Set<() => void>();
+let retryHandler: (() => Promise<void>) | null = null;
+let discardHandler: ((ownerId: string) => Promise<void>) | null = null;
+
+/** Rebuild per-task sync info from the current queue and notify listeners */
+export const publishSyncQueue = (entries: SyncQueueEntry[]) => {
+  const next: Record<string, TaskSyncInfo> = {};
+  for (const entry of entries) {
+    const info = (next[entry.ownerId] ??= {
+      state: "pending",
+      pending: 0,
+      failed: 0,
+    });
+    if (entry.status === "failed") {
+      info.failed += 1;
+      info.state = "failed";
+      info.error = entry.error;
+    } else {
+      info.pending += 1;
+    }
+  }
+  snapshot = next;
+  listeners.forEach((l) => l());
+};
+
+/** taskId -> sync info, only tasks with queued writes are present */
+export const getSyncSnapshot = () => snapshot;
+
+export const getTaskSyncInfo = (taskId: string): TaskSyncInfo | undefined =>
+  snapshot[taskId];
+
+export const subscribeSyncStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setSyncRetryHandler = (handler: () => Promise<void>) => {
+  retryHandler = handler;
+};
+
+/** Re-queue failed writes and try to flush the queue now */
+export const retrySync = async () => {
+  await retryHandler?.();
+};
+
+export const setSyncDiscardHandler = (
+  handler: (ownerId: string) => Promise<void>
+) => {
+  discardHandler = handler;
+};
+
+/** Drop the failed writes of a task for good (and the ones held by them) */
+export const discardFailedSync = async (ownerId: string) => {
+  await discardHandler?.(ownerId);
+};
@@ -0,0 +1,73 @@
+// src/services/tags.ts
+import type { Tag, SaveTagInput, TaskItem } from "./firestore";
+
+/** ---------- Colors ---------- */
+
+export const TAG_COLORS = [
+  "#667eea",
+  "#f56565",
+  "#48bb78",
+  "#ed8936",
+  "#38b2ac",
+  "#d53f8c",
+  "#805ad5",
+  "#718096",
+];
+
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0];
+
+/** first palette color no tag uses yet */
+export const nextTagColor = (tags: Tag[]) =>
+  TAG_COLORS.find((c) => !tags.some((tag) => tag.color === c)) ??
+  TAG_COLORS[tags.length % TAG_COLORS.length];
+
+/** ---------- Names ---------- */
+
+/** "  #Group  project " -> "Group project" */
+export const normalizeTagName = (name: string) =>
+  name.trim().replace(/^#+/, "").replace(/\s+/g, " ").trim();
+
+export const findTagByName = (tags: Tag[], name: string) => {
+  const key = normalizeTagName(name).toLowerCase();
+  return tags.find((t) => t.name.toLowerCase() === key) ?? null;
+};
+
+/** Returns an error message, or null when the tag can be saved */
+export const validateTag = (
+  input: SaveTagInput,
+  tags: Tag[]
+): string | null => {
+  const name = normalizeTagName(input.name);
+  if (!name) return "Tag name cannot be empty";
+  const existing = findTagByName(tags, name);
+  if (existing && existing.id !== input.id) {
+    return `Tag "${existing.name}" already exists`;
+  }
+  return null;
+};
+
+/** autocomplete: names starting with `query` first, then containing it */
+export const suggestTags = (
+  tags: Tag[],
+  query: string,
+  excludeIds: string[] = [],
+  limit = 8
+): Tag[] => {
+  const key = normalizeTagName(query).toLowerCase();
+  const candidates = tags
+    .filter((t) => !excludeIds.includes(t.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const starts = candidates.filter((t) => t.name.toLowerCase().startsWith(key));
+  const contains = candidates.filter(
+    (t) =>
+      !t.name.toLowerCase().startsWith(key) &&
+      t.name.toLowerCase().includes(key)
+  );
+  return [...starts, ...contains].slice(0, limit);
+};
+
+/** ---------- Lookups ---------- */
+
+/** tag ids carried by any of `nodes` (e.g. a task and its subtasks) */
+export const collectTagIds = (nodes: TaskItem[]) =>
+  new Set(nodes.flatMap((n) => n.tags ?? []));
@@ -1,8 +1,6 @@
 import {
   type TaskItem,
   type TaskChild,
-  getTaskById,
-  getChildTasksByParentId,
   LEVEL_LABELS,
 } from "./firestore";
 import {
@@ -10,8 +8,9 @@ import {
   TaskStatus,
   TASK_STATUS_LABELS,
   TASK_STATUS_COLORS,
-  getTaskProgress,
-  getMultipleTaskProgress,
+  type TaskStatusEvent,
+  groupStatusEvents,
+  getStatusTimestamps,
 } from "./taskProgress";
 
 export interface AggregatedTaskProgress {
@@ -19,7 +18,12 @@ export interface AggregatedTaskProgress {
   statusLabel: string;
   statusColor: string;
   updatedAt: Date;
+  /** persisted started_at, else the status history */
+  startedAt?: Date;
+  /** persisted completed_at, else history, else updatedAt */
   completedAt?: Date;
+  cancelledAt?: Date;
+  history?: TaskStatusEvent[];
 }
 
 export interface AggregatedTask {
@@ -30,25 +34,32 @@ export interface AggregatedTask {
   startTime?: Date | null;
   endTime?: Date | null;
   userId: string;
+  /** set on top-level tasks only, subtasks follow their root */
+  courseId?: string | null;
 
   // Level info
   level?: number;
   levelLabel?: string;
 
+  // Effort info (minutes)
+  estimatedMinutes?: number | null;
+  actualMinutes?: number | null;
+
   // Progress info
   progress?: AggregatedTaskProgress;
 
-  // Child tasks
+  // Child tasks, each with its own nested children
   children?: AggregatedChildTask[];
   createdAt?: Date | null;
 }
 
-export interface AggregatedChildTask extends Omit<AggregatedTask, "children"> {
+export interface AggregatedChildTask extends AggregatedTask {
   parentId: string;
 }
 
 const mapTaskProgress = (
-  progress: TaskProgress | null
+  progress: TaskProgress | null,
+  history: TaskStatusEvent[] = []
 ): AggregatedTaskProgress | undefined => {
   if (!progress) return undefined;
 
@@ -58,13 +69,17 @@ const mapTaskProgress = (
       ? progress.updated_at
       : new Date(progress.updated_at);
 
-  // Handle completedAt
+  // Persisted timestamps first; history / updated_at only cover docs
+  // the progress-timestamps migration has not reached yet
+  const fromHistory = getStatusTimestamps(history);
+  const startedAt = progress.started_at ?? fromHistory.startedAt;
   let completedAt: Date | undefined = undefined;
   if (progress.task_status === TaskStatus.COMPLETED) {
-    completedAt =
-      progress.updated_at instanceof Date
-        ? progress.updated_at
-        : new Date(progress.updated_at);
+    completedAt = progress.completed_at ?? fromHistory.completedAt ?? updatedAt;
+  }
+  let cancelledAt: Date | undefined = undefined;
+  if (progress.task_status === TaskStatus.CANCELLED) {
+    cancelledAt = progress.cancelled_at ?? updatedAt;
   }
 
   return {
@@ -72,14 +87,18 @@ const mapTaskProgress = (
     statusLabel: TASK_STATUS_LABELS[progress.task_status],
     statusColor: TASK_STATUS_COLORS[progress.task_status],
     updatedAt,
+    startedAt,
     completedAt,
+    cancelledAt,
+    history,
   };
 };
 
 const mapToAggregatedTask = (
   task: TaskItem,
   progress?: TaskProgress | null,
-  children?: AggregatedChildTask[]
+  children?: AggregatedChildTask[],
+  history?: TaskStatusEvent[]
 ): AggregatedTask => {
   return {
     id: task.id,
@@ -88,9 +107,12 @@ const mapToAggregatedTask = (
     startTime: task.start_time,
     endTime: task.end_time,
     userId: task.user_id,
+    courseId: task.course_id ?? null,
     level: task.level,
     levelLabel: task.level ? LEVEL_LABELS[task.level] : undefined,
-    progress: progress ? mapTaskProgress(progress) : undefined,
+    estimatedMinutes: task.estimated_minutes ?? null,
+    actualMinutes: task.actual_minutes ?? null,
+    progress: progress ? mapTaskProgress(progress, history) : undefined,
     children,
     createdAt: task.createdAt,
   };
@@ -98,52 +120,73 @@ const mapToAggregatedTask = (
 
 const mapToAggregatedChildTask = (
   child: TaskChild,
-  progress?: TaskProgress | null
+  progress?: TaskProgress | null,
+  children?: AggregatedChildTask[],
+  history?: TaskStatusEvent[]
 ): AggregatedChildTask => {
   return {
-    id: child.id,
-    taskName: child.task_name,
-    taskDetail: child.task_detail,
-    startTime: child.start_time,
-    endTime: child.end_time,
-    userId: child.user_id,
-    level: child.level,
-    levelLabel: child.level ? LEVEL_LABELS[child.level] : undefined,
-    progress: progress ? mapTaskProgress(progress) : undefined,
+    ...mapToAggregatedTask(child, progress, children, history),
     parentId: child.parent_id,
-    createdAt: child.createdAt,
   };
 };
 
-export const getAggregatedTask = async (
-  taskId: string
-): Promise<AggregatedTask | null> => {
-  // Get main task
-  const task = await getTaskById(taskId);
-  if (!task) return null;
-
-  // Get task progress
-  const progress = await getTaskProgress(taskId);
-
-  // Get child tasks if any
-  let children: AggregatedChildTask[] = [];
-  if (task.task_child && task.task_child.length > 0) {
-    const childTasks = await getChildTasksByParentId(taskId);
-    const childProgressMap = await getMultipleTaskProgress(task.task_child);
-
-    children = childTasks.map((child) =>
-      mapToAggregatedChildTask(child, childProgressMap[child.id])
-    );
+/**
+ * Build aggregated tasks from data that is already loaded
+ * (e.g. the live task store) - no extra reads.
+ */
+export const buildAggregatedTasks = (
+  tasks: TaskItem[],
+  children: TaskChild[],
+  progress: Record<string, TaskProgress>,
+  events: TaskStatusEvent[] = []
+): AggregatedTask[] => {
+  const history = groupStatusEvents(events);
+  const childrenByParent: Record<string, TaskChild[]> = {};
+  for (const child of children) {
+    (childrenByParent[child.parent_id] ??= []).push(child);
   }
-
-  return mapToAggregatedTask(task, progress, children);
+  // `path` guards against a parent_id cycle in corrupted data
+  const buildChildren = (
+    parentId: string,
+    path: Set<string>
+  ): AggregatedChildTask[] =>
+    (childrenByParent[parentId] ?? [])
+      .filter((child) => !path.has(child.id))
+      .map((child) =>
+        mapToAggregatedChildTask(
+          child,
+          progress[child.id],
+          buildChildren(child.id, new Set(path).add(child.id)),
+          history[child.id]
+        )
+      );
+  return tasks.map((task) =>
+    mapToAggregatedTask(
+      task,
+      progress[task.id],
+      buildChildren(task.id, new Set([task.id])),
+      history[task.id]
+    )
+  );
 };
 
-export const getMultipleAggregatedTasks = async (
-  taskIds: string[]
-): Promise<AggregatedTask[]> => {
-  const tasks = await Promise.all(taskIds.map((id) => getAggregatedTask(id)));
-  return tasks.filter((t): t is AggregatedTask => t !== null);
+/**
+ * Weight of each child in its parent's progress: its estimate; children
+ * without one weigh the average estimate of their siblings (all equal when
+ * nobody estimated anything).
+ */
+const effortWeights = (children: AggregatedTask[]) => {
+  const estimates = children
+    .map((child) => child.estimatedMinutes)
+    .filter((m): m is number => typeof m === "number" && m > 0);
+  const fallback = estimates.length
+    ? estimates.reduce((sum, m) => sum + m, 0) / estimates.length
+    : 1;
+  return children.map((child) =>
+    child.estimatedMinutes && child.estimatedMinutes > 0
+      ? child.estimatedMinutes
+      : fallback
+  );
 };
 
 export const calculateTaskProgress = (task: AggregatedTask): number => {
@@ -156,12 +199,20 @@ export const calculateTaskProgress = (task: AggregatedTask): number => {
   if (!task.children || task.children.length === 0 || task.children === null) {
     return 0;
   } else {
-    // Calculate progress based on children only if parent is not completed
-    const totalChildren = task.children.length;
-    const completedChildren = task.children.filter(
-      (child) => child.progress?.status === TaskStatus.COMPLETED
-    ).length;
+    // Calculate progress based on children only if parent is not completed;
+    // cancelled subtasks no longer count towards the total, nested ones
+    // count with their own progress, weighted by their estimated effort
+    const activeChildren = task.children.filter(
+      (child) => child.progress?.status !== TaskStatus.CANCELLED
+    );
+    if (activeChildren.length === 0) return 0;
+    const weights = effortWeights(activeChildren);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const total = activeChildren.reduce(
+      (sum, child, i) => sum + calculateTaskProgress(child) * weights[i],
+      0
+    );
 
-    return Math.round((completedChildren / totalChildren) * 100);
+    return Math.round(total / totalWeight);
   }
 };
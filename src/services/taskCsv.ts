@@ -0,0 +1,237 @@
+// src/services/taskCsv.ts
+import {
+  type TaskItem,
+  type Course,
+  type Tag,
+  type SaveTaskInput,
+  LEVEL_LABELS,
+} from "./firestore";
+import {
+  type TaskProgress,
+  TaskStatus,
+  TASK_STATUS_LABELS,
+  requiresReason,
+} from "./taskProgress";
+import { normalizeTagName } from "./tags";
+
+/** ---------- Columns ---------- */
+
+export const TASK_CSV_FIELDS = [
+  "task_name",
+  "task_detail",
+  "start_time",
+  "end_time",
+  "level",
+  "status",
+  "course",
+  "tags",
+] as const;
+export type TaskCsvField = (typeof TASK_CSV_FIELDS)[number];
+
+export const TASK_CSV_FIELD_LABELS: Record<TaskCsvField, string> = {
+  task_name: "Name",
+  task_detail: "Detail",
+  start_time: "Start",
+  end_time: "End / due",
+  level: "Level",
+  status: "Status",
+  course: "Course",
+  tags: "Tags",
+};
+
+/** header names recognised per field, compared lower-case */
+const TASK_CSV_ALIASES: Record<TaskCsvField, string[]> = {
+  task_name: ["task_name", "name", "task", "title", "assignment"],
+  task_detail: ["task_detail", "detail", "description", "notes"],
+  start_time: ["start_time", "start", "from", "begin"],
+  end_time: ["end_time", "end", "due", "due date", "deadline"],
+  level: ["level", "priority"],
+  status: ["status", "state"],
+  course: ["course", "subject", "code"],
+  tags: ["tags", "tag", "labels"],
+};
+
+/** column index of each field in the file, -1 = not imported */
+export type TaskCsvMapping = Record<TaskCsvField, number>;
+
+export const guessTaskCsvMapping = (header: string[]): TaskCsvMapping => {
+  const names = header.map((h) => h.trim().toLowerCase());
+  return Object.fromEntries(
+    TASK_CSV_FIELDS.map((field) => [
+      field,
+      names.findIndex((n) => TASK_CSV_ALIASES[field].includes(n)),
+    ])
+  ) as TaskCsvMapping;
+};
+
+/** ---------- Export ---------- */
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** "2026-09-07 14:30", local time */
+const formatCsvDateTime = (d: Date | null | undefined) =>
+  d
+    ? `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+      `${pad(d.getHours())}:${pad(d.getMinutes())}`
+    : "";
+
+const escapeCsvCell = (value: string) =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** tags are joined with `;` inside their (quoted) cell */
+const TAG_SEPARATOR = ";";
+
+/** top-level tasks as CSV, readable back by parseTaskCsv */
+export const buildTaskCsv = (
+  tasks: TaskItem[],
+  progress: Record<string, TaskProgress>,
+  courses: Course[],
+  tags: Tag[]
+): string => {
+  const rows = tasks.map((task) => {
+    const course = courses.find((c) => c.id === task.course_id);
+    const values: Record<TaskCsvField, string> = {
+      task_name: task.task_name,
+      task_detail: task.task_detail ?? "",
+      start_time: formatCsvDateTime(task.start_time),
+      end_time: formatCsvDateTime(task.end_time),
+      level: String(task.level ?? ""),
+      status:
+        TASK_STATUS_LABELS[
+          progress[task.id]?.task_status ?? TaskStatus.NOT_STARTED
+        ],
+      course: course ? course.code || course.name : "",
+      tags: (task.tags ?? [])
+        .flatMap((id) => tags.find((t) => t.id === id)?.name ?? [])
+        .join(`${TAG_SEPARATOR} `),
+    };
+    return TASK_CSV_FIELDS.map((f) => escapeCsvCell(values[f])).join(",");
+  });
+  return [TASK_CSV_FIELDS.join(","), ...rows].join("\r\n") + "\r\n";
+};
+
+/** ---------- Import ---------- */
+
+/**
+ * "2026-09-07 14:30", "2026-09-07T14:30" or "07/09/2026 14:30" (day
+ * first); a date alone means the start or end of that day. null when
+ * empty, undefined when it cannot be read.
+ */
+const parseCsvDateTime = (
+  value: string,
+  endOfDay: boolean
+): Date | null | undefined => {
+  const text = value.trim();
+  if (!text) return null;
+  const iso = text.match(
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2})[:hH](\d{2})(?::\d{2})?)?$/
+  );
+  const dmy = text.match(
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (\d{1,2})[:hH](\d{2}))?$/
+  );
+  const [y, m, d, hours, minutes] = (
+    iso
+      ? [iso[1], iso[2], iso[3], iso[4], iso[5]]
+      : dmy
+        ? [dmy[3], dmy[2], dmy[1], dmy[4], dmy[5]]
+        : []
+  ).map((part) => (part === undefined ? undefined : Number(part)));
+  if (y === undefined || m === undefined || d === undefined) return undefined;
+  const date =
+    hours !== undefined
+      ? new Date(y, m - 1, d, hours, minutes)
+      : endOfDay
+        ? new Date(y, m - 1, d, 23, 59)
+        : new Date(y, m - 1, d);
+  if (date.getMonth() !== m - 1 || date.getDate() !== d) return undefined;
+  if (hours !== undefined && date.getHours() !== hours) return undefined;
+  return date;
+};
+
+/** 1…5 or a level label; empty = Normal */
+const parseLevel = (value: string): number | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return 3;
+  if (/^\d$/.test(text) && LEVEL_LABELS[Number(text)]) return Number(text);
+  const entry = Object.entries(LEVEL_LABELS).find(
+    ([, label]) => label.toLowerCase() === text
+  );
+  return entry ? Number(entry[0]) : null;
+};
+
+/** status number or label; empty = not set */
+const parseStatus = (value: string): TaskStatus | null | undefined => {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  return (Object.values(TaskStatus) as TaskStatus[]).find(
+    (status) =>
+      String(status) === text ||
+      TASK_STATUS_LABELS[status].toLowerCase() === text
+  );
+};
+
+export interface TaskCsvRow {
+  /** 1-based row in the file (the header is row 1), for error messages */
+  line: number;
+  task: Omit<SaveTaskInput, "id" | "course_id" | "tags">;
+  /** null = leave the new task Not Started */
+  status: TaskStatus | null;
+  /** course code or name as written in the file, "" = none */
+  course: string;
+  tags: string[];
+}
+
+/** rows that parsed, plus one message per rejected line */
+export const parseTaskCsv = (
+  table: string[][],
+  mapping: TaskCsvMapping
+): { rows: TaskCsvRow[]; errors: string[] } => {
+  if (mapping.task_name === -1) {
+    return { rows: [], errors: ["Pick the column holding the task name"] };
+  }
+  const rows: TaskCsvRow[] = [];
+  const errors: string[] = [];
+  for (const [i, cells] of table.slice(1).entries()) {
+    const line = i + 2;
+    const cell = (field: TaskCsvField) =>
+      mapping[field] === -1 ? "" : (cells[mapping[field]] ?? "").trim();
+    const name = cell("task_name");
+    const end = parseCsvDateTime(cell("end_time"), true);
+    const start = parseCsvDateTime(cell("start_time"), false);
+    const level = parseLevel(cell("level"));
+    const status = parseStatus(cell("status"));
+    let error: string | null = null;
+    if (!name) {
+      error = "name is empty";
+    } else if (start === undefined || end === undefined) {
+      error = "dates must be YYYY-MM-DD [HH:mm] or DD/MM/YYYY [HH:mm]";
+    } else if (start && end && end < start) {
+      error = "end is before start";
+    } else if (level === null) {
+      error = `unknown level "${cell("level")}"`;
+    } else if (status === undefined) {
+      error = `unknown status "${cell("status")}"`;
+    } else if (status !== null && requiresReason(status)) {
+      error = `"${TASK_STATUS_LABELS[status]}" needs a reason, set it in the app`;
+    }
+    if (error) {
+      errors.push(`Row ${line}: ${error}`);
+      continue;
+    }
+    rows.push({
+      line,
+      task: {
+        task_name: name,
+        task_detail: cell("task_detail"),
+        // a due date alone makes a deadline-only task
+        start_time: start ?? end ?? null,
+        end_time: end ?? start ?? null,
+        level: level!,
+      },
+      status: status ?? null,
+      course: cell("course"),
+      tags: cell("tags").split(/[;|]/).map(normalizeTagName).filter(Boolean),
+    });
+  }
+  return { rows, errors };
+};
@@ -1,13 +1,5 @@
-import { db } from "./firebase";
-import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
+import { auth } from "./auth";
+import { getRepository } from "./repository";
 
 /** Status enum */
 export const TaskStatus = {
@@ -15,6 +7,8 @@ export const TaskStatus = {
   IN_PROGRESS: 2,
   COMPLETED: 3,
   CANCELLED: 4,
+  BLOCKED: 5,
+  WAITING_ON_OTHERS: 6,
 } as const;
 export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus];
 
@@ -23,7 +17,8 @@ export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
   [TaskStatus.IN_PROGRESS]: "In Progress",
   [TaskStatus.COMPLETED]: "Completed",
   [TaskStatus.CANCELLED]: "Cancelled",
-
+  [TaskStatus.BLOCKED]: "Blocked",
+  [TaskStatus.WAITING_ON_OTHERS]: "Waiting on Others",
 };
 
 export const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
@@ -31,6 +26,75 @@ export const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
   [TaskStatus.IN_PROGRESS]: "#ffc107",
   [TaskStatus.COMPLETED]: "#28a745",
   [TaskStatus.CANCELLED]: "#dc3545",
+  [TaskStatus.BLOCKED]: "#e8590c",
+  [TaskStatus.WAITING_ON_OTHERS]: "#6f42c1",
+};
+
+/** ---------- Transitions ---------- */
+
+/**
+ * Allowed next statuses. Completed tasks are reopened (not reset) and
+ * cancelled ones restored to Not Started; staying on the same status is
+ * always allowed (e.g. to update the reason).
+ */
+export const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.NOT_STARTED]: [
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.COMPLETED,
+    TaskStatus.BLOCKED,
+    TaskStatus.WAITING_ON_OTHERS,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.IN_PROGRESS]: [
+    TaskStatus.COMPLETED,
+    TaskStatus.BLOCKED,
+    TaskStatus.WAITING_ON_OTHERS,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.BLOCKED]: [
+    TaskStatus.NOT_STARTED,
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.WAITING_ON_OTHERS,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.WAITING_ON_OTHERS]: [
+    TaskStatus.NOT_STARTED,
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.BLOCKED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.COMPLETED]: [TaskStatus.IN_PROGRESS],
+  [TaskStatus.CANCELLED]: [TaskStatus.NOT_STARTED],
+};
+
+/** statuses that can only be set together with a reason */
+export const STATUSES_REQUIRING_REASON: TaskStatus[] = [
+  TaskStatus.BLOCKED,
+  TaskStatus.WAITING_ON_OTHERS,
+];
+
+export const requiresReason = (status: TaskStatus) =>
+  STATUSES_REQUIRING_REASON.includes(status);
+
+export const getNextStatuses = (from: TaskStatus): TaskStatus[] =>
+  STATUS_TRANSITIONS[from] ?? [];
+
+export const canTransition = (from: TaskStatus, to: TaskStatus) =>
+  from === to || getNextStatuses(from).includes(to);
+
+/** error message, or null when the change is allowed */
+export const validateTransition = (
+  from: TaskStatus,
+  to: TaskStatus,
+  reason?: string | null
+): string | null => {
+  if (!canTransition(from, to)) {
+    return `Cannot change status from "${TASK_STATUS_LABELS[from]}" to "${TASK_STATUS_LABELS[to]}"`;
+  }
+  if (requiresReason(to) && !reason?.trim()) {
+    return `A reason is required for "${TASK_STATUS_LABELS[to]}"`;
+  }
+  return null;
 };
 
 /** Giống như start_time/end_time: luôn là Date */
@@ -38,64 +102,181 @@ export interface TaskProgress {
   task_id: string;
   task_status: TaskStatus;
   updated_at: Date;
+  /** why the task is Blocked / Waiting on Others */
+  status_reason?: string | null;
+  /**
+   * Lifecycle timestamps, kept across later edits (reason changes, re-saves).
+   * `undefined` = doc written before these existed (see migrations.ts).
+   */
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  cancelled_at?: Date | null;
+  /** set for one occurrence of a repeating task (task_id = occurrence id) */
+  series_id?: string | null;
 }
 
-/** --- Helper --- */
-const normalizeDate = (d: unknown): Date => {
-  if (!d && d !== 0) return new Date(); // fallback hiện tại
-  if (d instanceof Date) return d;
-  // Firestore Timestamp
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  if (typeof (d as any)?.toDate === "function") return (d as any).toDate();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const parsed = new Date(d as any);
-  return isNaN(parsed.getTime()) ? new Date() : parsed;
-};
+type ProgressTimestamps = Pick<
+  TaskProgress,
+  "started_at" | "completed_at" | "cancelled_at"
+>;
+
+/**
+ * One status change, appended to `task_status_events` next to every
+ * progress write. Never updated afterwards.
+ */
+export interface TaskStatusEvent {
+  id: string;
+  task_id: string;
+  /** who made the change */
+  user_id: string | null;
+  /** null for the first status a task ever gets */
+  from_status: TaskStatus | null;
+  to_status: TaskStatus;
+  changed_at: Date;
+  reason?: string | null;
+}
 
-/** --- CRUD --- */
+/** who/when of a status change, captured when the user acts (not on sync) */
+export interface StatusChange {
+  changed_by: string | null;
+  changed_at: Date;
+  reason?: string | null;
+}
+
+/** --- CRUD (delegates to the active TaskRepository) --- */
+/**
+ * Low-level write: only checks the reason. Prefer `setTaskStatus` from the
+ * task store, which also enforces STATUS_TRANSITIONS.
+ */
 export const updateTaskProgress = async (
   taskId: string,
-  status: TaskStatus
+  status: TaskStatus,
+  reason?: string | null
 ) => {
-  const progressRef = doc(db, "task_progress", taskId);
-  await setDoc(progressRef, {
-    task_id: taskId,
-    task_status: status,
-    updated_at: new Date(), // lưu thẳng Date
+  if (requiresReason(status) && !reason?.trim()) {
+    throw new Error(`A reason is required for "${TASK_STATUS_LABELS[status]}"`);
+  }
+  await getRepository().updateTaskProgress(taskId, status, {
+    changed_by: auth.currentUser?.uid ?? null,
+    changed_at: new Date(),
+    reason: requiresReason(status) ? reason!.trim() : null,
   });
 };
 
-export const getTaskProgress = async (
+/**
+ * Re-record a past status change with its own time and author, e.g. when
+ * restoring a backup. Skips the reason and transition checks.
+ */
+export const restoreStatusChange = (
+  taskId: string,
+  status: TaskStatus,
+  change: StatusChange
+) => getRepository().updateTaskProgress(taskId, status, change);
+
+export const getTaskProgress = (
   taskId: string
-): Promise<TaskProgress | null> => {
-  const progressRef = doc(db, "task_progress", taskId);
-  const snap = await getDoc(progressRef);
-  if (!snap.exists()) return null;
-  const data = snap.data();
+): Promise<TaskProgress | null> => getRepository().getTaskProgress(taskId);
+
+/** progress keyed by task id; any number of ids, `[]` resolves to `{}` */
+export const getMultipleTaskProgress = (
+  taskIds: string[]
+): Promise<Record<string, TaskProgress>> =>
+  getRepository().getMultipleTaskProgress(taskIds);
+
+/** status changes of a task, oldest first */
+export const getStatusHistory = (taskId: string): Promise<TaskStatusEvent[]> =>
+  getRepository().getStatusHistory(taskId);
+
+/** --- Helpers --- */
+
+/**
+ * Timestamps after a move to `status` at `at`:
+ * - started_at: set by the first move to In Progress, then never changed
+ * - completed_at / cancelled_at: set on entering that status, kept while it
+ *   stays there, cleared when the task is reopened / restored
+ */
+export const nextProgressTimestamps = (
+  previous: TaskProgress | null | undefined,
+  status: TaskStatus,
+  at: Date
+): Required<ProgressTimestamps> => {
+  const keepOrSet = (target: TaskStatus, current?: Date | null) =>
+    status !== target
+      ? null
+      : previous?.task_status === target
+        ? (current ?? at)
+        : at;
+
   return {
-    task_id: data.task_id,
-    task_status: data.task_status,
-    updated_at: normalizeDate(data.updated_at),
+    started_at:
+      previous?.started_at ?? (status === TaskStatus.IN_PROGRESS ? at : null),
+    completed_at: keepOrSet(TaskStatus.COMPLETED, previous?.completed_at),
+    cancelled_at: keepOrSet(TaskStatus.CANCELLED, previous?.cancelled_at),
   };
 };
 
-export const getMultipleTaskProgress = async (
-  taskIds: string[]
-): Promise<Record<string, TaskProgress>> => {
-  const q = query(
-    collection(db, "task_progress"),
-    where("task_id", "in", taskIds)
-  );
-  const querySnapshot = await getDocs(q);
-
-  const result: Record<string, TaskProgress> = {};
-  querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
-    result[data.task_id] = {
-      task_id: data.task_id,
-      task_status: data.task_status,
-      updated_at: normalizeDate(data.updated_at),
-    };
-  });
-  return result;
+/**
+ * One-off backfill for progress docs written before the timestamp fields:
+ * real times from the status history when there is one, otherwise
+ * `updated_at` for the current status. Null when nothing to migrate.
+ */
+export const backfillProgressTimestamps = (
+  progress: TaskProgress,
+  history: TaskStatusEvent[]
+): Required<ProgressTimestamps> | null => {
+  if (
+    progress.started_at !== undefined ||
+    progress.completed_at !== undefined ||
+    progress.cancelled_at !== undefined
+  ) {
+    return null;
+  }
+  const { startedAt, completedAt } = getStatusTimestamps(history);
+  const cancelled = [...history]
+    .reverse()
+    .find((e) => e.to_status === TaskStatus.CANCELLED);
+  const status = progress.task_status;
+
+  return {
+    started_at:
+      startedAt ??
+      (status === TaskStatus.IN_PROGRESS ? progress.updated_at : null),
+    completed_at:
+      status === TaskStatus.COMPLETED
+        ? (completedAt ?? progress.updated_at)
+        : null,
+    cancelled_at:
+      status === TaskStatus.CANCELLED
+        ? (cancelled?.changed_at ?? progress.updated_at)
+        : null,
+  };
+};
+
+/** events grouped by task id, each list sorted oldest first */
+export const groupStatusEvents = (
+  events: TaskStatusEvent[]
+): Record<string, TaskStatusEvent[]> => {
+  const grouped: Record<string, TaskStatusEvent[]> = {};
+  for (const event of events) {
+    (grouped[event.task_id] ??= []).push(event);
+  }
+  for (const list of Object.values(grouped)) {
+    list.sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime());
+  }
+  return grouped;
+};
+
+/**
+ * Real start/complete times from a task's history (sorted oldest first):
+ * started = first move to In Progress, completed = last move to Completed.
+ */
+export const getStatusTimestamps = (events: TaskStatusEvent[]) => {
+  const started = events.find((e) => e.to_status === TaskStatus.IN_PROGRESS);
+  const completed = [...events]
+    .reverse()
+    .find((e) => e.to_status === TaskStatus.COMPLETED);
+  return {
+    startedAt: started?.changed_at,
+    completedAt: completed?.changed_at,
+  };
 };
@@ -0,0 +1,1231 @@
+// src/services/taskStore.ts
+import { auth, subscribeAuth } from "./auth";
+import {
+  type TaskItem,
+  type TaskChild,
+  type SaveTaskInput,
+  type ChildTaskInput,
+  type Course,
+  type Semester,
+  type SaveCourseInput,
+  type SaveSemesterInput,
+  type Tag,
+  type SaveTagInput,
+  type ClassSession,
+  type SaveClassSessionInput,
+  type ChildTaskUpdate,
+  saveTaskWithLevel,
+  deleteTask,
+  createChildTask,
+  updateChildTask,
+  setTaskDependencies,
+  addTrackedMinutes,
+  saveCourse as persistCourse,
+  deleteCourse,
+  saveSemester as persistSemester,
+  deleteSemester,
+  saveTag as persistTag,
+  deleteTag,
+  saveClassSession as persistClassSession,
+  deleteClassSession,
+} from "./firestore";
+import {
+  type TaskProgress,
+  type TaskStatusEvent,
+  TaskStatus,
+  updateTaskProgress,
+  restoreStatusChange,
+  validateTransition,
+  nextProgressTimestamps,
+  canTransition,
+} from "./taskProgress";
+import {
+  deriveParentStatus,
+  isOpenStatus,
+  rollupSettingsStore,
+} from "./statusRollup";
+import {
+  type ScheduleEntry,
+  computeSchedule,
+  getUnmetDependencies,
+  validateDependencies,
+} from "./dependencies";
+import { type AggregatedTask, buildAggregatedTasks } from "./task";
+import { findSemesterAt, nextCourseColor } from "./courses";
+import { type TimetableRow, findCourseByLabel } from "./timetable";
+import { type TaskCsvRow } from "./taskCsv";
+import { type BackupData } from "./backup";
+import { findTagByName, nextTagColor } from "./tags";
+import { type TaskWindow, validateTaskWindow } from "./reschedule";
+import {
+  endSession,
+  pauseTracking,
+  timeTrackingStore,
+  untrackedMs,
+} from "./timeTracking";
+import { occurrenceId, parseOccurrenceId } from "./recurrence";
+import { getRepository, type Unsubscribe } from "./repository";
+import { runPendingMigrations } from "./migrations";
+
+/**
+ * App-wide task state fed by live repository subscriptions.
+ * Every page reads from here, so a change made in one tab/device
+ * (or by another page) shows up everywhere without a reload, and
+ * navigating between routes reuses the data instead of re-downloading it.
+ */
+export interface TaskStoreState {
+  uid: string | null;
+  status: "idle" | "loading" | "ready" | "error";
+  error?: string;
+  /** top-level tasks */
+  tasks: TaskItem[];
+  /** every nested subtask, at any depth */
+  children: TaskChild[];
+  /** taskId -> progress, for tasks, subtasks and recurring occurrences */
+  progress: Record<string, TaskProgress>;
+  /** status history of the user's tasks, oldest first */
+  events: TaskStatusEvent[];
+  courses: Course[];
+  semesters: Semester[];
+  tags: Tag[];
+  /** weekly class timetable */
+  classSessions: ClassSession[];
+}
+
+const initialState: TaskStoreState = {
+  uid: null,
+  status: "idle",
+  tasks: [],
+  children: [],
+  progress: {},
+  events: [],
+  courses: [],
+  semesters: [],
+  tags: [],
+  classSessions: [],
+};
+
+let state: TaskStoreState = initialState;
+const listeners = new Set<() => void>();
+
+const setState = (patch: Partial<TaskStoreState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+};
+
+export const getTaskStoreState = () => state;
+
+export const subscribeTaskStore = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** ---------- Placeholders ---------- */
+
+/** lists that optimistic creates add a placeholder to */
+type ListKey =
+  "tasks" | "children" | "courses" | "semesters" | "tags" | "classSessions";
+
+const TEMP_ID_PREFIX = "pending_";
+
+let tempIdSeq = 0;
+
+const createTempId = () =>
+  `${TEMP_ID_PREFIX}${Date.now().toString(36)}_${(tempIdSeq += 1).toString(36)}`;
+
+/**
+ * temp id -> server id (null while the create is in flight), per list.
+ * A placeholder stays until the stream delivers the real doc, so the item
+ * doesn't blink out between the write resolving and the next snapshot.
+ */
+const placeholders: Record<ListKey, Map<string, string | null>> = {
+  tasks: new Map(),
+  children: new Map(),
+  courses: new Map(),
+  semesters: new Map(),
+  tags: new Map(),
+  classSessions: new Map(),
+};
+
+const clearPlaceholders = () =>
+  Object.values(placeholders).forEach((m) => m.clear());
+
+/** a fresh list from the stream, plus the placeholders still waiting */
+const withPlaceholders = <K extends ListKey>(
+  key: K,
+  fresh: TaskStoreState[K]
+): TaskStoreState[K] => {
+  const pending = placeholders[key];
+  if (pending.size === 0) return fresh;
+  const arrived = new Set(fresh.map((item) => item.id));
+  for (const [tempId, realId] of pending) {
+    if (realId && arrived.has(realId)) pending.delete(tempId);
+  }
+  const waiting = (state[key] as { id: string }[]).filter((item) =>
+    pending.has(item.id)
+  );
+  return [...fresh, ...waiting] as TaskStoreState[K];
+};
+
+const dropPlaceholder = (key: ListKey, tempId: string) => {
+  placeholders[key].delete(tempId);
+  setState({
+    [key]: (state[key] as { id: string }[]).filter(
+      (item) => item.id !== tempId
+    ),
+  });
+};
+
+/** the create resolved: drop the placeholder once the real doc is listed */
+const settlePlaceholder = (key: ListKey, tempId: string, realId: string) => {
+  if ((state[key] as { id: string }[]).some((item) => item.id === realId)) {
+    dropPlaceholder(key, tempId);
+  } else {
+    placeholders[key].set(tempId, realId);
+  }
+};
+
+/** ---------- Live subscriptions ---------- */
+
+let stopUserStreams: Unsubscribe | null = null;
+
+const streamUser = (uid: string): Unsubscribe => {
+  const repository = getRepository();
+  let received = false;
+  let progressIdsKey = "";
+  let stopProgress: Unsubscribe = () => {};
+  let seriesIdsKey = "";
+  let stopOccurrences: Unsubscribe = () => {};
+  // both progress streams end up in the single `progress` map
+  let taskProgress: Record<string, TaskProgress> = {};
+  let occurrenceProgress: Record<string, TaskProgress> = {};
+  const publishProgress = (patch: Partial<TaskStoreState> = {}) =>
+    setState({
+      progress: { ...occurrenceProgress, ...taskProgress },
+      ...patch,
+    });
+
+  const fail = (err: Error) => {
+    console.error("[taskStore] subscription error:", err);
+    setState({ status: "error", error: err.message });
+  };
+
+  // progress listeners follow the current set of task + subtask ids
+  const syncProgressStream = () => {
+    if (!received) return;
+    const ids = [...state.tasks, ...state.children]
+      .map((t) => t.id)
+      .filter((id) => !id.startsWith(TEMP_ID_PREFIX))
+      .sort();
+    const key = ids.join(",");
+    if (key === progressIdsKey) return;
+    progressIdsKey = key;
+    stopProgress();
+    stopProgress = repository.subscribeTaskProgress(ids, {
+      next: (progress) => {
+        taskProgress = progress;
+        publishProgress({ status: "ready" });
+      },
+      error: fail,
+    });
+  };
+
+  // occurrence progress follows the set of repeating tasks
+  const syncOccurrenceStream = () => {
+    const ids = state.tasks
+      .filter((t) => t.recurrence)
+      .map((t) => t.id)
+      .sort();
+    const key = ids.join(",");
+    if (key === seriesIdsKey) return;
+    seriesIdsKey = key;
+    stopOccurrences();
+    stopOccurrences = repository.subscribeOccurrenceProgress(ids, {
+      next: (progress) => {
+        occurrenceProgress = progress;
+        publishProgress();
+      },
+      error: fail,
+    });
+  };
+
+  // one stream carries every node; split it into roots and subtasks
+  const stopTasks = repository.subscribeTasksByUser(uid, {
+    next: (nodes) => {
+      received = true;
+      setState({
+        tasks: withPlaceholders(
+          "tasks",
+          nodes.filter((t) => !t.parent_id)
+        ),
+        children: withPlaceholders(
+          "children",
+          nodes.filter((t): t is TaskChild => !!t.parent_id)
+        ),
+      });
+      syncProgressStream();
+      syncOccurrenceStream();
+    },
+    error: fail,
+  });
+
+  const stopEvents = repository.subscribeStatusEventsByUser(uid, {
+    next: (events) => setState({ events }),
+    // history is secondary: keep the rest of the store usable
+    error: (err) => console.error("[taskStore] status events error:", err),
+  });
+
+  const stopCourses = repository.subscribeCoursesByUser(uid, {
+    next: (courses) =>
+      setState({ courses: withPlaceholders("courses", courses) }),
+    error: (err) => console.error("[taskStore] courses error:", err),
+  });
+
+  const stopSemesters = repository.subscribeSemestersByUser(uid, {
+    next: (semesters) =>
+      setState({ semesters: withPlaceholders("semesters", semesters) }),
+    error: (err) => console.error("[taskStore] semesters error:", err),
+  });
+
+  const stopTags = repository.subscribeTagsByUser(uid, {
+    next: (tags) => setState({ tags: withPlaceholders("tags", tags) }),
+    error: (err) => console.error("[taskStore] tags error:", err),
+  });
+
+  const stopClassSessions = repository.subscribeClassSessionsByUser(uid, {
+    next: (classSessions) =>
+      setState({
+        classSessions: withPlaceholders("classSessions", classSessions),
+      }),
+    error: (err) => console.error("[taskStore] timetable error:", err),
+  });
+
+  // rollupParent reads the settings on any page, not only where they're shown
+  const stopRollupSettings = rollupSettingsStore.subscribe(uid, () => {});
+
+  return () => {
+    stopTasks();
+    stopProgress();
+    stopOccurrences();
+    stopEvents();
+    stopCourses();
+    stopSemesters();
+    stopTags();
+    stopClassSessions();
+    stopRollupSettings();
+  };
+};
+
+const switchUser = (uid: string | null) => {
+  if (uid === state.uid && state.status !== "idle") return;
+  stopUserStreams?.();
+  stopUserStreams = null;
+  clearPlaceholders();
+  setState({ ...initialState, uid, status: uid ? "loading" : "idle" });
+  if (uid) {
+    stopUserStreams = streamUser(uid);
+    // results arrive through the live subscriptions
+    void runPendingMigrations(uid);
+  }
+};
+
+let connected = false;
+
+/** Start following the signed-in user's data (idempotent) */
+export const connectTaskStore = () => {
+  if (connected) return;
+  connected = true;
+  switchUser(auth.currentUser?.uid ?? null);
+  subscribeAuth((user) => switchUser(user?.uid ?? null));
+};
+
+/**
+ * Drop the current data and re-open the subscriptions, e.g. after a bulk
+ * migration/import or when a subscription ended with an error.
+ */
+export const invalidateTaskStore = () => {
+  const { uid } = state;
+  stopUserStreams?.();
+  stopUserStreams = null;
+  clearPlaceholders();
+  setState({ ...initialState, uid, status: uid ? "loading" : "idle" });
+  if (uid) stopUserStreams = streamUser(uid);
+};
+
+/** ---------- Selectors ---------- */
+
+export const selectTasks = (s: TaskStoreState) => s.tasks;
+
+export const selectChildren = (s: TaskStoreState) => s.children;
+
+export const selectProgress = (s: TaskStoreState) => s.progress;
+
+export const selectIsLoading = (s: TaskStoreState) => s.status === "loading";
+
+/** tasks and their progress have both arrived */
+export const selectIsReady = (s: TaskStoreState) => s.status === "ready";
+
+export const selectUid = (s: TaskStoreState) => s.uid;
+
+export const selectStatusOf = (s: TaskStoreState, taskId: string) =>
+  s.progress[taskId]?.task_status;
+
+export const selectChildrenOf = (s: TaskStoreState, parentId: string) =>
+  s.children.filter((c) => c.parent_id === parentId);
+
+/** open subtasks a cancel of `taskId` would cascade to */
+export const selectOpenChildrenOf = (s: TaskStoreState, taskId: string) =>
+  selectChildrenOf(s, taskId).filter((c) =>
+    isOpenStatus(s.progress[c.id]?.task_status ?? TaskStatus.NOT_STARTED)
+  );
+
+export const selectEvents = (s: TaskStoreState) => s.events;
+
+export const selectCourses = (s: TaskStoreState) => s.courses;
+
+export const selectSemesters = (s: TaskStoreState) => s.semesters;
+
+export const selectTags = (s: TaskStoreState) => s.tags;
+
+export const selectClassSessions = (s: TaskStoreState) => s.classSessions;
+
+let nodesCache: {
+  tasks: TaskItem[];
+  children: TaskChild[];
+  value: TaskItem[];
+} | null = null;
+
+/** tasks and subtasks in one list, e.g. for dependency pickers */
+export const selectAllNodes = (s: TaskStoreState): TaskItem[] => {
+  if (
+    !nodesCache ||
+    nodesCache.tasks !== s.tasks ||
+    nodesCache.children !== s.children
+  ) {
+    nodesCache = {
+      tasks: s.tasks,
+      children: s.children,
+      value: [...s.tasks, ...s.children],
+    };
+  }
+  return nodesCache.value;
+};
+
+let scheduleCache: {
+  nodes: TaskItem[];
+  progress: Record<string, TaskProgress>;
+  value: Record<string, ScheduleEntry>;
+} | null = null;
+
+/** projected finish of every node (see dependencies.ts) */
+export const selectSchedule = (
+  s: TaskStoreState
+): Record<string, ScheduleEntry> => {
+  const nodes = selectAllNodes(s);
+  if (
+    !scheduleCache ||
+    scheduleCache.nodes !== nodes ||
+    scheduleCache.progress !== s.progress
+  ) {
+    scheduleCache = {
+      nodes,
+      progress: s.progress,
+      value: computeSchedule(nodes, s.progress),
+    };
+  }
+  return scheduleCache.value;
+};
+
+/** why `taskId` cannot move to `status` yet, null when its dependencies allow it */
+export const dependencyError = (
+  s: TaskStoreState,
+  taskId: string,
+  status: TaskStatus
+): string | null => {
+  if (status !== TaskStatus.IN_PROGRESS && status !== TaskStatus.COMPLETED) {
+    return null;
+  }
+  const unmet = getUnmetDependencies(selectAllNodes(s), s.progress, taskId);
+  if (unmet.length === 0) return null;
+  return `Blocked by ${unmet.map((t) => `"${t.task_name}"`).join(", ")}`;
+};
+
+let aggregatedCache: {
+  tasks: TaskItem[];
+  children: TaskChild[];
+  progress: Record<string, TaskProgress>;
+  events: TaskStatusEvent[];
+  value: AggregatedTask[];
+} | null = null;
+
+/** AggregatedTask view of the store, rebuilt only when its inputs change */
+export const selectAggregatedTasks = (s: TaskStoreState): AggregatedTask[] => {
+  if (
+    !aggregatedCache ||
+    aggregatedCache.tasks !== s.tasks ||
+    aggregatedCache.children !== s.children ||
+    aggregatedCache.progress !== s.progress ||
+    aggregatedCache.events !== s.events
+  ) {
+    aggregatedCache = {
+      tasks: s.tasks,
+      children: s.children,
+      progress: s.progress,
+      events: s.events,
+      value: buildAggregatedTasks(s.tasks, s.children, s.progress, s.events),
+    };
+  }
+  return aggregatedCache.value;
+};
+
+/** ---------- Optimistic mutations ---------- */
+
+/**
+ * Apply a local change right away, then persist it. The live subscription
+ * reconciles with the server afterwards; on failure the change is undone
+ * and the error re-thrown for the caller to report.
+ */
+const optimistic = async <T>(
+  apply: () => () => void,
+  commit: () => Promise<T>
+): Promise<T> => {
+  const rollback = apply();
+  try {
+    return await commit();
+  } catch (err) {
+    rollback();
+    throw err;
+  }
+};
+
+const statusOf = (taskId: string) =>
+  state.progress[taskId]?.task_status ?? TaskStatus.NOT_STARTED;
+
+/** after a subtask change, move its parent as statusRollup.ts says */
+const rollupParent = async (childId: string) => {
+  const parentId = state.children.find((c) => c.id === childId)?.parent_id;
+  if (!parentId) return;
+  const current = statusOf(parentId);
+  const next = deriveParentStatus(
+    current,
+    selectChildrenOf(state, parentId).map((c) => statusOf(c.id)),
+    rollupSettingsStore.get(state.uid)
+  );
+  if (next === null || !canTransition(current, next)) return;
+  try {
+    await setTaskStatus(parentId, next);
+  } catch (err) {
+    // the subtask change itself succeeded; the parent can be fixed by hand
+    console.error("[taskStore] parent rollup failed:", err);
+  }
+};
+
+/** rejects transitions not allowed by STATUS_TRANSITIONS (see taskProgress.ts) */
+export const setTaskStatus = async (
+  taskId: string,
+  status: TaskStatus,
+  reason?: string | null
+) => {
+  const error =
+    validateTransition(statusOf(taskId), status, reason) ??
+    dependencyError(state, taskId, status);
+  if (error) throw new Error(error);
+
+  await optimistic(
+    () => {
+      const previous = state.progress[taskId];
+      const now = new Date();
+      setState({
+        progress: {
+          ...state.progress,
+          [taskId]: {
+            task_id: taskId,
+            task_status: status,
+            updated_at: now,
+            status_reason: reason?.trim() || null,
+            ...nextProgressTimestamps(previous, status, now),
+          },
+        },
+      });
+      return () => {
+        const progress = { ...state.progress };
+        if (previous) progress[taskId] = previous;
+        else delete progress[taskId];
+        setState({ progress });
+      };
+    },
+    () => updateTaskProgress(taskId, status, reason)
+  );
+  await rollupParent(taskId);
+};
+
+/** cancel a task, optionally together with its open subtasks (any depth) */
+export const cancelTask = async (
+  taskId: string,
+  cascade: boolean
+): Promise<void> => {
+  await setTaskStatus(taskId, TaskStatus.CANCELLED);
+  if (!cascade) return;
+  const children = selectOpenChildrenOf(state, taskId).filter((c) =>
+    canTransition(statusOf(c.id), TaskStatus.CANCELLED)
+  );
+  await Promise.all(children.map((c) => cancelTask(c.id, true)));
+};
+
+export const saveTask = (uid: string, input: SaveTaskInput) => {
+  const tempId = input.id ?? createTempId();
+  const draft: TaskItem = {
+    id: tempId,
+    task_name: input.task_name,
+    task_detail: input.task_detail ?? "",
+    start_time: input.start_time ?? null,
+    end_time: input.end_time ?? null,
+    level: input.level,
+    parent_id: null,
+    recurrence: input.recurrence ?? null,
+    course_id: input.course_id ?? null,
+    tags: input.tags ?? [],
+    ics_uid: input.ics_uid ?? null,
+    estimated_minutes: input.estimated_minutes ?? null,
+    reminders: input.reminders ?? null,
+    user_id: uid,
+    createdAt: new Date(),
+  };
+
+  return optimistic(
+    () => {
+      const previous = state.tasks.find((t) => t.id === tempId);
+      if (!input.id) placeholders.tasks.set(tempId, null);
+      setState({
+        tasks: previous
+          ? state.tasks.map((t) =>
+              t.id === tempId ? { ...t, ...draft, createdAt: t.createdAt } : t
+            )
+          : [...state.tasks, draft],
+      });
+      return () => {
+        if (!previous) return dropPlaceholder("tasks", tempId);
+        setState({
+          tasks: state.tasks.map((t) => (t.id === tempId ? previous : t)),
+        });
+      };
+    },
+    async () => {
+      const id = await saveTaskWithLevel(uid, input);
+      if (!input.id) settlePlaceholder("tasks", tempId, id);
+      return id;
+    }
+  );
+};
+
+export const removeTask = (taskId: string) =>
+  optimistic(
+    () => {
+      const { tasks, children } = state;
+      const removed = new Set(
+        collectDescendants(children, taskId).map((c) => c.id)
+      );
+      setState({
+        tasks: tasks.filter((t) => t.id !== taskId),
+        children: children.filter((c) => !removed.has(c.id)),
+      });
+      return () => setState({ tasks, children });
+    },
+    () => deleteTask(taskId)
+  );
+
+export const addChildTask = (
+  uid: string,
+  parentId: string,
+  input: ChildTaskInput
+) => {
+  const tempId = createTempId();
+  return optimistic(
+    () => {
+      placeholders.children.set(tempId, null);
+      setState({
+        children: [
+          ...state.children,
+          {
+            id: tempId,
+            task_name: input.task_name,
+            task_detail: input.task_detail ?? "",
+            start_time: input.start_time ?? null,
+            end_time: input.end_time ?? null,
+            level: input.level,
+            tags: input.tags ?? [],
+            estimated_minutes: input.estimated_minutes ?? null,
+            parent_id: parentId,
+            user_id: uid,
+            createdAt: new Date(),
+          },
+        ],
+      });
+      return () => dropPlaceholder("children", tempId);
+    },
+    async () => {
+      const id = await createChildTask(uid, parentId, input);
+      settlePlaceholder("children", tempId, id);
+      return id;
+    }
+  );
+};
+
+/** edit a subtask's own fields (name, detail, dates, level, tags) */
+export const updateChild = (childId: string, data: ChildTaskUpdate) =>
+  optimistic(
+    () => {
+      const { children } = state;
+      setState({
+        children: children.map((c) =>
+          c.id === childId ? { ...c, ...data } : c
+        ),
+      });
+      return () => setState({ children });
+    },
+    () => updateChildTask(childId, data)
+  );
+
+/** replace the blocked-by links of a task or subtask, rejecting cycles */
+export const setDependencies = (taskId: string, dependsOn: string[]) => {
+  const error = validateDependencies(selectAllNodes(state), taskId, dependsOn);
+  if (error) return Promise.reject(new Error(error));
+
+  return optimistic(
+    () => {
+      const { tasks, children } = state;
+      const relink = <T extends TaskItem>(list: T[]) =>
+        list.map((t) =>
+          t.id === taskId ? { ...t, depends_on: [...dependsOn] } : t
+        );
+      setState({ tasks: relink(tasks), children: relink(children) });
+      return () => setState({ tasks, children });
+    },
+    () => setTaskDependencies(taskId, dependsOn)
+  );
+};
+
+/** add minutes worked on a task or subtask (timer sessions) */
+export const trackTime = (taskId: string, minutes: number) => {
+  if (!(minutes > 0)) return Promise.resolve();
+  return optimistic(
+    () => {
+      const { tasks, children } = state;
+      const add = <T extends TaskItem>(list: T[]) =>
+        list.map((t) =>
+          t.id === taskId
+            ? { ...t, actual_minutes: (t.actual_minutes ?? 0) + minutes }
+            : t
+        );
+      setState({ tasks: add(tasks), children: add(children) });
+      return () => setState({ tasks, children });
+    },
+    () => addTrackedMinutes(taskId, minutes)
+  );
+};
+
+/**
+ * Stop the timer session of a task (see timeTracking.ts) and add its whole
+ * minutes to the task, the rest is carried; if that fails the session
+ * stays, paused. Returns the minutes added.
+ */
+export const stopTracking = async (uid: string, taskId: string) => {
+  const now = new Date();
+  if (!pauseTracking(uid, taskId, now)) return 0;
+  const ms = untrackedMs(timeTrackingStore.get(uid), taskId, now);
+  const minutes = Math.floor(ms / 60000);
+  await trackTime(taskId, minutes);
+  endSession(uid, taskId, ms - minutes * 60000);
+  return minutes;
+};
+
+/**
+ * Move / resize a task or subtask (e.g. dragged on the calendar); rejects
+ * windows that leave a subtask outside its parent (see reschedule.ts).
+ */
+export const rescheduleTask = (
+  uid: string,
+  taskId: string,
+  next: TaskWindow
+) => {
+  const error = validateTaskWindow(selectAllNodes(state), taskId, next);
+  if (error) return Promise.reject(new Error(error));
+
+  const task = state.tasks.find((t) => t.id === taskId);
+  if (!task) {
+    return updateChild(taskId, { start_time: next.start, end_time: next.end });
+  }
+  return saveTask(uid, {
+    id: task.id,
+    task_name: task.task_name,
+    task_detail: task.task_detail,
+    start_time: next.start,
+    end_time: next.end,
+    level: task.level ?? 3,
+    recurrence: task.recurrence ?? null,
+    course_id: task.course_id ?? null,
+    tags: task.tags ?? [],
+    ics_uid: task.ics_uid ?? null,
+    estimated_minutes: task.estimated_minutes ?? null,
+    reminders: task.reminders ?? null,
+  });
+};
+
+/** replace (or append) `item` in a list by id */
+const upsertById = <T extends { id: string }>(list: T[], item: T) =>
+  list.some((x) => x.id === item.id)
+    ? list.map((x) => (x.id === item.id ? { ...x, ...item } : x))
+    : [...list, item];
+
+export const saveCourse = (uid: string, input: SaveCourseInput) => {
+  const tempId = input.id ?? createTempId();
+  return optimistic(
+    () => {
+      const { courses } = state;
+      if (!input.id) placeholders.courses.set(tempId, null);
+      setState({
+        courses: upsertById(courses, {
+          id: tempId,
+          user_id: uid,
+          name: input.name,
+          code: input.code,
+          credits: input.credits ?? null,
+          color: input.color,
+          instructor: input.instructor ?? "",
+          semester_id: input.semester_id ?? null,
+        }),
+      });
+      return () => {
+        placeholders.courses.delete(tempId);
+        setState({ courses });
+      };
+    },
+    async () => {
+      const id = await persistCourse(uid, input);
+      if (!input.id) settlePlaceholder("courses", tempId, id);
+      return id;
+    }
+  );
+};
+
+/** delete a course, its tasks stay but lose the course */
+export const removeCourse = (uid: string, courseId: string) =>
+  optimistic(
+    () => {
+      const { courses, tasks } = state;
+      setState({
+        courses: courses.filter((c) => c.id !== courseId),
+        tasks: tasks.map((t) =>
+          t.course_id === courseId ? { ...t, course_id: null } : t
+        ),
+      });
+      return () => setState({ courses, tasks });
+    },
+    () => deleteCourse(uid, courseId)
+  );
+
+export const saveSemester = (uid: string, input: SaveSemesterInput) => {
+  const tempId = input.id ?? createTempId();
+  return optimistic(
+    () => {
+      const { semesters } = state;
+      if (!input.id) placeholders.semesters.set(tempId, null);
+      setState({
+        semesters: upsertById(semesters, {
+          id: tempId,
+          user_id: uid,
+          name: input.name,
+          start_date: input.start_date ?? null,
+          end_date: input.end_date ?? null,
+        }),
+      });
+      return () => {
+        placeholders.semesters.delete(tempId);
+        setState({ semesters });
+      };
+    },
+    async () => {
+      const id = await persistSemester(uid, input);
+      if (!input.id) settlePlaceholder("semesters", tempId, id);
+      return id;
+    }
+  );
+};
+
+/** delete a semester, its courses stay without one */
+export const removeSemester = (uid: string, semesterId: string) =>
+  optimistic(
+    () => {
+      const { semesters, courses } = state;
+      setState({
+        semesters: semesters.filter((s) => s.id !== semesterId),
+        courses: courses.map((c) =>
+          c.semester_id === semesterId ? { ...c, semester_id: null } : c
+        ),
+      });
+      return () => setState({ semesters, courses });
+    },
+    () => deleteSemester(uid, semesterId)
+  );
+
+export const saveTag = (uid: string, input: SaveTagInput) => {
+  const tempId = input.id ?? createTempId();
+  return optimistic(
+    () => {
+      const { tags } = state;
+      if (!input.id) placeholders.tags.set(tempId, null);
+      setState({
+        tags: upsertById(tags, {
+          id: tempId,
+          user_id: uid,
+          name: input.name,
+          color: input.color,
+        }),
+      });
+      return () => {
+        placeholders.tags.delete(tempId);
+        setState({ tags });
+      };
+    },
+    async () => {
+      const id = await persistTag(uid, input);
+      if (!input.id) settlePlaceholder("tags", tempId, id);
+      return id;
+    }
+  );
+};
+
+/** delete a tag and take it off every task and subtask */
+export const removeTag = (uid: string, tagId: string) =>
+  optimistic(
+    () => {
+      const { tags, tasks, children } = state;
+      const untag = <T extends TaskItem>(list: T[]) =>
+        list.map((t) =>
+          t.tags?.includes(tagId)
+            ? { ...t, tags: t.tags.filter((id) => id !== tagId) }
+            : t
+        );
+      setState({
+        tags: tags.filter((t) => t.id !== tagId),
+        tasks: untag(tasks),
+        children: untag(children),
+      });
+      return () => setState({ tags, tasks, children });
+    },
+    () => deleteTag(uid, tagId)
+  );
+
+export const saveClassSession = (uid: string, input: SaveClassSessionInput) => {
+  const tempId = input.id ?? createTempId();
+  return optimistic(
+    () => {
+      const { classSessions } = state;
+      if (!input.id) placeholders.classSessions.set(tempId, null);
+      setState({
+        classSessions: upsertById(classSessions, {
+          id: tempId,
+          user_id: uid,
+          course_id: input.course_id ?? null,
+          room: input.room ?? "",
+          weekday: input.weekday,
+          start_time: input.start_time,
+          end_time: input.end_time,
+          start_date: input.start_date ?? null,
+          end_date: input.end_date ?? null,
+        }),
+      });
+      return () => {
+        placeholders.classSessions.delete(tempId);
+        setState({ classSessions });
+      };
+    },
+    async () => {
+      const id = await persistClassSession(uid, input);
+      if (!input.id) settlePlaceholder("classSessions", tempId, id);
+      return id;
+    }
+  );
+};
+
+export const removeClassSession = (uid: string, sessionId: string) =>
+  optimistic(
+    () => {
+      const { classSessions } = state;
+      setState({
+        classSessions: classSessions.filter((s) => s.id !== sessionId),
+      });
+      return () => setState({ classSessions });
+    },
+    () => deleteClassSession(uid, sessionId)
+  );
+
+/**
+ * ids of the courses named in an import (code or name, case-insensitive,
+ * keyed lower-case); missing ones are created in the semester running `at`
+ */
+const importCourses = async (
+  uid: string,
+  labels: { label: string; at: Date }[]
+) => {
+  const ids = new Map<string, string>();
+  const created: string[] = [];
+  for (const { label, at } of labels) {
+    const key = label.toLowerCase();
+    if (!label || ids.has(key)) continue;
+    const existing = findCourseByLabel(state.courses, label);
+    if (existing) {
+      ids.set(key, existing.id);
+      continue;
+    }
+    const id = await saveCourse(uid, {
+      name: label,
+      code: "",
+      color: nextCourseColor(state.courses),
+      semester_id: findSemesterAt(state.semesters, at)?.id ?? null,
+    });
+    ids.set(key, id);
+    created.push(label);
+  }
+  return { ids, created };
+};
+
+/** same for tag names, keyed lower-case */
+const importTags = async (uid: string, names: string[]) => {
+  const ids = new Map<string, string>();
+  const created: string[] = [];
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (ids.has(key)) continue;
+    const existing = findTagByName(state.tags, name);
+    if (existing) {
+      ids.set(key, existing.id);
+      continue;
+    }
+    ids.set(key, await saveTag(uid, { name, color: nextTagColor(state.tags) }));
+    created.push(name);
+  }
+  return { ids, created };
+};
+
+/**
+ * Save parsed timetable rows; courses named in the file that do not exist
+ * yet are created first (in the semester running on the class's first day).
+ */
+export const importTimetable = async (uid: string, rows: TimetableRow[]) => {
+  const courses = await importCourses(
+    uid,
+    rows.map((row) => ({
+      label: row.course,
+      at: row.session.start_date ?? new Date(),
+    }))
+  );
+  for (const row of rows) {
+    await saveClassSession(uid, {
+      ...row.session,
+      course_id: courses.ids.get(row.course.toLowerCase()),
+    });
+  }
+  return { imported: rows.length, createdCourses: courses.created };
+};
+
+/** one new task per CSV row, creating the courses and tags it names */
+export const importTaskCsv = async (uid: string, rows: TaskCsvRow[]) => {
+  const courses = await importCourses(
+    uid,
+    rows.map((row) => ({
+      label: row.course,
+      at: row.task.end_time ?? new Date(),
+    }))
+  );
+  const tags = await importTags(
+    uid,
+    rows.flatMap((row) => row.tags)
+  );
+  for (const row of rows) {
+    const id = await saveTaskWithLevel(uid, {
+      ...row.task,
+      course_id: courses.ids.get(row.course.toLowerCase()) ?? null,
+      tags: row.tags.flatMap((name) => tags.ids.get(name.toLowerCase()) ?? []),
+    });
+    if (row.status !== null && row.status !== TaskStatus.NOT_STARTED) {
+      await updateTaskProgress(id, row.status);
+    }
+  }
+  return {
+    imported: rows.length,
+    createdCourses: courses.created,
+    createdTags: tags.created,
+  };
+};
+
+/**
+ * Recreate a backup next to the user's current data: every record gets a
+ * new id and the references follow. Status history is replayed with its
+ * original times, so progress and analytics match the exporting account.
+ */
+export const restoreBackup = async (uid: string, data: BackupData) => {
+  const ids = new Map<string, string>();
+  const mapped = (id?: string | null) => (id && ids.get(id)) || null;
+  const mappedList = (list?: string[] | null) =>
+    (list ?? []).flatMap((id) => ids.get(id) ?? []);
+
+  for (const semester of data.semesters) {
+    const id = await persistSemester(uid, {
+      name: semester.name,
+      start_date: semester.start_date ?? null,
+      end_date: semester.end_date ?? null,
+    });
+    ids.set(semester.id, id);
+  }
+  for (const course of data.courses) {
+    const id = await persistCourse(uid, {
+      name: course.name,
+      code: course.code,
+      credits: course.credits ?? null,
+      color: course.color,
+      instructor: course.instructor ?? "",
+      semester_id: mapped(course.semester_id),
+    });
+    ids.set(course.id, id);
+  }
+  for (const tag of data.tags) {
+    // tag names are unique per user: reuse the one the account already has
+    const id =
+      findTagByName(state.tags, tag.name)?.id ??
+      (await persistTag(uid, { name: tag.name, color: tag.color }));
+    ids.set(tag.id, id);
+  }
+  for (const session of data.class_sessions) {
+    await persistClassSession(uid, {
+      course_id: mapped(session.course_id),
+      room: session.room ?? "",
+      weekday: session.weekday,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      start_date: session.start_date ?? null,
+      end_date: session.end_date ?? null,
+    });
+  }
+
+  for (const task of data.tasks) {
+    const id = await saveTaskWithLevel(uid, {
+      task_name: task.task_name,
+      task_detail: task.task_detail ?? "",
+      start_time: task.start_time ?? null,
+      end_time: task.end_time ?? null,
+      level: task.level ?? 3,
+      recurrence: task.recurrence ?? null,
+      course_id: mapped(task.course_id),
+      tags: mappedList(task.tags),
+      ics_uid: task.ics_uid ?? null,
+      estimated_minutes: task.estimated_minutes ?? null,
+      reminders: task.reminders ?? null,
+    });
+    ids.set(task.id, id);
+  }
+  // parents before children, whatever the order in the file
+  let pending = data.children;
+  while (pending.length > 0) {
+    const ready = pending.filter((c) => ids.has(c.parent_id));
+    // the rest hang below a task that is not in the backup
+    if (ready.length === 0) break;
+    for (const child of ready) {
+      const id = await createChildTask(uid, ids.get(child.parent_id)!, {
+        task_name: child.task_name,
+        task_detail: child.task_detail ?? "",
+        start_time: child.start_time ?? null,
+        end_time: child.end_time ?? null,
+        level: child.level,
+        tags: mappedList(child.tags),
+        estimated_minutes: child.estimated_minutes ?? null,
+      });
+      ids.set(child.id, id);
+    }
+    pending = pending.filter((c) => !ids.has(c.id));
+  }
+  for (const node of [...data.tasks, ...data.children]) {
+    const dependsOn = mappedList(node.depends_on);
+    if (ids.has(node.id) && dependsOn.length > 0) {
+      await setTaskDependencies(ids.get(node.id)!, dependsOn);
+    }
+    // tracked time only ever grows, so it is added back on top of 0
+    if (ids.has(node.id) && node.actual_minutes) {
+      await addTrackedMinutes(ids.get(node.id)!, node.actual_minutes);
+    }
+  }
+
+  // occurrence ids carry the id of their series
+  const progressId = (taskId: string) => {
+    const occurrence = parseOccurrenceId(taskId);
+    if (!occurrence) return ids.get(taskId) ?? null;
+    const seriesId = ids.get(occurrence.seriesId);
+    return seriesId
+      ? occurrenceId(seriesId, new Date(`${occurrence.date}T00:00:00`))
+      : null;
+  };
+  const replayed = new Map<string, TaskStatus>();
+  for (const event of data.history) {
+    const taskId = progressId(event.task_id);
+    if (!taskId) continue;
+    await restoreStatusChange(taskId, event.to_status, {
+      changed_by: uid,
+      changed_at: event.changed_at,
+      reason: event.reason ?? null,
+    });
+    replayed.set(event.task_id, event.to_status);
+  }
+  // progress the history does not explain (e.g. older data)
+  for (const progress of data.progress) {
+    const taskId = progressId(progress.task_id);
+    if (!taskId || replayed.get(progress.task_id) === progress.task_status) {
+      continue;
+    }
+    await restoreStatusChange(taskId, progress.task_status, {
+      changed_by: uid,
+      changed_at: progress.updated_at,
+      reason: progress.status_reason ?? null,
+    });
+  }
+
+  return {
+    tasks: data.tasks.length,
+    subtasks: data.children.length - pending.length,
+    skipped: pending.length,
+  };
+};
+
+/** ---------- Helpers ---------- */
+
+/** subtasks grouped by parent id */
+export const groupChildrenByParent = (
+  children: TaskChild[]
+): Record<string, TaskChild[]> => {
+  const grouped: Record<string, TaskChild[]> = {};
+  for (const child of children) {
+    (grouped[child.parent_id] ??= []).push(child);
+  }
+  return grouped;
+};
+
+/** every subtask nested below `rootId`, parents before their children */
+export const collectDescendants = (
+  children: TaskChild[],
+  rootId: string
+): TaskChild[] => {
+  const grouped = groupChildrenByParent(children);
+  const result: TaskChild[] = [];
+  const seen = new Set([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    for (const child of grouped[queue.shift()!] ?? []) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      result.push(child);
+      queue.push(child.id);
+    }
+  }
+  return result;
+};
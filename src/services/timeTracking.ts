@@ -0,0 +1,263 @@
+// src/services/timeTracking.ts
+import type { TimeSlot } from "./timetable";
+import type { PomodoroRun } from "./pomodoro";
+import { createUserStore } from "./userStore";
+
+/**
+ * Time-tracking sessions of the Timer, saved per user in the repository so
+ * a running timer survives a reload: its run start is stored, not a count.
+ * A session goes start → pause / resume … → stop; every run between a
+ * (re)start and a pause is kept for a while as an entry for the per-day
+ * totals. On stop the session's whole minutes go to the task's
+ * actual_minutes (see trackTime); the seconds left over wait for its next
+ * stop, so short runs add up instead of rounding away.
+ */
+
+/** ---------- Storage ---------- */
+
+/** one uninterrupted run of work on a task */
+export interface TimeEntry extends TimeSlot {
+  id: string;
+  task_id: string;
+}
+
+/** open session of a task (at most one per task) */
+export interface TrackingSession {
+  task_id: string;
+  started_at: Date;
+  /** start of the current run, null while paused */
+  resumed_at: Date | null;
+  /** ms of the runs already closed by a pause */
+  tracked_ms: number;
+  /** Pomodoro of the Timer, so it goes on after the Timer is closed */
+  pomodoro?: PomodoroRun | null;
+}
+
+export interface TimeTracking {
+  sessions: TrackingSession[];
+  entries: TimeEntry[];
+  /** task id -> ms stopped but short of a whole minute */
+  carry_ms: Record<string, number>;
+}
+
+const EMPTY: TimeTracking = { sessions: [], entries: [], carry_ms: {} };
+
+export const timeTrackingStore = createUserStore<TimeTracking>({
+  key: "time_tracking",
+  fallback: EMPTY,
+  parse: (raw) => {
+    const parsed = raw as {
+      sessions?: (TrackingSession & {
+        started_at: string;
+        resumed_at: string | null;
+        pomodoro?: (PomodoroRun & { ends_at: string | null }) | null;
+      })[];
+      entries?: (TimeEntry & { start: string; end: string })[];
+      carry_ms?: Record<string, number>;
+    };
+    return {
+      sessions: (parsed.sessions ?? []).map((s) => ({
+        ...s,
+        started_at: new Date(s.started_at),
+        resumed_at: s.resumed_at ? new Date(s.resumed_at) : null,
+        pomodoro: s.pomodoro && {
+          ...s.pomodoro,
+          ends_at: s.pomodoro.ends_at ? new Date(s.pomodoro.ends_at) : null,
+        },
+      })),
+      entries: (parsed.entries ?? []).map((e) => ({
+        ...e,
+        start: new Date(e.start),
+        end: new Date(e.end),
+      })),
+      carry_ms: parsed.carry_ms ?? {},
+    };
+  },
+  legacyStorageKey: "naver_ai_time_tracking:",
+});
+
+/** ---------- Sessions ---------- */
+
+export const findSession = (tracking: TimeTracking, taskId: string) =>
+  tracking.sessions.find((s) => s.task_id === taskId) ?? null;
+
+/** ms tracked by the session so far, the current run included */
+export const sessionMs = (session: TrackingSession, now = new Date()) =>
+  session.tracked_ms +
+  (session.resumed_at
+    ? Math.max(0, now.getTime() - session.resumed_at.getTime())
+    : 0);
+
+/** start a session, or resume it when paused; running = no-op */
+export const startTracking = (uid: string, taskId: string, now = new Date()) =>
+  timeTrackingStore.update(uid, (tracking) => {
+    const session = findSession(tracking, taskId);
+    if (session?.resumed_at) return tracking;
+    return {
+      ...tracking,
+      sessions: session
+        ? tracking.sessions.map((s) =>
+            s.task_id === taskId ? { ...s, resumed_at: now } : s
+          )
+        : [
+            ...tracking.sessions,
+            {
+              task_id: taskId,
+              started_at: now,
+              resumed_at: now,
+              tracked_ms: 0,
+            },
+          ],
+    };
+  });
+
+/** runs that ended further back are dropped (the charts show a week) */
+const KEEP_ENTRIES_MS = 30 * 24 * 3600000;
+
+/** close the current run; returns the (paused) session, null if none */
+export const pauseTracking = (
+  uid: string,
+  taskId: string,
+  now = new Date()
+): TrackingSession | null => {
+  const session = findSession(timeTrackingStore.get(uid), taskId);
+  if (!session?.resumed_at) return session;
+  const resumedAt = session.resumed_at;
+  const paused = {
+    ...session,
+    resumed_at: null,
+    tracked_ms: sessionMs(session, now),
+  };
+  const recent = (entry: TimeEntry) =>
+    entry.end.getTime() > now.getTime() - KEEP_ENTRIES_MS;
+  timeTrackingStore.update(uid, (tracking) => ({
+    ...tracking,
+    sessions: tracking.sessions.map((s) => (s.task_id === taskId ? paused : s)),
+    entries: [
+      ...tracking.entries.filter(recent),
+      ...(now > resumedAt
+        ? [
+            {
+              id: `${taskId}_${resumedAt.getTime()}`,
+              task_id: taskId,
+              start: resumedAt,
+              end: now,
+            },
+          ]
+        : []),
+    ],
+  }));
+  return paused;
+};
+
+/** start / move on / leave the Pomodoro of a task's open session */
+export const setPomodoroRun = (
+  uid: string,
+  taskId: string,
+  pomodoro: PomodoroRun | null
+) =>
+  timeTrackingStore.update(uid, (tracking) => ({
+    ...tracking,
+    sessions: tracking.sessions.map((s) =>
+      s.task_id === taskId ? { ...s, pomodoro } : s
+    ),
+  }));
+
+/** ms of a task not yet in its actual_minutes: open session + carry */
+export const untrackedMs = (
+  tracking: TimeTracking,
+  taskId: string,
+  now = new Date()
+) => {
+  const session = findSession(tracking, taskId);
+  return (
+    (session ? sessionMs(session, now) : 0) + (tracking.carry_ms[taskId] ?? 0)
+  );
+};
+
+/**
+ * Forget the open session of a task, its entries stay; `carryMs` (under a
+ * minute) replaces its carry.
+ */
+export const endSession = (uid: string, taskId: string, carryMs = 0) =>
+  timeTrackingStore.update(uid, (tracking) => {
+    const carry = { ...tracking.carry_ms };
+    if (carryMs > 0) carry[taskId] = carryMs;
+    else delete carry[taskId];
+    return {
+      ...tracking,
+      sessions: tracking.sessions.filter((s) => s.task_id !== taskId),
+      carry_ms: carry,
+    };
+  });
+
+/** ---------- Totals ---------- */
+
+/** minutes per task id not yet in actual_minutes (see untrackedMs) */
+export const openMinutesByTask = (tracking: TimeTracking, now = new Date()) =>
+  Object.fromEntries(
+    [
+      ...new Set([
+        ...tracking.sessions.map((s) => s.task_id),
+        ...Object.keys(tracking.carry_ms),
+      ]),
+    ].map((id) => [id, untrackedMs(tracking, id, now) / 60000])
+  ) as Record<string, number>;
+
+const dateKey = (d: Date) =>
+  [
+    d.getFullYear(),
+    String(d.getMonth() + 1).padStart(2, "0"),
+    String(d.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/**
+ * Minutes worked per local day ("YYYY-MM-DD"), runs crossing midnight split
+ * between both days. `taskIds` limits it to some tasks (e.g. a subtree).
+ */
+export const timeSpentByDay = (
+  tracking: TimeTracking,
+  now = new Date(),
+  taskIds?: Set<string>
+) => {
+  const running = tracking.sessions
+    .filter((s) => s.resumed_at && now > s.resumed_at)
+    .map((s) => ({ task_id: s.task_id, start: s.resumed_at!, end: now }));
+  const minutes: Record<string, number> = {};
+  for (const run of [...tracking.entries, ...running]) {
+    if (taskIds && !taskIds.has(run.task_id)) continue;
+    let cursor = run.start;
+    while (cursor < run.end) {
+      const midnight = new Date(cursor);
+      midnight.setHours(24, 0, 0, 0);
+      const until = midnight < run.end ? midnight : run.end;
+      const key = dateKey(cursor);
+      minutes[key] =
+        (minutes[key] ?? 0) + (until.getTime() - cursor.getTime()) / 60000;
+      cursor = until;
+    }
+  }
+  return minutes;
+};
+
+/** the last `days` days up to today, oldest first, with their minutes */
+export const recentDays = (
+  byDay: Record<string, number>,
+  days: number,
+  now = new Date()
+) =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - (days - 1 - i));
+    return { date, minutes: Math.round(byDay[dateKey(date)] ?? 0) };
+  });
+
+/** e.g. "45m", "2h 05m" */
+export const formatMinutes = (minutes: number) => {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  return hours > 0
+    ? `${hours}h ${String(total % 60).padStart(2, "0")}m`
+    : `${total}m`;
+};
@@ -0,0 +1,370 @@
+// src/services/timetable.ts
+import type {
+  ClassSession,
+  Course,
+  Semester,
+  SaveClassSessionInput,
+} from "./firestore";
+import { WEEKDAY_LABELS } from "./recurrence";
+
+/** ---------- Weekdays & times ---------- */
+
+/** Monday first, the way timetables are printed */
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/** "Mon", "monday", "T2" / "CN" (Vietnamese) or ISO 1 (Mon) … 7 (Sun) */
+export const parseWeekday = (value: string): number | null => {
+  const key = value.trim().toLowerCase();
+  if (!key) return null;
+  if (/^[1-7]$/.test(key)) return Number(key) % 7;
+  const vi = key.match(/^(?:t|thứ\s*)([2-7])$/);
+  if (vi) return Number(vi[1]) - 1;
+  if (key === "cn" || key === "chủ nhật") return 0;
+  const index = WEEKDAY_LABELS.findIndex((label) =>
+    key.startsWith(label.toLowerCase())
+  );
+  return index === -1 ? null : index;
+};
+
+/** "7:5" / "07:05" / "7h05" -> "07:05", null when not a valid time */
+export const parseClockTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2})[:hH.](\d{1,2})$/);
+  if (!match) return null;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+/** "HH:mm" -> minutes after midnight */
+export const clockMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const atClock = (day: Date, time: string) => {
+  const date = new Date(day);
+  const minutes = clockMinutes(time);
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+};
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const endOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+};
+
+/** Returns an error message, or null when the session can be saved */
+export const validateClassSession = (
+  input: SaveClassSessionInput
+): string | null => {
+  if (
+    !Number.isInteger(input.weekday) ||
+    input.weekday < 0 ||
+    input.weekday > 6
+  ) {
+    return "Pick a weekday";
+  }
+  if (!parseClockTime(input.start_time) || !parseClockTime(input.end_time)) {
+    return "Times must look like 08:30";
+  }
+  if (clockMinutes(input.end_time) <= clockMinutes(input.start_time)) {
+    return "Class must end after it starts";
+  }
+  if (input.start_date && input.end_date && input.start_date > input.end_date) {
+    return "Class must start before it ends";
+  }
+  return null;
+};
+
+/** ---------- Weekly expansion ---------- */
+
+export interface ClassOccurrence {
+  session: ClassSession;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Dates a session runs between: its own dates, else those of its
+ * course's semester, else open ended.
+ */
+export const classSessionRange = (
+  session: ClassSession,
+  courses: Course[],
+  semesters: Semester[]
+) => {
+  const course = courses.find((c) => c.id === session.course_id);
+  const semester = semesters.find((s) => s.id === course?.semester_id);
+  return {
+    from: session.start_date ?? semester?.start_date ?? null,
+    to: session.end_date ?? semester?.end_date ?? null,
+  };
+};
+
+/** every meeting of `sessions` that overlaps [rangeStart, rangeEnd] */
+export const expandClassSessions = (
+  sessions: ClassSession[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  courses: Course[] = [],
+  semesters: Semester[] = []
+): ClassOccurrence[] => {
+  const occurrences: ClassOccurrence[] = [];
+  const day = new Date(rangeStart);
+  day.setHours(0, 0, 0, 0);
+  const ranges = new Map(
+    sessions.map((s) => [s.id, classSessionRange(s, courses, semesters)])
+  );
+  for (; day <= rangeEnd; day.setDate(day.getDate() + 1)) {
+    for (const session of sessions) {
+      if (session.weekday !== day.getDay()) continue;
+      const { from, to } = ranges.get(session.id)!;
+      const start = atClock(day, session.start_time);
+      const end = atClock(day, session.end_time);
+      // the semester dates are whole days
+      if (from && end < startOfDay(from)) continue;
+      if (to && start > endOfDay(to)) continue;
+      if (end < rangeStart || start > rangeEnd) continue;
+      occurrences.push({ session, start, end });
+    }
+  }
+  return occurrences;
+};
+
+/** ---------- Free time ---------- */
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+/** hours of the day counted as usable, from:00 to to:00 */
+export interface WorkingHours {
+  from: number;
+  to: number;
+}
+
+/** until the user sets their own (see workPlan.ts) */
+export const DEFAULT_WORKING_HOURS: WorkingHours = { from: 7, to: 22 };
+
+/** whole hours with 0 <= from < to <= 24, anything else is the default */
+export const normalizeWorkingHours = (
+  hours: Partial<WorkingHours>
+): WorkingHours => {
+  const from = Number(hours.from);
+  const to = Number(hours.to);
+  return Number.isInteger(from) &&
+    Number.isInteger(to) &&
+    0 <= from &&
+    from < to &&
+    to <= 24
+    ? { from, to }
+    : DEFAULT_WORKING_HOURS;
+};
+
+/**
+ * Gaps between `busy` slots (classes, scheduled tasks) inside the working
+ * hours of each day in [rangeStart, rangeEnd], in chronological order.
+ */
+export const findFreeSlots = (
+  busy: TimeSlot[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  hours: WorkingHours = DEFAULT_WORKING_HOURS
+): TimeSlot[] => {
+  const sorted = busy
+    .filter((b) => b.end > b.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const free: TimeSlot[] = [];
+  const day = startOfDay(rangeStart);
+  for (; day <= rangeEnd; day.setDate(day.getDate() + 1)) {
+    const dayStart = new Date(day);
+    dayStart.setHours(hours.from, 0, 0, 0);
+    const dayEnd = new Date(day);
+    dayEnd.setHours(hours.to, 0, 0, 0);
+    let cursor = new Date(Math.max(dayStart.getTime(), rangeStart.getTime()));
+    const limit = new Date(Math.min(dayEnd.getTime(), rangeEnd.getTime()));
+    for (const slot of sorted) {
+      if (slot.end <= cursor) continue;
+      if (slot.start >= limit) break;
+      if (slot.start > cursor) free.push({ start: cursor, end: slot.start });
+      if (slot.end > cursor) cursor = new Date(slot.end);
+    }
+    if (cursor < limit) free.push({ start: cursor, end: limit });
+  }
+  return free;
+};
+
+export const totalMinutes = (slots: TimeSlot[]) =>
+  Math.round(
+    slots.reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()), 0) /
+      60000
+  );
+
+/** ---------- CSV import ---------- */
+
+/** RFC 4180-ish: quoted fields, "" escapes, `,` or `;` separated */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const separator =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+/** accepted header names per column, compared lower-case */
+const TIMETABLE_COLUMNS = {
+  course: ["course", "code", "subject"],
+  room: ["room", "location"],
+  weekday: ["weekday", "day"],
+  start: ["start", "start_time", "from_time"],
+  end: ["end", "end_time", "to_time"],
+  from: ["from", "start_date", "first_day"],
+  to: ["to", "end_date", "last_day"],
+} as const;
+
+export const TIMETABLE_CSV_TEMPLATE =
+  "course,room,weekday,start,end,from,to\n" +
+  "CS101,B1-203,Mon,07:30,09:30,2026-09-07,2026-12-18\n";
+
+/**
+ * "2026-09-07" or "07/09/2026" (day first); null when empty,
+ * undefined when it cannot be read
+ */
+const parseCsvDate = (value: string): Date | null | undefined => {
+  const text = value.trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dmy = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [y, m, d] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : dmy
+      ? [dmy[3], dmy[2], dmy[1]]
+      : [];
+  if (!y) return undefined;
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  return date.getMonth() === Number(m) - 1 ? date : undefined;
+};
+
+export interface TimetableRow {
+  /** 1-based row in the file (the header is row 1), for error messages */
+  line: number;
+  /** course code or name as written in the file */
+  course: string;
+  session: Omit<SaveClassSessionInput, "id" | "course_id">;
+}
+
+/** rows that parsed, plus one message per rejected line */
+export const parseTimetableCsv = (
+  text: string
+): { rows: TimetableRow[]; errors: string[] } => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { rows: [], errors: ["The file is empty"] };
+  const names = header.map((h) => h.trim().toLowerCase());
+  const column = (key: keyof typeof TIMETABLE_COLUMNS) =>
+    names.findIndex((n) =>
+      (TIMETABLE_COLUMNS[key] as readonly string[]).includes(n)
+    );
+  const index = {
+    course: column("course"),
+    room: column("room"),
+    weekday: column("weekday"),
+    start: column("start"),
+    end: column("end"),
+    from: column("from"),
+    to: column("to"),
+  };
+  const missing = (["course", "weekday", "start", "end"] as const).filter(
+    (key) => index[key] === -1
+  );
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(", ")}`] };
+  }
+
+  const rows: TimetableRow[] = [];
+  const errors: string[] = [];
+  for (const [i, cells] of lines.entries()) {
+    const line = i + 2;
+    const cell = (at: number) => (at === -1 ? "" : (cells[at] ?? "").trim());
+    const course = cell(index.course);
+    const weekday = parseWeekday(cell(index.weekday));
+    const start = parseClockTime(cell(index.start));
+    const end = parseClockTime(cell(index.end));
+    const from = parseCsvDate(cell(index.from));
+    const to = parseCsvDate(cell(index.to));
+    let error: string | null = null;
+    if (!course) {
+      error = "course is empty";
+    } else if (weekday === null) {
+      error = `unknown weekday "${cell(index.weekday)}"`;
+    } else if (!start || !end) {
+      error = "times must look like 08:30";
+    } else if (from === undefined || to === undefined) {
+      error = "dates must be YYYY-MM-DD or DD/MM/YYYY";
+    }
+    const session = {
+      room: cell(index.room),
+      weekday: weekday ?? -1,
+      start_time: start ?? "",
+      end_time: end ?? "",
+      start_date: from ?? null,
+      end_date: to ?? null,
+    };
+    error ??= validateClassSession(session);
+    if (error) errors.push(`Row ${line}: ${error}`);
+    else rows.push({ line, course, session });
+  }
+  return { rows, errors };
+};
+
+/** course matching a code or name from the file, case-insensitive */
+export const findCourseByLabel = (courses: Course[], label: string) => {
+  const key = label.trim().toLowerCase();
+  return (
+    courses.find((c) => c.code && c.code.toLowerCase() === key) ??
+    courses.find((c) => c.name.toLowerCase() === key) ??
+    null
+  );
+};
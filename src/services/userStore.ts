@@ -0,0 +1,171 @@
+// src/services/userStore.ts
+import { toast } from "react-toastify";
+import { getRepository } from "./repository";
+
+/**
+ * Small per-user stores (saved views, work plan, reminders, Pomodoro, time
+ * tracking, status rollup): one user data document per store in the
+ * repository, mirrored here so components read it synchronously (see
+ * useUserStore). Like the task store it follows one user at a time.
+ */
+
+export interface UserStore<T> {
+  /** the fallback until the user's document has arrived; no side effects */
+  get: (uid: string | null | undefined) => T;
+  /**
+   * save `change(current)`; changes made before the document arrived wait
+   * for it instead of overwriting it
+   */
+  update: (uid: string, change: (current: T) => T) => void;
+  /** follow the document of `uid` (opened here, not in `get`) */
+  subscribe: (
+    uid: string | null | undefined,
+    listener: () => void
+  ) => () => void;
+}
+
+export interface UserStoreOptions<T> {
+  /** document key, e.g. "saved_views" */
+  key: string;
+  fallback: T;
+  /** stored value (plain JSON, dates as strings) -> T */
+  parse: (raw: unknown) => T;
+  /** localStorage prefix (+ uid) of older versions, moved over once */
+  legacyStorageKey?: string;
+}
+
+interface OpenDocument<T> {
+  uid: string;
+  value: T;
+  /** JSON of the last value, to skip snapshots that change nothing */
+  json: string | null;
+  ready: boolean;
+  waiting: ((current: T) => T)[];
+  stop: () => void;
+}
+
+/** Dates become ISO strings, undefined fields disappear */
+const toPlain = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+export const createUserStore = <T>({
+  key,
+  fallback,
+  parse,
+  legacyStorageKey,
+}: UserStoreOptions<T>): UserStore<T> => {
+  let current: OpenDocument<T> | null = null;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((l) => l());
+
+  const save = (uid: string, value: T) =>
+    getRepository().saveUserData(uid, key, toPlain(value));
+
+  const logError = (action: string) => (err: unknown) =>
+    console.error(`[userStore] failed to ${action} ${key}:`, err);
+
+  const readLegacy = (uid: string): T | null => {
+    if (!legacyStorageKey) return null;
+    try {
+      const raw = localStorage.getItem(legacyStorageKey + uid);
+      return raw ? parse(JSON.parse(raw)) : null;
+    } catch (err) {
+      logError("read the old copy of")(err);
+      return null;
+    }
+  };
+
+  const removeLegacy = (uid: string) => {
+    try {
+      localStorage.removeItem(legacyStorageKey + uid);
+    } catch (err) {
+      logError("remove the old copy of")(err);
+    }
+  };
+
+  const set = (doc: OpenDocument<T>, value: T, json: string) => {
+    doc.value = value;
+    doc.json = json;
+    notify();
+  };
+
+  /** first snapshot: apply the waiting changes (or the old copy) on top */
+  const settle = (doc: OpenDocument<T>, value: T, json: string) => {
+    doc.ready = true;
+    const legacy = json === "null" ? readLegacy(doc.uid) : null;
+    const settled = doc.waiting.reduce(
+      (acc, change) => change(acc),
+      legacy ?? value
+    );
+    doc.waiting = [];
+    if (settled === value) {
+      set(doc, value, json);
+      return;
+    }
+    set(doc, settled, JSON.stringify(settled));
+    save(doc.uid, settled)
+      .then(() => legacy && removeLegacy(doc.uid))
+      .catch(logError("save"));
+  };
+
+  const open = (uid: string) => {
+    current?.stop();
+    const doc: OpenDocument<T> = {
+      uid,
+      value: fallback,
+      json: null,
+      ready: false,
+      waiting: [],
+      stop: () => {},
+    };
+    current = doc;
+    doc.stop = getRepository().subscribeUserData(uid, key, {
+      next: (raw) => {
+        const json = JSON.stringify(raw);
+        if (current !== doc || (doc.ready && json === doc.json)) return;
+        let value = fallback;
+        try {
+          if (raw !== null) value = parse(raw);
+        } catch (err) {
+          logError("read")(err);
+        }
+        if (doc.ready) set(doc, value, json);
+        else settle(doc, value, json);
+      },
+      // keep the last value (or the fallback) so changes still save
+      error: (err) => {
+        if (current !== doc) return;
+        logError("load")(err);
+        toast.error(
+          `Unable to load your ${key.replace(/_/g, " ")}, new changes are still saved`
+        );
+        if (!doc.ready) settle(doc, fallback, "null");
+      },
+    });
+    return doc;
+  };
+
+  const get = (uid: string | null | undefined) =>
+    uid && current?.uid === uid ? current.value : fallback;
+
+  const update = (uid: string, change: (current: T) => T) => {
+    const doc = current?.uid === uid ? current : open(uid);
+    if (!doc.ready) {
+      doc.waiting.push(change);
+      return;
+    }
+    const value = change(doc.value);
+    if (value === doc.value) return;
+    set(doc, value, JSON.stringify(value));
+    save(uid, value).catch(logError("save"));
+  };
+
+  const subscribe = (uid: string | null | undefined, listener: () => void) => {
+    listeners.add(listener);
+    if (uid && current?.uid !== uid) open(uid);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { get, update, subscribe };
+};
@@ -0,0 +1,81 @@
+// src/services/workPlan.ts
+import {
+  type TimeSlot,
+  type WorkingHours,
+  DEFAULT_WORKING_HOURS,
+  normalizeWorkingHours,
+} from "./timetable";
+import { createUserStore } from "./userStore";
+
+/**
+ * Work blocks accepted from the auto-scheduler (see scheduler.ts) and the
+ * working hours it plans in, saved per user in the repository. A block only
+ * books time for a task; the task's own start_time / end_time (its
+ * deadline) stay untouched.
+ */
+
+export interface PlannedBlock extends TimeSlot {
+  id: string;
+  task_id: string;
+}
+
+const NO_BLOCKS: PlannedBlock[] = [];
+
+export const workPlanStore = createUserStore<PlannedBlock[]>({
+  key: "work_plan",
+  fallback: NO_BLOCKS,
+  parse: (raw) =>
+    (raw as (PlannedBlock & { start: string; end: string })[]).map((b) => ({
+      ...b,
+      start: new Date(b.start),
+      end: new Date(b.end),
+    })),
+  legacyStorageKey: "naver_ai_work_plan:",
+});
+
+/** add accepted blocks, replacing any with the same id */
+export const acceptBlocks = (uid: string, blocks: PlannedBlock[]) => {
+  const ids = new Set(blocks.map((b) => b.id));
+  workPlanStore.update(uid, (plan) => [
+    ...plan.filter((b) => !ids.has(b.id)),
+    ...blocks,
+  ]);
+};
+
+export const removeBlock = (uid: string, blockId: string) =>
+  workPlanStore.update(uid, (plan) => plan.filter((b) => b.id !== blockId));
+
+/** drop the blocks of tasks that were deleted, completed or cancelled */
+export const pruneWorkPlan = (uid: string, openTaskIds: Set<string>) =>
+  workPlanStore.update(uid, (plan) => {
+    const kept = plan.filter((b) => openTaskIds.has(b.task_id));
+    return kept.length < plan.length ? kept : plan;
+  });
+
+/**
+ * minutes still booked after `now` per task id; time already past is
+ * worked (and tracked into actual_minutes) or missed, not booked
+ */
+export const plannedMinutesByTask = (blocks: PlannedBlock[], now: Date) => {
+  const minutes: Record<string, number> = {};
+  for (const block of blocks) {
+    const from = Math.max(block.start.getTime(), now.getTime());
+    if (block.end.getTime() <= from) continue;
+    minutes[block.task_id] =
+      (minutes[block.task_id] ?? 0) + (block.end.getTime() - from) / 60000;
+  }
+  return minutes;
+};
+
+/** ---------- Working hours ---------- */
+
+export const workingHoursStore = createUserStore<WorkingHours>({
+  key: "working_hours",
+  fallback: DEFAULT_WORKING_HOURS,
+  parse: (raw) => normalizeWorkingHours(raw as Partial<WorkingHours>),
+});
+
+export const saveWorkingHours = (uid: string, hours: Partial<WorkingHours>) =>
+  workingHoursStore.update(uid, (current) =>
+    normalizeWorkingHours({ ...current, ...hours })
+  );
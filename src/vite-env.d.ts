@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /**
+   * "firestore" (default) | "memory" | "local" – see services/repository;
+   * sign-in follows it (services/auth)
+   */
+  readonly VITE_STORAGE_BACKEND?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}